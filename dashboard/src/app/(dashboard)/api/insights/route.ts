@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecentActivities, initializeDatabase } from '@/lib/db-turso';
+import { getRecentActivities, getSummariesSince, initializeDatabase } from '@/lib/db-turso';
 import { categorizeActivity } from '@/lib/mock-data';
+import { buildFocusCurve } from '@/lib/focus-curve';
 import { Activity, InsightData } from '@/lib/types';
 import { validatePositiveInt } from '@/lib/validation';
 import { checkRateLimit, RATE_LIMITS, addRateLimitHeaders } from '@/lib/rate-limit';
@@ -124,6 +125,19 @@ export async function GET(request: NextRequest) {
     );
   }
   
+  // Validate weeks parameter (history behind the hour-of-week focus curve)
+  const weeksResult = validatePositiveInt(searchParams.get('weeks'), {
+    min: 1,
+    max: 52,
+    defaultValue: 26
+  });
+  if (!weeksResult.valid) {
+    return NextResponse.json(
+      { error: weeksResult.error },
+      { status: 400 }
+    );
+  }
+  
   try {
     await ensureInitialized();
     
@@ -138,9 +152,13 @@ export async function GET(request: NextRequest) {
           weeklyTrends: [],
         };
     
+    // Built from daily summaries, so it's there even when recent activity isn't
+    const since = new Date(Date.now() - weeksResult.value! * 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const focusCurve = buildFocusCurve(await getSummariesSince(since));
+    
     const response = NextResponse.json({
       days: daysResult.value,
-      insights,
+      insights: { ...insights, focusCurve },
       source: activities.length > 0 ? 'database' : 'empty',
     });
     return addRateLimitHeaders(response, RATE_LIMITS.read, request);
@@ -156,6 +174,7 @@ export async function GET(request: NextRequest) {
         categoryBreakdown: [],
         hourlyHeatmap: [],
         weeklyTrends: [],
+        focusCurve: [],
       },
       source: 'error',
       error: 'Service temporarily unavailable',
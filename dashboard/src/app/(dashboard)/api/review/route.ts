@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getScreenMediaSince,
+  getSummariesSince,
+  initializeDatabase,
+  isDatabaseConfigured,
+} from '@/lib/db-turso';
+import { validatePositiveInt } from '@/lib/validation';
+import { checkRateLimit, RATE_LIMITS, addRateLimitHeaders } from '@/lib/rate-limit';
+import { validateContentType, requireInternalAuth } from '@/lib/auth';
+import { sendAgentCommand } from '@/lib/agent';
+import { CategoryInfo, DailySummaryContent, MediaRecord, ReviewItem } from '@/lib/types';
+
+const DEFAULT_THRESHOLD = 0.6;
+const MAX_DAYS = 30;
+const MAX_LABELS = 500;
+
+// The fields of the agent's MediaAnalysis this route reads
+interface ScreenAnalysis {
+  description: string;
+  category: string;
+  confidence: number;
+  applications?: string[];
+  source?: ReviewItem['source'];
+  reviewed?: boolean;
+  dedupedFrom?: number;
+}
+
+// Initialize database tables on cold start
+let initialized = false;
+let initError: Error | null = null;
+
+async function ensureInitialized(): Promise<{ ready: boolean; error?: string }> {
+  if (!isDatabaseConfigured()) {
+    return { ready: false, error: 'Database not configured' };
+  }
+
+  if (initError) {
+    return { ready: false, error: 'Database initialization failed' };
+  }
+
+  if (!initialized) {
+    try {
+      await initializeDatabase();
+      initialized = true;
+    } catch (error) {
+      initError = error instanceof Error ? error : new Error('Unknown initialization error');
+      console.error('Failed to initialize database:', initError);
+      return { ready: false, error: 'Database initialization failed' };
+    }
+  }
+  return { ready: true };
+}
+
+// Encrypted or malformed analyses can't be reviewed here
+function parseScreenAnalysis(media: MediaRecord): ScreenAnalysis | null {
+  if (media.type !== 'screen' || !media.analysis_json) return null;
+  try {
+    const analysis = JSON.parse(media.analysis_json);
+    return typeof analysis?.category === 'string' ? analysis as ScreenAnalysis : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/review
+ * Low-confidence screen classifications since `since` (an ISO timestamp, the
+ * start of the viewer's first day), or from the last `days` days.
+ * Duplicates of a listed capture are left out; labeling it labels them too.
+ *
+ * Labels are applied by the agent (POST below, or `lifelog review
+ * confirm|relabel`), which turns them into few-shot examples and recomputes
+ * affected summaries.
+ *
+ * PUBLIC - No authentication required (read-only)
+ */
+export async function GET(request: NextRequest) {
+  // Rate limiting
+  const rateLimitError = await checkRateLimit(request, RATE_LIMITS.read);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    const initResult = await ensureInitialized();
+    if (!initResult.ready) {
+      return NextResponse.json({
+        items: [],
+        count: 0,
+        error: 'Service temporarily unavailable',
+      });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const daysResult = validatePositiveInt(searchParams.get('days'), {
+      min: 1,
+      max: MAX_DAYS,
+      defaultValue: 1,
+    });
+    if (!daysResult.valid) {
+      return NextResponse.json(
+        { error: daysResult.error },
+        { status: 400 }
+      );
+    }
+
+    const thresholdParam = searchParams.get('threshold');
+    const threshold = thresholdParam === null ? DEFAULT_THRESHOLD : Number(thresholdParam);
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      return NextResponse.json(
+        { error: 'Threshold must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    // Days start at the viewer's midnight, so the page sends it; UTC days would be off by the offset
+    const sinceParam = searchParams.get('since');
+    const since = sinceParam === null
+      ? new Date(Date.now() - daysResult.value! * 24 * 60 * 60 * 1000)
+      : new Date(sinceParam);
+    if (isNaN(since.getTime()) || Date.now() - since.getTime() > (MAX_DAYS + 1) * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `since must be a timestamp within the last ${MAX_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const items: ReviewItem[] = [];
+    for (const media of await getScreenMediaSince(since.toISOString())) {
+      const analysis = parseScreenAnalysis(media);
+      if (!analysis || analysis.reviewed || !analysis.source || analysis.dedupedFrom !== undefined) continue;
+      if (analysis.confidence >= threshold) continue;
+
+      items.push({
+        mediaId: media.id,
+        timestamp: media.timestamp,
+        category: analysis.category,
+        confidence: analysis.confidence,
+        description: analysis.description,
+        applications: analysis.applications,
+        source: analysis.source,
+      });
+    }
+
+    // Relabel choices come from the taxonomy stored with the newest summary in range, when there is one
+    let categories: CategoryInfo[] = [];
+    for (const summary of (await getSummariesSince(since.toISOString().split('T')[0])).reverse()) {
+      try {
+        categories = (JSON.parse(summary.content_json) as DailySummaryContent).categories || [];
+      } catch {
+        // Encrypted or malformed
+      }
+      if (categories.length > 0) break;
+    }
+
+    const response = NextResponse.json({
+      items,
+      count: items.length,
+      threshold,
+      categories,
+    });
+
+    return addRateLimitHeaders(response, RATE_LIMITS.read, request);
+  } catch (error) {
+    // Log the actual error server-side
+    console.error('Failed to fetch review items:', error);
+
+    // Return generic error to client
+    return NextResponse.json({
+      items: [],
+      error: 'Service temporarily unavailable',
+    });
+  }
+}
+
+/**
+ * POST /api/review
+ * Confirm classifications ({ mediaIds }) or relabel them ({ mediaIds, category })
+ * through the running agent's control socket.
+ *
+ * AUTHENTICATED - Requires INTERNAL_API_KEY
+ */
+export async function POST(request: NextRequest) {
+  // Authentication required
+  const authError = requireInternalAuth(request);
+  if (authError) return authError;
+
+  // Validate Content-Type
+  const contentTypeError = validateContentType(request);
+  if (contentTypeError) return contentTypeError;
+
+  // Rate limiting
+  const rateLimitError = await checkRateLimit(request, RATE_LIMITS.write);
+  if (rateLimitError) return rateLimitError;
+
+  try {
+    const body = await request.json();
+    const { mediaIds, category } = body;
+
+    if (!Array.isArray(mediaIds) || mediaIds.length === 0 || mediaIds.length > MAX_LABELS ||
+        !mediaIds.every(id => Number.isInteger(id) && id > 0)) {
+      return NextResponse.json(
+        { error: `mediaIds must be 1 to ${MAX_LABELS} media ids` },
+        { status: 400 }
+      );
+    }
+    // The agent rejects categories it doesn't know
+    if (category !== undefined && (typeof category !== 'string' || category.length === 0 || category.length > 50)) {
+      return NextResponse.json(
+        { error: 'category must be a category id' },
+        { status: 400 }
+      );
+    }
+
+    const reply = await sendAgentCommand<{ updated: number; resummarized: string[] }>('review', { mediaIds, category });
+    if (!reply.ok) {
+      return NextResponse.json(
+        { error: reply.unavailable ? 'The agent is not running; start a session with `lifelog start` and try again' : reply.error },
+        { status: reply.unavailable ? 503 : 400 }
+      );
+    }
+
+    const response = NextResponse.json(reply.result);
+    return addRateLimitHeaders(response, RATE_LIMITS.write, request);
+  } catch (error) {
+    // Log the actual error server-side
+    console.error('Failed to apply review labels:', error);
+
+    // Return generic error to client
+    return NextResponse.json(
+      { error: 'Failed to apply labels' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ListChecks, Check, RefreshCw } from 'lucide-react';
+import { CategoryInfo, ReviewItem } from '@/lib/types';
+
+type DayRange = 1 | 3 | 7;
+
+export default function ReviewPage() {
+  const [days, setDays] = useState<DayRange>(1);
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [categories, setCategories] = useState<CategoryInfo[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [relabelTo, setRelabelTo] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    // Days start at local midnight, not UTC
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+
+    try {
+      const res = await fetch(`/api/review?since=${encodeURIComponent(since.toISOString())}`);
+      const data = await res.json();
+
+      if (res.ok && !data.error) {
+        setItems(data.items);
+        setCategories(data.categories || []);
+        setSelected(new Set());
+      } else {
+        setError(data.error || 'Failed to load classifications');
+      }
+    } catch (err) {
+      console.error('Review fetch error:', err);
+      setError('Failed to load classifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const toggle = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === items.length ? new Set() : new Set(items.map(i => i.mediaId)));
+  };
+
+  // Labels are applied by the agent, so its few-shot examples and summaries pick them up
+  const applyLabels = async () => {
+    setIsApplying(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch('/api/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mediaIds: Array.from(selected), category: relabelTo || undefined }),
+      });
+      const data = await res.json();
+
+      if (res.ok && !data.error) {
+        const resummarized = data.resummarized?.length ? `; summaries recomputed for ${data.resummarized.join(', ')}` : '';
+        setNotice(relabelTo
+          ? `Relabeled ${data.updated} as ${labelFor(relabelTo)}${resummarized}`
+          : `Confirmed ${data.updated}`);
+        await fetchItems();
+      } else {
+        setError(data.error || 'Failed to apply labels');
+      }
+    } catch (err) {
+      console.error('Review apply error:', err);
+      setError('Failed to apply labels');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const labelFor = (id: string) => {
+    const category = categories.find(c => c.id === id);
+    return category ? `${category.emoji} ${category.name}` : id;
+  };
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="max-w-5xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Review</h1>
+          <p className="text-text-muted">
+            Pick low-confidence classifications to confirm or correct; the running agent applies them
+          </p>
+        </div>
+        <button
+          onClick={fetchItems}
+          disabled={isLoading}
+          className="btn btn-secondary flex items-center gap-2"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Range tabs */}
+      <div className="flex gap-2 mb-6">
+        {([1, 3, 7] as DayRange[]).map((d) => (
+          <button
+            key={d}
+            onClick={() => setDays(d)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              days === d
+                ? 'bg-accent text-white'
+                : 'bg-surface text-text-muted hover:bg-surface-light'
+            }`}
+          >
+            {d === 1 ? 'Today' : `Last ${d} days`}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-danger text-sm mb-4">{error}</p>}
+      {notice && <p className="text-success text-sm mb-4">{notice}</p>}
+
+      {/* Bulk actions */}
+      {items.length > 0 && (
+        <div className="card flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.size === items.length}
+              onChange={toggleAll}
+            />
+            {selected.size} of {items.length} selected
+          </label>
+          <div className="flex-1" />
+          <select
+            value={relabelTo}
+            onChange={(e) => setRelabelTo(e.target.value)}
+            className="px-3 py-2 rounded-lg bg-surface text-sm"
+          >
+            <option value="">Confirm as is</option>
+            {categories.map((c) => (
+              <option key={c.id} value={c.id}>Relabel as {c.emoji} {c.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={applyLabels}
+            disabled={selected.size === 0 || isApplying}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            {relabelTo ? 'Relabel' : 'Confirm'} {selected.size}
+          </button>
+        </div>
+      )}
+
+      {/* Items */}
+      {items.length > 0 ? (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <label key={item.mediaId} className="card flex items-start gap-4 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={selected.has(item.mediaId)}
+                onChange={() => toggle(item.mediaId)}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-3 mb-1 text-sm">
+                  <span className="text-text-muted">#{item.mediaId}</span>
+                  <span className="text-text-muted">{formatTime(item.timestamp)}</span>
+                  <span className="font-medium">{labelFor(item.category)}</span>
+                  <span className="text-text-muted">
+                    {Math.round(item.confidence * 100)}%{item.source ? ` · ${item.source}` : ''}
+                  </span>
+                </div>
+                <p className="truncate">{item.description}</p>
+                {item.applications && item.applications.length > 0 && (
+                  <p className="text-sm text-text-muted truncate">{item.applications.join(', ')}</p>
+                )}
+              </div>
+            </label>
+          ))}
+        </div>
+      ) : (
+        <div className="card text-center py-12">
+          <ListChecks className="w-12 h-12 text-text-muted mx-auto mb-4" />
+          <p className="text-text-muted">
+            {isLoading ? 'Loading…' : 'Nothing to review'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,8 @@ import {
   Users,
   Wallet,
   Store,
-  PlusCircle
+  PlusCircle,
+  ListChecks
 } from 'lucide-react';
 
 const navItems = [
@@ -23,6 +24,7 @@ const navItems = [
   // { href: '/timeline', label: 'Timeline', icon: Calendar },
   // { href: '/goals', label: 'Goals', icon: Target },
   // { href: '/insights', label: 'Insights', icon: BarChart3 },
+  // { href: '/review', label: 'Review', icon: ListChecks },
   // { href: '/wellness', label: 'Wellness Agents', icon: Users },
   // { href: '/settings', label: 'Settings', icon: Settings },
 ];
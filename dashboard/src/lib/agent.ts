@@ -0,0 +1,59 @@
+/**
+ * Agent Control Socket Client
+ *
+ * Sends commands to the running LifeLog agent over its Unix-domain socket
+ * (one JSON line each way), for actions the agent has to apply itself.
+ * Works when the dashboard runs on the machine running the agent.
+ */
+
+import net from 'net';
+import path from 'path';
+
+// The agent's default data directory, next to the dashboard folder (like db.ts)
+const SOCKET_PATH = process.env.LIFELOG_SOCKET || path.join(process.cwd(), '..', 'data', 'lifelog.sock');
+const REQUEST_TIMEOUT_MS = 60000;
+
+// A rejected command's error is the agent's own (e.g. an unknown category) and safe to show
+export type AgentReply<T> =
+  | { ok: true; result: T }
+  | { ok: false; error: string; unavailable?: boolean };
+
+/**
+ * Send one command to the agent and wait for its reply. No agent listening
+ * is a reply too (`unavailable`); timeouts and broken replies throw.
+ */
+export async function sendAgentCommand<T = unknown>(command: string, args?: Record<string, unknown>): Promise<AgentReply<T>> {
+  const raw = await new Promise<string | null>((resolve, reject) => {
+    const socket = net.createConnection(SOCKET_PATH);
+    let data = '';
+
+    socket.setEncoding('utf-8');
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new Error(`Agent did not respond within ${REQUEST_TIMEOUT_MS}ms`));
+    });
+    socket.on('connect', () => {
+      socket.write(JSON.stringify({ command, args }) + '\n');
+    });
+    socket.on('data', chunk => {
+      data += chunk;
+    });
+    socket.on('end', () => resolve(data));
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        resolve(null);
+      } else {
+        reject(error);
+      }
+    });
+  });
+
+  if (raw === null) {
+    return { ok: false, error: 'The LifeLog agent is not running', unavailable: true };
+  }
+
+  const response = JSON.parse(raw) as { ok: boolean; result?: T; error?: string };
+  return response.ok
+    ? { ok: true, result: response.result as T }
+    : { ok: false, error: response.error || 'Agent command failed' };
+}
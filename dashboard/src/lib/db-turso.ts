@@ -286,6 +286,23 @@ export async function getMediaByDate(date: string): Promise<MediaRecord[]> {
   }));
 }
 
+// `since` is an ISO timestamp, which compares correctly with the stored ones
+export async function getScreenMediaSince(since: string): Promise<MediaRecord[]> {
+  const client = getClient();
+  const result = await client.execute({
+    sql: "SELECT id, timestamp, type, file_path, analysis_json FROM media WHERE type = 'screen' AND timestamp >= ? AND analysis_json IS NOT NULL ORDER BY timestamp ASC",
+    args: [since],
+  });
+  
+  return result.rows.map(row => ({
+    id: Number(row.id),
+    timestamp: String(row.timestamp),
+    type: 'screen' as const,
+    file_path: String(row.file_path),
+    analysis_json: String(row.analysis_json),
+  }));
+}
+
 // Summaries
 export async function getSummaryByDate(date: string): Promise<Summary | undefined> {
   const client = getClient();
@@ -304,6 +321,20 @@ export async function getSummaryByDate(date: string): Promise<Summary | undefine
   };
 }
 
+export async function getSummariesSince(date: string): Promise<Summary[]> {
+  const client = getClient();
+  const result = await client.execute({
+    sql: 'SELECT id, date, content_json FROM summaries WHERE date >= ? ORDER BY date ASC',
+    args: [date],
+  });
+  
+  return result.rows.map(row => ({
+    id: Number(row.id),
+    date: String(row.date),
+    content_json: String(row.content_json),
+  }));
+}
+
 // Stats
 export async function getStats(): Promise<{
   activities: number;
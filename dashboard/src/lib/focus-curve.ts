@@ -0,0 +1,57 @@
+import { DailySummaryContent, FocusCurveCell, Summary } from './types';
+
+// An hour needs this much tracked time on a day to count towards the curve
+// (same as the agent's `lifelog patterns --heatmap`)
+const MIN_HOUR_MINUTES = 10;
+
+// Normal quantile for a 95% confidence band
+const Z_95 = 1.96;
+
+/**
+ * Focus by hour of the week from the hourly activity in daily summaries
+ */
+export function buildFocusCurve(summaries: Summary[]): FocusCurveCell[] {
+  const samples: { focus: number[]; minutes: number[] }[] = Array.from({ length: 7 * 24 }, () => ({ focus: [], minutes: [] }));
+
+  for (const summary of summaries) {
+    let content: DailySummaryContent;
+    try {
+      content = JSON.parse(summary.content_json);
+    } catch {
+      continue;
+    }
+    if (!content.hourlyActivity) continue;
+
+    // Dates are the agent's local days; 0 = Monday
+    const weekday = (new Date(`${summary.date}T00:00:00Z`).getUTCDay() + 6) % 7;
+    for (const [hour, activity] of Object.entries(content.hourlyActivity)) {
+      if (activity.minutes < MIN_HOUR_MINUTES) continue;
+      const cell = samples[weekday * 24 + Number(hour)];
+      if (!cell) continue;
+      cell.focus.push(activity.focusScore);
+      cell.minutes.push(activity.minutes);
+    }
+  }
+
+  return samples.map(({ focus, minutes }, i) => {
+    const weekday = Math.floor(i / 24);
+    const hour = i % 24;
+    if (focus.length === 0) {
+      return { weekday, hour, days: 0, focusScore: null, low: null, high: null, avgMinutes: 0 };
+    }
+
+    const mean = focus.reduce((sum, f) => sum + f, 0) / focus.length;
+    const margin = focus.length > 1
+      ? Z_95 * Math.sqrt(focus.reduce((sum, f) => sum + (f - mean) ** 2, 0) / (focus.length - 1) / focus.length)
+      : null;
+    return {
+      weekday,
+      hour,
+      days: focus.length,
+      focusScore: Math.round(mean),
+      low: margin !== null ? Math.max(0, Math.round(mean - margin)) : null,
+      high: margin !== null ? Math.min(100, Math.round(mean + margin)) : null,
+      avgMinutes: Math.round(minutes.reduce((sum, m) => sum + m, 0) / minutes.length),
+    };
+  });
+}
@@ -56,11 +56,56 @@ export interface TimeBlock {
   totalMinutes: number;
 }
 
+// Activity category as configured in the agent's taxonomy (config.categories)
+export interface CategoryInfo {
+  id: string;
+  name: string;
+  color: string;
+  emoji: string;
+  parent?: string;
+}
+
+// Parsed Summary.content_json (the fields the dashboard reads)
+export interface DailySummaryContent {
+  date: string;
+  totalTrackedMinutes: number;
+  categoryBreakdown: Record<string, number>; // minutes by category id
+  groupBreakdown?: Record<string, number>; // minutes by parent group
+  categories?: CategoryInfo[]; // absent in summaries from before custom categories
+  analysisVersion?: string; // model@promptHash the summary is pinned to; absent when it uses current analyses
+  focusScore: number;
+  deepWorkMinutes: number;
+  hourlyActivity?: Record<number, { minutes: number; focusScore: number }>; // by local hour; absent in older summaries
+}
+
+// Low-confidence screen classification awaiting the user's confirmation or correction
+export interface ReviewItem {
+  mediaId: number;
+  timestamp: string;
+  category: string;
+  confidence: number;
+  description: string;
+  applications?: string[];
+  source?: 'rule' | 'keywords' | 'model' | 'user';
+}
+
+// Mean focus in one hour of the week across tracked days, with a 95% band
+export interface FocusCurveCell {
+  weekday: number; // 0 = Monday
+  hour: number;
+  days: number;
+  focusScore: number | null;
+  low: number | null;
+  high: number | null;
+  avgMinutes: number;
+}
+
 export interface InsightData {
   dailyProductivity: { date: string; focusMinutes: number; distractionMinutes: number }[];
   categoryBreakdown: { name: string; value: number; color: string }[];
   hourlyHeatmap: { hour: number; day: string; value: number }[];
   weeklyTrends: { week: string; productivity: number }[];
+  focusCurve?: FocusCurveCell[]; // 7 x 24, Monday 00:00 first
 }
 
 export interface Settings {
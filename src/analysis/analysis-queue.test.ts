@@ -0,0 +1,127 @@
+/**
+ * Analysis Job Queue Tests
+ *
+ * Run with: npx ts-node src/analysis/analysis-queue.test.ts
+ * Or: node --loader ts-node/esm src/analysis/analysis-queue.test.ts
+ */
+
+import { AnalysisQueue, AnalysisJobHandler } from './analysis-queue.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { AnalysisJob, Config } from '../types/index.js';
+import { test, assertEqual, quietly, createTestConfig, summary } from '../test-utils.js';
+
+const DATE = '2026-10-20';
+
+function createTestEnv(maxAttempts: number, baseDelayMs: number): { config: Config; db: LifeLogDatabase } {
+  const config = createTestConfig({ analysis: { queue: { concurrency: 1, maxAttempts, baseDelayMs } } });
+  return { config, db: new LifeLogDatabase(config) };
+}
+
+function addScreen(db: LifeLogDatabase, time: string): number {
+  return db.insertMedia({ timestamp: `${DATE}T${time}Z`, type: 'screen', file_path: `${time}.png` });
+}
+
+function jobOf(db: LifeLogDatabase, id: number): AnalysisJob {
+  return db.getRawDb().prepare('SELECT * FROM analysis_jobs WHERE id = ?').get(id) as AnalysisJob;
+}
+
+// Fails its first `failures` calls; every call spends 10 input tokens
+function flaky(failures: number): { handler: AnalysisJobHandler; calls: Array<{ job: AnalysisJob; at: number }>; failedAt: number[] } {
+  const calls: Array<{ job: AnalysisJob; at: number }> = [];
+  const failedAt: number[] = [];
+  const handler: AnalysisJobHandler = async (job, usage) => {
+    calls.push({ job: { ...job }, at: Date.now() });
+    usage.inputTokens += 10;
+    usage.costUsd += 0.01;
+    if (calls.length <= failures) {
+      failedAt.push(Date.now());
+      throw new Error(`rate limited (${calls.length})`);
+    }
+  };
+  return { handler, calls, failedAt };
+}
+
+// ==================== RETRY TESTS ====================
+
+console.log('\n🧪 Analysis Job Queue Tests\n');
+
+await test('failed attempts are retried after a doubling delay', async () => {
+  const { config, db } = createTestEnv(5, 100);
+  const { handler, calls, failedAt } = flaky(2);
+  const queue = new AnalysisQueue(config, db, handler);
+  const job = queue.enqueue(addScreen(db, '10:00:00'), 'screen');
+
+  await quietly(() => queue.run());
+
+  assertEqual(calls.length, 3);
+  assertEqual(calls.map(c => c.job.attempts).join(), '1,2,3');
+  // Each retry was scheduled base × 2^(attempt - 1) after the failure, and waited for
+  [100, 200].forEach((delayMs, i) => {
+    const retry = calls[i + 1];
+    const scheduledMs = new Date(retry.job.next_attempt_at).getTime() - failedAt[i];
+    assertEqual(scheduledMs >= delayMs && scheduledMs < delayMs + 50, true, `retry ${i + 1} scheduled after ${scheduledMs}ms`);
+    assertEqual(retry.at >= new Date(retry.job.next_attempt_at).getTime(), true, `retry ${i + 1} ran early`);
+  });
+
+  const done = jobOf(db, job.id);
+  assertEqual(done.status, 'done');
+  assertEqual(done.attempts, 3);
+  assertEqual(done.last_error, null);
+  assertEqual(done.input_tokens, 30, 'failed attempts count too');
+  db.close();
+});
+
+await test('jobs are dead-lettered after maxAttempts, with their usage', async () => {
+  const { config, db } = createTestEnv(3, 10);
+  const { handler, calls } = flaky(Infinity);
+  const queue = new AnalysisQueue(config, db, handler);
+  const job = queue.enqueue(addScreen(db, '10:00:00'), 'screen');
+
+  await quietly(() => queue.run());
+
+  assertEqual(calls.length, 3);
+  const dead = jobOf(db, job.id);
+  assertEqual(dead.status, 'dead');
+  assertEqual(dead.attempts, 3);
+  assertEqual(dead.last_error, 'rate limited (3)');
+  assertEqual(dead.finished_at !== null, true, 'finished');
+  assertEqual(dead.input_tokens, 30);
+  assertEqual(Math.round(dead.cost_usd * 100), 3);
+
+  const queued = db.getAnalysisQueueSummary(DATE);
+  assertEqual(queued.dead, 1);
+  assertEqual(queued.pending, 0);
+  assertEqual(queued.inputTokens, 30);
+  db.close();
+});
+
+// ==================== LEASE TESTS ====================
+
+await test('only running jobs whose lease ran out are requeued', async () => {
+  const { config, db } = createTestEnv(5, 10);
+  const { handler, calls } = flaky(0);
+  const queue = new AnalysisQueue(config, db, handler);
+  const crashed = queue.enqueue(addScreen(db, '10:00:00'), 'screen');
+  const live = queue.enqueue(addScreen(db, '10:05:00'), 'screen');
+  const now = Date.now();
+  // A worker that crashed an hour ago, and one still renewing its lease
+  db.claimNextAnalysisJob(new Date(now).toISOString(), new Date(now - 3600000).toISOString());
+  db.claimNextAnalysisJob(new Date(now).toISOString(), new Date(now + 3600000).toISOString());
+
+  assertEqual(db.resetStaleAnalysisJobs(new Date(now).toISOString()), 1);
+  assertEqual(jobOf(db, crashed.id).status, 'pending');
+  assertEqual(jobOf(db, crashed.id).lease_until, null);
+  assertEqual(jobOf(db, live.id).status, 'running');
+
+  await quietly(() => queue.run());
+
+  assertEqual(calls.map(c => c.job.id).join(), String(crashed.id), 'only the crashed job is worked again');
+  assertEqual(jobOf(db, crashed.id).status, 'done');
+  assertEqual(jobOf(db, crashed.id).attempts, 2, 'the crashed attempt still counts');
+  assertEqual(jobOf(db, live.id).status, 'running');
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
@@ -0,0 +1,119 @@
+/**
+ * Analysis Job Queue
+ * Persistent queue of media analysis jobs, worked by a small pool with
+ * exponential backoff, dead-lettering and token/cost accounting
+ */
+
+import { Config, AnalysisJob, AnalysisJobKind, TokenUsage } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Runs one job; adds the tokens it spends to `usage` (also on failure).
+ * Throwing marks the attempt as failed.
+ */
+export type AnalysisJobHandler = (job: AnalysisJob, usage: TokenUsage) => Promise<void>;
+
+export class AnalysisQueue {
+  private db: LifeLogDatabase;
+  private handler: AnalysisJobHandler;
+  private concurrency: number;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private leaseMs: number;
+  private finished = 0;
+  private total = 0;
+
+  constructor(config: Config, db: LifeLogDatabase, handler: AnalysisJobHandler) {
+    this.db = db;
+    this.handler = handler;
+    this.concurrency = Math.max(1, config.analysis?.queue?.concurrency || DEFAULT_CONCURRENCY);
+    this.maxAttempts = Math.max(1, config.analysis?.queue?.maxAttempts || DEFAULT_MAX_ATTEMPTS);
+    this.baseDelayMs = config.analysis?.queue?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.leaseMs = config.analysis?.queue?.leaseMs || DEFAULT_LEASE_MS;
+  }
+
+  enqueue(mediaId: number, kind: AnalysisJobKind): AnalysisJob {
+    return this.db.enqueueAnalysisJob(mediaId, kind, new Date().toISOString());
+  }
+
+  /**
+   * Work the queue until nothing is pending. Jobs left running by a crashed
+   * run are picked up again once their lease runs out; jobs waiting on a
+   * retry are waited for.
+   */
+  async run(): Promise<void> {
+    const recovered = this.db.resetStaleAnalysisJobs(new Date().toISOString());
+    if (recovered > 0) {
+      console.log(`   ♻️ Resuming ${recovered} interrupted analysis jobs`);
+    }
+
+    this.finished = 0;
+    this.total = this.db.countPendingAnalysisJobs();
+    if (this.total === 0) return;
+
+    console.log(`   Queue: ${this.total} jobs, ${Math.min(this.concurrency, this.total)} workers`);
+    await Promise.all(Array.from({ length: this.concurrency }, () => this.work()));
+  }
+
+  private async work(): Promise<void> {
+    while (true) {
+      const job = this.db.claimNextAnalysisJob(new Date().toISOString(), this.leaseUntil());
+      if (job) {
+        await this.process(job);
+        continue;
+      }
+
+      // Nothing due: wait for the earliest retry, or stop if the queue is empty
+      const next = this.db.getNextAnalysisAttemptTime();
+      if (!next) return;
+      const waitMs = Math.min(new Date(next).getTime() - Date.now(), MAX_DELAY_MS);
+      await new Promise(resolve => setTimeout(resolve, Math.max(waitMs, 50)));
+    }
+  }
+
+  private async process(job: AnalysisJob): Promise<void> {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    const label = `${job.kind} #${job.media_id}`;
+    // Keep the job ours while it runs, however long that takes
+    const renewal = setInterval(() => this.db.renewAnalysisJobLease(job.id, this.leaseUntil()), this.leaseMs / 3);
+
+    try {
+      await this.handler(job, usage);
+      this.db.completeAnalysisJob(job.id, usage, new Date().toISOString());
+      this.finished++;
+      console.log(`   [${this.finished}/${this.total}] ✓ ${label}${this.formatUsage(usage)}`);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const now = new Date();
+
+      if (job.attempts >= this.maxAttempts) {
+        this.db.failAnalysisJob(job.id, message, null, usage, now.toISOString());
+        this.finished++;
+        console.error(`   [${this.finished}/${this.total}] 💀 ${label} failed ${job.attempts} times: ${message}`);
+        return;
+      }
+
+      const delayMs = Math.min(this.baseDelayMs * 2 ** (job.attempts - 1), MAX_DELAY_MS);
+      const nextAttemptAt = new Date(now.getTime() + delayMs).toISOString();
+      this.db.failAnalysisJob(job.id, message, nextAttemptAt, usage, now.toISOString());
+      console.warn(`   ⚠️ ${label} attempt ${job.attempts} failed (${message}), retrying in ${Math.round(delayMs / 1000)}s`);
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  private leaseUntil(): string {
+    return new Date(Date.now() + this.leaseMs).toISOString();
+  }
+
+  private formatUsage(usage: TokenUsage): string {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    return tokens > 0 ? ` (${tokens} tokens)` : '';
+  }
+}
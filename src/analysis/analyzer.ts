@@ -1,116 +1,446 @@
 /**
  * AI Analysis Pipeline
- * Uses Claude API for vision + text analysis of recorded data
+ * Uses the configured LLM providers for vision + text analysis of recorded data
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { 
   Config, 
   MediaRecord, 
   MediaAnalysis, 
   WorkspaceAnalysis, 
   AudioAnalysis,
-  ActivityCategory 
+  ActivityCategory,
+  Activity,
+  ActiveWindow,
+  RawTimeBlock,
+  CaptureGap,
+  DedupReport,
+  TranscriptSegment,
+  AnalysisJob,
+  AnalysisJobKind,
+  AnalysisVersion,
+  Moment,
+  QueueSummary,
+  TokenUsage,
+  LLMTask
 } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
+import { Encryptor } from '../storage/encryption.js';
+import { FrameExtractor } from './frame-extractor.js';
+import { AnalysisQueue } from './analysis-queue.js';
+import { PerceptualHasher, hammingDistance } from './perceptual-hash.js';
+import { Taxonomy, BREAK_CATEGORY, FALLBACK_CATEGORY } from './taxonomy.js';
+import { RuleEngine } from './rules.js';
+import { TranscriptionProvider, createTranscriptionProvider } from '../services/transcription.js';
+import { DEFAULT_CONVERSATION_GAP_MS } from '../services/audio-recorder.js';
+import { DEFAULT_AUDIO_CHUNK_MS, getMaxChunkMs } from '../services/voice-activity.js';
+import { LLMProvider, LLMResponse, ImageMediaType, createLLMProvider } from '../llm/providers.js';
+
+// Max differing bits (of 64) for two captures to count as the same screen
+const DEFAULT_DEDUP_THRESHOLD = 4;
+
+// Screen captures with these extensions are recordings, analyzed and hashed by keyframe
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.webm'];
+
+interface HashedAnalysis {
+  id: number;
+  phash: string;
+  analysis: MediaAnalysis;
+}
+
+// Reviewed classifications shown to the model as examples
+const DEFAULT_FEW_SHOT_EXAMPLES = 8;
+
+// Model task behind each kind of analysis job
+const JOB_TASKS: Record<AnalysisJobKind, LLMTask> = {
+  screen: 'screen',
+  camera: 'camera',
+  audio: 'transcript',
+};
+
+const CAMERA_PROMPT = `Analyze this camera image of a workspace/person. Respond with JSON only:
+{
+  "personPresent": true | false (is someone sitting at the desk),
+  "postureScore": 0-100 (if person visible, otherwise null),
+  "workspaceQuality": 0-100 (organization, setup quality),
+  "lighting": "good" | "moderate" | "poor",
+  "distractions": ["list any visible distractions"],
+  "environment": "Brief description of the workspace"
+}
+
+Focus on practical observations. JSON only, no markdown.`;
+
+// Keyword matches on a window are trusted about this much
+const KEYWORD_CONFIDENCE = 0.7;
+
+interface WindowClassification {
+  category: ActivityCategory;
+  confidence: number; // 0 when nothing matched
+  focusScore: number;
+  source: 'rule' | 'keywords';
+  ruleId?: string;
+}
+
+interface AppUsageSpan extends WindowClassification {
+  start: number;
+  end: number;
+  window: ActiveWindow;
+}
 
 export class Analyzer {
   private config: Config;
   private db: LifeLogDatabase;
-  private anthropic: Anthropic;
-  private model: string;
+  private encryptor: Encryptor;
+  private taxonomy: Taxonomy;
+  private rules: RuleEngine;
+  private providers = new Map<LLMTask, LLMProvider>();
+  private frameExtractor: FrameExtractor;
+  private hasher: PerceptualHasher;
+  private transcriber: TranscriptionProvider | null;
+  private dedupThreshold: number;
+  private dedupReport: DedupReport = Analyzer.emptyDedupReport();
+  private queue: AnalysisQueue;
 
   constructor(config: Config, db: LifeLogDatabase) {
     this.config = config;
     this.db = db;
-    this.model = config.analysis?.model || 'claude-sonnet-4-20250514';
-    
-    // Initialize Anthropic client (uses ANTHROPIC_API_KEY env var by default)
-    this.anthropic = new Anthropic({
-      apiKey: config.analysis?.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-    });
+    this.encryptor = db.getEncryptor();
+    this.taxonomy = new Taxonomy(config);
+    this.rules = new RuleEngine(config, this.taxonomy);
+    this.frameExtractor = new FrameExtractor(config, db);
+    this.hasher = new PerceptualHasher(config);
+    this.transcriber = createTranscriptionProvider(config);
+    this.dedupThreshold = config.analysis?.dedupThreshold ?? DEFAULT_DEDUP_THRESHOLD;
+    this.queue = new AnalysisQueue(config, db, (job, usage) => this.runJob(job, usage));
   }
 
   /**
-   * Analyze all media for a given date
+   * Analyze all media for a given date. Items that need a model call become
+   * jobs on the persistent queue; cheap classification (window tracker,
+   * near-duplicate screens) happens here in capture order.
    */
   async analyzeDate(date: string): Promise<{
     screenAnalyses: Array<{ id: number; analysis: MediaAnalysis }>;
     cameraAnalyses: Array<{ id: number; analysis: WorkspaceAnalysis }>;
     audioAnalyses: Array<{ id: number; analysis: AudioAnalysis }>;
+    dedup: DedupReport;
+    queue: QueueSummary;
   }> {
     console.log(`🔍 Analyzing data for ${date}...`);
+    this.dedupReport = Analyzer.emptyDedupReport();
     
     const media = this.db.getMediaByDate(date);
     
     const screenMedia = media.filter(m => m.type === 'screen');
     const cameraMedia = media.filter(m => m.type === 'camera');
-    const audioMedia = media.filter(m => m.type === 'audio');
+    // Later chunks of a conversation are analyzed with its first chunk
+    const audioMedia = media.filter(m => m.type === 'audio' && !m.parent_id);
 
     console.log(`   Found: ${screenMedia.length} screens, ${cameraMedia.length} cameras, ${audioMedia.length} audio`);
 
-    const screenAnalyses: Array<{ id: number; analysis: MediaAnalysis }> = [];
-    const cameraAnalyses: Array<{ id: number; analysis: WorkspaceAnalysis }> = [];
-    const audioAnalyses: Array<{ id: number; analysis: AudioAnalysis }> = [];
+    // Screens whose focused window a rule (or keyword) classifies confidently
+    // don't need vision; unmatched and low-confidence ones go to the model
+    const appSpans = await this.getAppUsageSpans(date);
 
-    // Analyze screen recordings/screenshots
+    // A screen that looks like the one before it waits for that analysis
+    // instead of getting its own job, as long as that one is expected to succeed
+    let previous: { phash: string; expected: boolean } | null = null;
     for (const m of screenMedia) {
-      if (!m.analysis_json) {
-        console.log(`   Analyzing screen: ${path.basename(m.file_path)}`);
-        try {
-          const analysis = await this.analyzeScreen(m);
-          this.db.updateMediaAnalysis(m.id!, JSON.stringify(analysis));
-          screenAnalyses.push({ id: m.id!, analysis });
-        } catch (error) {
-          console.error(`   ❌ Failed to analyze screen ${m.id}:`, error);
-        }
+      const phash = await this.getMediaHash(m);
+      let expected: boolean;
+
+      if (m.analysis_json) {
+        expected = (JSON.parse(m.analysis_json) as MediaAnalysis).confidence > 0;
       } else {
-        screenAnalyses.push({ id: m.id!, analysis: JSON.parse(m.analysis_json) });
+        const span = this.findCoveringSpan(appSpans, m.timestamp);
+        if (span && this.isConfidentWindow(span)) {
+          this.db.updateMediaAnalysis(m.id!, JSON.stringify(this.createWindowAnalysis(span)));
+          expected = true;
+        } else if (phash && previous?.expected && this.isDuplicate(phash, previous.phash)) {
+          expected = true;
+        } else {
+          expected = this.queue.enqueue(m.id!, 'screen').status !== 'dead';
+        }
       }
+
+      previous = phash ? { phash, expected } : null;
     }
 
-    // Analyze camera snapshots
     for (const m of cameraMedia) {
       if (!m.analysis_json) {
-        console.log(`   Analyzing camera: ${path.basename(m.file_path)}`);
-        try {
-          const analysis = await this.analyzeCamera(m);
-          this.db.updateMediaAnalysis(m.id!, JSON.stringify(analysis));
-          cameraAnalyses.push({ id: m.id!, analysis });
-        } catch (error) {
-          console.error(`   ❌ Failed to analyze camera ${m.id}:`, error);
-        }
-      } else {
-        cameraAnalyses.push({ id: m.id!, analysis: JSON.parse(m.analysis_json) });
+        this.queue.enqueue(m.id!, 'camera');
       }
     }
 
-    // Analyze audio recordings
     for (const m of audioMedia) {
       if (!m.analysis_json) {
-        console.log(`   Analyzing audio: ${path.basename(m.file_path)}`);
-        try {
-          const analysis = await this.analyzeAudio(m);
-          this.db.updateMediaAnalysis(m.id!, JSON.stringify(analysis));
-          audioAnalyses.push({ id: m.id!, analysis });
-        } catch (error) {
-          console.error(`   ❌ Failed to analyze audio ${m.id}:`, error);
+        if (this.isConversationOpen(m)) {
+          console.log(`   Skipping audio still being recorded: ${path.basename(m.file_path)}`);
+          continue;
         }
-      } else {
-        audioAnalyses.push({ id: m.id!, analysis: JSON.parse(m.analysis_json) });
+        this.queue.enqueue(m.id!, 'audio');
       }
     }
 
+    await this.queue.run();
+
+    const results = this.collectAnalyses(date);
     console.log(`✅ Analysis complete for ${date}`);
+    return { ...results, dedup: this.dedupReport, queue: this.db.getAnalysisQueueSummary(date) };
+  }
+
+  /**
+   * Read back a date's analyses once the queue has run, copying each
+   * near-duplicate screen's analysis from the capture before it
+   */
+  private collectAnalyses(date: string): {
+    screenAnalyses: Array<{ id: number; analysis: MediaAnalysis }>;
+    cameraAnalyses: Array<{ id: number; analysis: WorkspaceAnalysis }>;
+    audioAnalyses: Array<{ id: number; analysis: AudioAnalysis }>;
+  } {
+    const media = this.db.getMediaByDate(date);
+    const screenAnalyses: Array<{ id: number; analysis: MediaAnalysis }> = [];
+    const cameraAnalyses: Array<{ id: number; analysis: WorkspaceAnalysis }> = [];
+    const audioAnalyses: Array<{ id: number; analysis: AudioAnalysis }> = [];
+
+    let previous: HashedAnalysis | null = null;
+    for (const m of media.filter(m => m.type === 'screen')) {
+      let analysis = m.analysis_json ? JSON.parse(m.analysis_json) as MediaAnalysis : null;
+
+      if (!analysis && m.phash && previous && this.dedupThreshold > 0 && this.isDuplicate(m.phash, previous.phash)) {
+        analysis = this.inheritAnalysis(previous);
+        this.db.updateMediaAnalysis(m.id!, JSON.stringify(analysis));
+        this.dedupReport.inherited++;
+        this.dedupReport.callsSaved += previous.analysis.framesAnalyzed || 1;
+      }
+
+      if (analysis) {
+        screenAnalyses.push({ id: m.id!, analysis });
+      }
+      // Fallbacks carry no signal worth copying, so the next capture gets a real call
+      previous = m.phash && analysis && analysis.confidence > 0
+        ? { id: m.id!, phash: m.phash, analysis }
+        : null;
+    }
+
+    for (const m of media) {
+      if (!m.analysis_json) continue;
+      if (m.type === 'camera') {
+        cameraAnalyses.push({ id: m.id!, analysis: JSON.parse(m.analysis_json) });
+      } else if (m.type === 'audio' && !m.parent_id) {
+        audioAnalyses.push({ id: m.id!, analysis: JSON.parse(m.analysis_json) });
+      }
+    }
+
     return { screenAnalyses, cameraAnalyses, audioAnalyses };
   }
 
+  /**
+   * Queue handler: analyze one media item and store the result
+   */
+  private async runJob(job: AnalysisJob, usage: TokenUsage): Promise<void> {
+    const media = this.db.getMediaById(job.media_id);
+    if (!media) {
+      throw new Error(`Media ${job.media_id} not found`);
+    }
+
+    let analysis: MediaAnalysis | WorkspaceAnalysis | AudioAnalysis;
+    switch (job.kind) {
+      case 'screen':
+        analysis = await this.analyzeScreen(media, usage);
+        break;
+      case 'camera':
+        analysis = await this.analyzeCamera(media, usage);
+        break;
+      case 'audio':
+        analysis = await this.analyzeAudio(media, usage);
+        break;
+      default:
+        throw new Error(`Unknown analysis job kind: ${job.kind}`);
+    }
+    this.db.updateMediaAnalysis(media.id!, JSON.stringify(analysis), this.usedVersion(job.kind));
+  }
+
+  /**
+   * Version of a job's result, or undefined when its task never reached a
+   * model (e.g. a missing file), since there is no model output to keep
+   */
+  private usedVersion(kind: AnalysisJobKind): AnalysisVersion | undefined {
+    const provider = this.providers.get(JOB_TASKS[kind]);
+    return provider ? { model: provider.model, promptHash: this.promptHash(kind) } : undefined;
+  }
+
+  /**
+   * Short hash of a job kind's prompt template; per-item content (few-shot
+   * examples, transcripts) is left out so it only changes with the instructions
+   */
+  promptHash(kind: AnalysisJobKind): string {
+    const template = kind === 'screen' ? this.screenPrompt('')
+      : kind === 'camera' ? CAMERA_PROMPT
+      : this.transcriptPrompt('');
+    return crypto.createHash('sha256').update(template).digest('hex').slice(0, 8);
+  }
+
+  /**
+   * Model and prompt screen classifications from this analyzer are made with
+   */
+  screenVersion(): AnalysisVersion {
+    return { model: this.llm('screen').model, promptHash: this.promptHash('screen') };
+  }
+
+  /**
+   * Classify a date's screens again with the configured screen model and
+   * prompt, storing the results as a new version; current analyses are left
+   * alone. Screens classified from the window tracker never used a model.
+   */
+  async reanalyzeDate(date: string, usage: TokenUsage): Promise<{
+    version: AnalysisVersion;
+    analyzed: number;
+    copied: number;
+    missing: number;
+    failed: number;
+  }> {
+    const version = this.screenVersion();
+    const createdAt = new Date().toISOString();
+    const results = new Map<number, MediaAnalysis>();
+    const counts = { analyzed: 0, copied: 0, missing: 0, failed: 0 };
+
+    for (const m of this.db.getMediaByDate(date)) {
+      if (m.type !== 'screen' || !m.analysis_json) continue;
+      const current = JSON.parse(m.analysis_json) as MediaAnalysis;
+      if (current.source === 'rule' || current.source === 'keywords') continue;
+
+      // Near-duplicates take their source's new analysis, as they took the old one
+      const source = current.dedupedFrom !== undefined ? results.get(current.dedupedFrom) : undefined;
+      let analysis: MediaAnalysis;
+      if (source) {
+        analysis = { ...source, dedupedFrom: current.dedupedFrom };
+        counts.copied++;
+      } else if (m.purged_at || !fs.existsSync(path.resolve(this.config.dataDir, '..', m.file_path))) {
+        // Purged by retention: the day keeps its old analysis for this screen
+        counts.missing++;
+        continue;
+      } else {
+        try {
+          analysis = await this.analyzeScreen(m, usage);
+        } catch (error: any) {
+          analysis = this.createFallbackAnalysis(error?.message || String(error));
+        }
+        // A fallback isn't an analysis; storing it would count as a screen of unknown activity
+        if (analysis.confidence === 0) {
+          console.warn(`⚠️ Re-analysis of media #${m.id} failed: ${analysis.description}`);
+          counts.failed++;
+          continue;
+        }
+        counts.analyzed++;
+      }
+
+      results.set(m.id!, analysis);
+      this.db.insertMediaAnalysisVersion(m.id!, JSON.stringify(analysis), version, createdAt);
+    }
+
+    return { version, ...counts };
+  }
+
+  /**
+   * Provider for a task, created on first use so a missing API key only
+   * matters once that task actually needs a model call
+   */
+  private llm(task: LLMTask): LLMProvider {
+    let provider = this.providers.get(task);
+    if (!provider) {
+      provider = createLLMProvider(this.config, task);
+      this.providers.set(task, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Add a response's token counts and cost to a job's usage
+   */
+  private addUsage(usage: TokenUsage | undefined, response: LLMResponse): void {
+    if (!usage) return;
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+    usage.costUsd += response.usage.costUsd;
+  }
+
+  /**
+   * Perceptual hash for a screen capture or frame, computed and stored on first use.
+   * A recording's hash lists each of its keyframes' hashes, comma-separated, so
+   * switching apps mid-clip makes it differ from the clip before.
+   */
+  private async getMediaHash(media: MediaRecord): Promise<string | null> {
+    if (this.dedupThreshold <= 0) return null;
+    if (media.phash) return media.phash;
+
+    const filePath = path.resolve(this.config.dataDir, '..', media.file_path);
+    if (!fs.existsSync(filePath)) return null;
+
+    let phash: string | null;
+    if (VIDEO_EXTENSIONS.includes(path.extname(this.encryptor.getPlainPath(filePath)).toLowerCase())) {
+      phash = await this.hashRecording(media, filePath);
+    } else {
+      phash = await this.encryptor.withPlaintextFile(filePath, plainPath => this.hasher.hash(plainPath));
+    }
+    if (phash) {
+      this.db.updateMediaHash(media.id!, phash);
+      media.phash = phash;
+      this.dedupReport.hashed++;
+    }
+    return phash;
+  }
+
+  /**
+   * Keyframe hashes of a recording; null if any keyframe can't be hashed
+   */
+  private async hashRecording(media: MediaRecord, filePath: string): Promise<string | null> {
+    let frames: MediaRecord[];
+    try {
+      ({ frames } = await this.frameExtractor.getFrames(media, filePath));
+    } catch (error: any) {
+      console.warn(`⚠️ Could not extract frames to hash ${path.basename(filePath)}: ${error?.message || error}`);
+      return null;
+    }
+    if (frames.length === 0) return null;
+
+    const hashes: string[] = [];
+    for (const frame of frames) {
+      const phash = await this.getMediaHash(frame);
+      if (!phash) return null;
+      hashes.push(phash);
+    }
+    return hashes.join(',');
+  }
+
+  /**
+   * Near-identical captures: every keyframe within the threshold of its counterpart
+   */
+  private isDuplicate(a: string, b: string): boolean {
+    const framesA = a.split(',');
+    const framesB = b.split(',');
+    if (framesA.length !== framesB.length) return false;
+    return framesA.every((hash, i) => hash.length === framesB[i].length && hammingDistance(hash, framesB[i]) <= this.dedupThreshold);
+  }
+
+  /**
+   * Copy an earlier capture's analysis, pointing back at the capture that was actually analyzed
+   */
+  private inheritAnalysis(source: HashedAnalysis): MediaAnalysis {
+    return { ...source.analysis, dedupedFrom: source.analysis.dedupedFrom ?? source.id };
+  }
+
+  private static emptyDedupReport(): DedupReport {
+    return { hashed: 0, inherited: 0, framesReused: 0, callsSaved: 0 };
+  }
+
   /**
    * Analyze a screen recording/screenshot for activity classification
    */
-  async analyzeScreen(media: MediaRecord): Promise<MediaAnalysis> {
+  async analyzeScreen(media: MediaRecord, usage?: TokenUsage): Promise<MediaAnalysis> {
     const filePath = path.resolve(this.config.dataDir, '..', media.file_path);
     
     // Check if file exists and is an image (screenshots)
@@ -118,172 +448,317 @@ export class Analyzer {
       return this.createFallbackAnalysis('File not found');
     }
 
-    const ext = path.extname(filePath).toLowerCase();
+    const ext = path.extname(this.encryptor.getPlainPath(filePath)).toLowerCase();
     
-    // For video files, we can't directly analyze with Claude vision
-    // Return a placeholder analysis (future: extract frames)
-    if (['.mp4', '.mov', '.webm'].includes(ext)) {
-      return this.createFallbackAnalysis('Video file - frame extraction needed');
+    // For video files, analyze sampled keyframes
+    if (VIDEO_EXTENSIONS.includes(ext)) {
+      return this.analyzeRecording(media, filePath, usage);
     }
 
-    // For images, use Claude vision
+    // For images, use the vision model
     if (['.png', '.jpg', '.jpeg', '.gif', '.webp'].includes(ext)) {
-      const imageData = fs.readFileSync(filePath);
-      const base64Image = imageData.toString('base64');
-      const mediaType = ext === '.png' ? 'image/png' : 
-                       ext === '.gif' ? 'image/gif' :
-                       ext === '.webp' ? 'image/webp' : 'image/jpeg';
-
-      try {
-        const response = await this.anthropic.messages.create({
-          model: this.model,
-          max_tokens: 1024,
-          messages: [{
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: mediaType,
-                  data: base64Image,
-                },
-              },
-              {
-                type: 'text',
-                text: `Analyze this screenshot and classify the activity. Respond with JSON only:
+      return this.analyzeScreenImage(filePath, usage);
+    }
+
+    return this.createFallbackAnalysis('Unsupported file type');
+  }
+
+  /**
+   * Analyze a screen recording through its keyframes, so the result
+   * reflects the whole clip rather than a single moment
+   */
+  private async analyzeRecording(media: MediaRecord, filePath: string, usage?: TokenUsage): Promise<MediaAnalysis> {
+    let frames: MediaRecord[];
+    let clipDurationSec: number;
+    try {
+      ({ frames, clipDurationSec } = await this.frameExtractor.getFrames(media, filePath));
+    } catch (error: any) {
+      return this.createFallbackAnalysis(`Frame extraction failed: ${error?.message || error}`);
+    }
+
+    const frameAnalyses: MediaAnalysis[] = [];
+    let previous: HashedAnalysis | null = null;
+    for (const frame of frames) {
+      const phash = await this.getMediaHash(frame);
+      if (phash && previous && this.isDuplicate(phash, previous.phash)) {
+        // A static screen still counts once per frame toward the clip's majority
+        frameAnalyses.push(previous.analysis);
+        this.dedupReport.framesReused++;
+        this.dedupReport.callsSaved++;
+        continue;
+      }
+
+      const analysis = await this.analyzeScreenImage(path.resolve(this.config.dataDir, '..', frame.file_path), usage);
+      // Fallbacks (API/parse errors) carry no signal
+      if (analysis.confidence > 0) {
+        frameAnalyses.push(analysis);
+      }
+      previous = phash && analysis.confidence > 0 ? { id: frame.id!, phash, analysis } : null;
+    }
+
+    if (frameAnalyses.length === 0) {
+      return { ...this.createFallbackAnalysis('No frames could be analyzed'), framesAnalyzed: 0, clipDurationSec };
+    }
+
+    return { ...this.combineFrameAnalyses(frameAnalyses), framesAnalyzed: frameAnalyses.length, clipDurationSec };
+  }
+
+  /**
+   * Merge per-frame analyses: majority category (weighted by confidence),
+   * focus averaged over every frame
+   */
+  private combineFrameAnalyses(analyses: MediaAnalysis[]): MediaAnalysis {
+    const weights: Partial<Record<ActivityCategory, number>> = {};
+    for (const a of analyses) {
+      weights[a.category] = (weights[a.category] || 0) + a.confidence;
+    }
+    const category = (Object.entries(weights) as Array<[ActivityCategory, number]>)
+      .sort((a, b) => b[1] - a[1])[0][0];
+
+    const agreeing = analyses.filter(a => a.category === category);
+    const best = agreeing.reduce((top, a) => (a.confidence > top.confidence ? a : top), agreeing[0]);
+    const meanConfidence = agreeing.reduce((sum, a) => sum + a.confidence, 0) / agreeing.length;
+
+    const applications = Array.from(new Set(analyses.flatMap(a => a.applications || [])));
+    const focusScore = Math.round(
+      analyses.reduce((sum, a) => sum + (a.focusScore ?? 50), 0) / analyses.length
+    );
+
+    return {
+      category,
+      // Disagreement between frames lowers confidence
+      confidence: Math.round(meanConfidence * (agreeing.length / analyses.length) * 100) / 100,
+      description: agreeing.length < analyses.length
+        ? `${best.description} (${agreeing.length} of ${analyses.length} frames)`
+        : best.description,
+      applications,
+      focusScore,
+      context: best.context,
+      source: 'model',
+    };
+  }
+
+  /**
+   * Classify a single screenshot / frame with the vision model
+   */
+  async analyzeScreenImage(filePath: string, usage?: TokenUsage): Promise<MediaAnalysis> {
+    if (!fs.existsSync(filePath)) {
+      return this.createFallbackAnalysis('File not found');
+    }
+
+    const ext = path.extname(this.encryptor.getPlainPath(filePath)).toLowerCase();
+    const imageData = this.encryptor.readFile(filePath);
+    const base64Image = imageData.toString('base64');
+    const mediaType: ImageMediaType = ext === '.png' ? 'image/png' : 
+                     ext === '.gif' ? 'image/gif' :
+                     ext === '.webp' ? 'image/webp' : 'image/jpeg';
+
+    return this.classifyScreen(this.screenPrompt(this.getFewShotExamples()), usage, [{ data: base64Image, mediaType }]);
+  }
+
+  /**
+   * Classify a text description of a screen with the screen prompt, no image
+   */
+  async analyzeScreenDescription(description: string, usage?: TokenUsage): Promise<MediaAnalysis> {
+    return this.classifyScreen(this.screenPrompt(this.getFewShotExamples(), description), usage);
+  }
+
+  private async classifyScreen(
+    prompt: string,
+    usage?: TokenUsage,
+    images?: Array<{ data: string; mediaType: ImageMediaType }>
+  ): Promise<MediaAnalysis> {
+    let response: LLMResponse & { data: MediaAnalysis | null };
+    try {
+      response = await this.llm('screen').completeJSON<MediaAnalysis>({
+        maxTokens: 1024,
+        ...(images ? { images } : {}),
+        prompt,
+      });
+    } catch (error: any) {
+      // Thrown so the analysis queue retries the job
+      throw new Error(`LLM API error: ${error?.message || error}`);
+    }
+    this.addUsage(usage, response);
+
+    if (!response.data) {
+      console.warn('Failed to parse model response:', response.text);
+      return this.createFallbackAnalysis('Parse error');
+    }
+    // Models occasionally answer with a category outside the list
+    return { ...response.data, category: this.taxonomy.resolve(response.data.category), source: 'model' };
+  }
+
+  private screenPrompt(examples: string, description?: string): string {
+    const subject = description === undefined
+      ? 'Analyze this screenshot and classify the activity.'
+      : `Classify the activity on a screen described as: ${JSON.stringify(description)}.`;
+    return `${subject} Respond with JSON only:
 {
-  "category": "coding" | "meetings" | "browsing" | "social" | "email" | "breaks" | "other",
-  "confidence": 0.0-1.0,
-  "description": "Brief description of what's happening",
-  "applications": ["list of visible apps/windows"],
-  "focusScore": 0-100 (how focused/productive this activity appears),
-  "context": "Any additional context about the work being done"
+"category": ${this.taxonomy.idUnion()},
+"confidence": 0.0-1.0,
+"description": "Brief description of what's happening",
+"applications": ["list of visible apps/windows"],
+"focusScore": 0-100 (how focused/productive this activity appears),
+"context": "Any additional context about the work being done"
 }
 
 Categories:
-- coding: IDEs, terminals, code editors, documentation
-- meetings: Video calls, Zoom, Meet, Teams, Slack huddles
-- browsing: Web browsers with non-work content, research, reading
-- social: Twitter, Discord, social media, messaging apps
-- email: Email clients, Gmail, Outlook
-- breaks: No activity, away, entertainment, games
-- other: Anything else
-
-Be concise. JSON only, no markdown.`
-              }
-            ],
-          }],
-        });
-
-        const content = response.content[0];
-        if (content.type === 'text') {
-          try {
-            // Clean up the response - remove any markdown formatting
-            let jsonText = content.text.trim();
-            if (jsonText.startsWith('```')) {
-              jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
-            }
-            return JSON.parse(jsonText) as MediaAnalysis;
-          } catch (parseError) {
-            console.warn('Failed to parse Claude response:', content.text);
-            return this.createFallbackAnalysis('Parse error');
-          }
-        }
-      } catch (error: any) {
-        console.error('Claude API error:', error?.message || error);
-        return this.createFallbackAnalysis(`API error: ${error?.message}`);
-      }
-    }
+${this.taxonomy.describeForPrompt()}
+${examples}
+Be concise. JSON only, no markdown.`;
+  }
 
-    return this.createFallbackAnalysis('Unsupported file type');
+  /**
+   * Labels the user gave during review, as prompt context ("" when there are none)
+   */
+  private getFewShotExamples(): string {
+    const limit = this.config.review?.fewShotExamples ?? DEFAULT_FEW_SHOT_EXAMPLES;
+    if (limit <= 0) return '';
+
+    const examples = this.db.getClassificationExamples(limit);
+    if (examples.length === 0) return '';
+
+    const lines = examples.map(e => {
+      const apps = e.applications?.length ? ` [${e.applications.join(', ')}]` : '';
+      const correction = e.predicted_category !== e.category ? ` (not ${e.predicted_category})` : '';
+      return `- "${e.description}"${apps} → ${e.category}${correction}`;
+    });
+    return `\nPast classifications reviewed by the user:\n${lines.join('\n')}\n`;
   }
 
   /**
    * Analyze camera snapshot for workspace/posture analysis
    */
-  async analyzeCamera(media: MediaRecord): Promise<WorkspaceAnalysis> {
+  async analyzeCamera(media: MediaRecord, usage?: TokenUsage): Promise<WorkspaceAnalysis> {
     const filePath = path.resolve(this.config.dataDir, '..', media.file_path);
     
     if (!fs.existsSync(filePath)) {
       return { environment: 'File not found' };
     }
 
-    const ext = path.extname(filePath).toLowerCase();
+    const ext = path.extname(this.encryptor.getPlainPath(filePath)).toLowerCase();
     if (!['.png', '.jpg', '.jpeg', '.gif', '.webp'].includes(ext)) {
       return { environment: 'Unsupported file type' };
     }
 
-    const imageData = fs.readFileSync(filePath);
+    const imageData = this.encryptor.readFile(filePath);
     const base64Image = imageData.toString('base64');
-    const mediaType = ext === '.png' ? 'image/png' : 
+    const mediaType: ImageMediaType = ext === '.png' ? 'image/png' : 
                      ext === '.gif' ? 'image/gif' :
                      ext === '.webp' ? 'image/webp' : 'image/jpeg';
 
+    let response: LLMResponse & { data: WorkspaceAnalysis | null };
     try {
-      const response = await this.anthropic.messages.create({
-        model: this.model,
-        max_tokens: 512,
-        messages: [{
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mediaType,
-                data: base64Image,
-              },
-            },
-            {
-              type: 'text',
-              text: `Analyze this camera image of a workspace/person. Respond with JSON only:
-{
-  "postureScore": 0-100 (if person visible, otherwise null),
-  "workspaceQuality": 0-100 (organization, setup quality),
-  "lighting": "good" | "moderate" | "poor",
-  "distractions": ["list any visible distractions"],
-  "environment": "Brief description of the workspace"
-}
-
-Focus on practical observations. JSON only, no markdown.`
-            }
-          ],
-        }],
+      response = await this.llm('camera').completeJSON<WorkspaceAnalysis>({
+        maxTokens: 512,
+        images: [{ data: base64Image, mediaType }],
+        prompt: CAMERA_PROMPT,
       });
+    } catch (error: any) {
+      throw new Error(`LLM API error: ${error?.message || error}`);
+    }
+    this.addUsage(usage, response);
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        try {
-          let jsonText = content.text.trim();
-          if (jsonText.startsWith('```')) {
-            jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
-          }
-          return JSON.parse(jsonText) as WorkspaceAnalysis;
-        } catch {
-          return { environment: 'Parse error' };
-        }
+    return response.data || { environment: 'Parse error' };
+  }
+
+  /**
+   * Analyze an audio recording, or a whole conversation when the media is
+   * the first of several speech chunks: transcribe every chunk, then
+   * summarize the combined transcript
+   */
+  async analyzeAudio(media: MediaRecord, usage?: TokenUsage): Promise<AudioAnalysis> {
+    if (!this.transcriber) {
+      return {
+        summary: 'Audio analysis requires a transcription provider',
+        transcript: undefined,
+        keyDecisions: [],
+        actionItems: [],
+      };
+    }
+
+    const chunks = this.getConversationChunks(media);
+    const conversationStart = new Date(media.timestamp).getTime();
+    const texts: string[] = [];
+    const segments: TranscriptSegment[] = [];
+
+    for (const chunk of chunks) {
+      const filePath = path.resolve(this.config.dataDir, '..', chunk.file_path);
+      if (!fs.existsSync(filePath)) continue;
+
+      const transcriber = this.transcriber;
+      const transcript = await this.encryptor.withPlaintextFile(filePath, plainPath => transcriber.transcribe(plainPath));
+      // Segment offsets are relative to the start of the conversation
+      const offsetSec = (new Date(chunk.timestamp).getTime() - conversationStart) / 1000;
+      segments.push(...transcript.segments.map(s => ({ ...s, start: s.start + offsetSec, end: s.end + offsetSec })));
+      if (transcript.text) {
+        texts.push(transcript.text);
       }
+    }
+
+    const lastChunk = chunks[chunks.length - 1];
+    const chunkSec = (this.config.audio?.chunkDurationMs || DEFAULT_AUDIO_CHUNK_MS) / 1000;
+    const duration = chunks.length > 1
+      ? Math.round((new Date(lastChunk.timestamp).getTime() - conversationStart) / 1000 + chunkSec)
+      : segments.length > 0 ? Math.round(segments[segments.length - 1].end) : undefined;
+
+    const transcript = texts.join('\n').trim();
+    if (!transcript) {
+      return { summary: 'No speech transcribed', transcript: '', segments: [], keyDecisions: [], actionItems: [], duration };
+    }
+
+    return { ...(await this.summarizeTranscript(transcript, usage)), transcript, segments, duration };
+  }
+
+  /**
+   * Summarize a conversation transcript
+   */
+  private async summarizeTranscript(transcript: string, usage?: TokenUsage): Promise<AudioAnalysis> {
+    let response: LLMResponse & { data: AudioAnalysis | null };
+    try {
+      response = await this.llm('transcript').completeJSON<AudioAnalysis>({
+        maxTokens: 1024,
+        prompt: this.transcriptPrompt(transcript),
+      });
     } catch (error: any) {
-      return { environment: `API error: ${error?.message}` };
+      throw new Error(`LLM API error: ${error?.message || error}`);
     }
+    this.addUsage(usage, response);
+
+    return response.data || { summary: 'Parse error', keyDecisions: [], actionItems: [] };
+  }
+
+  private transcriptPrompt(transcript: string): string {
+    return `Summarize this conversation transcript. Respond with JSON only:
+{
+  "summary": "2-3 sentence summary",
+  "keyDecisions": ["decisions that were made"],
+  "actionItems": ["follow-ups, with owner if mentioned"],
+  "participants": number of distinct speakers (best guess)
+}
+
+Transcript:
+${transcript}
 
-    return { environment: 'Unknown' };
+JSON only, no markdown.`;
   }
 
   /**
-   * Analyze audio recording (transcript + summary)
-   * Note: Requires pre-transcribed text or Whisper integration
+   * A recording plus any later chunks of the same conversation, in order
    */
-  async analyzeAudio(media: MediaRecord): Promise<AudioAnalysis> {
-    // For now, return a placeholder - audio analysis requires transcription first
-    // Future: integrate with Whisper API for transcription
-    return {
-      summary: 'Audio analysis requires transcription integration',
-      transcript: undefined,
-      keyDecisions: [],
-      actionItems: [],
-    };
+  private getConversationChunks(media: MediaRecord): MediaRecord[] {
+    return [media, ...this.db.getChildMedia(media.id!).filter(m => m.type === 'audio')];
+  }
+
+  /**
+   * True while the recorder could still append chunks to this conversation
+   */
+  private isConversationOpen(media: MediaRecord): boolean {
+    const chunks = this.getConversationChunks(media);
+    const lastStart = new Date(chunks[chunks.length - 1].timestamp).getTime();
+    const gapMs = this.config.audio?.conversationGapMs ?? DEFAULT_CONVERSATION_GAP_MS;
+    return Date.now() < lastStart + getMaxChunkMs(this.config) + gapMs;
   }
 
   /**
@@ -291,7 +766,7 @@ Focus on practical observations. JSON only, no markdown.`
    */
   private createFallbackAnalysis(reason: string): MediaAnalysis {
     return {
-      category: 'other',
+      category: FALLBACK_CATEGORY,
       confidence: 0,
       description: reason,
       focusScore: 50,
@@ -302,63 +777,183 @@ Focus on practical observations. JSON only, no markdown.`
    * Classify activity from text description (for check-ins, etc.)
    */
   async classifyText(text: string): Promise<ActivityCategory> {
-    const lowerText = text.toLowerCase();
-    
-    // Simple keyword-based classification for speed
-    // Order matters - more specific patterns first
-    if (/\b(code|coding|programming|debug|deploy|commit|git|terminal|ide|vscode|vim|neovim|develop|implement|refactor|pr|pull request|merge|feature|bug fix|deep work)\b/.test(lowerText)) {
-      return 'coding';
-    }
-    if (/\b(meeting|call|zoom|huddle|sync|standup|1:1|interview|google meet|teams|conference|presentation)\b/.test(lowerText)) {
-      return 'meetings';
-    }
-    if (/\b(email|inbox|reply|replying|sent|gmail|outlook|mail)\b/.test(lowerText)) {
-      return 'email';
-    }
-    if (/\b(twitter|discord|slack|social|chat|dm|messaging|whatsapp|telegram|x\.com|reddit|hacker news|hn)\b/.test(lowerText)) {
-      return 'social';
-    }
-    if (/\b(break|lunch|coffee|walk|rest|away|snack|stretch|nap|relax)\b/.test(lowerText)) {
-      return 'breaks';
+    // Keyword-based classification for speed
+    return this.taxonomy.classifyText(text);
+  }
+
+  /**
+   * Classify a focused window from its app name and title
+   */
+  async classifyWindow(window: ActiveWindow): Promise<ActivityCategory> {
+    return (await this.matchWindow(window)).category;
+  }
+
+  /**
+   * Classification rules first, then the taxonomy's keywords
+   */
+  private async matchWindow(window: ActiveWindow): Promise<WindowClassification> {
+    const match = this.rules.match(window);
+    if (match) {
+      return {
+        category: match.category,
+        confidence: match.confidence,
+        focusScore: match.focusScore,
+        source: 'rule',
+        ruleId: match.ruleId,
+      };
     }
-    if (/\b(research|reading|browser|browsing|google|searching|documentation|docs|article|blog|youtube|video)\b/.test(lowerText)) {
-      return 'browsing';
+
+    const category = await this.classifyText(`${window.app} ${window.title}`);
+    return {
+      category,
+      confidence: category === FALLBACK_CATEGORY ? 0 : KEYWORD_CONFIDENCE,
+      focusScore: this.taxonomy.focusScore(category),
+      source: 'keywords',
+    };
+  }
+
+  private isConfidentWindow(classification: WindowClassification): boolean {
+    return classification.confidence > 0 && classification.confidence >= this.rules.minConfidence;
+  }
+
+  /**
+   * Load window-tracker spans for a date, classified
+   */
+  private async getAppUsageSpans(date: string): Promise<AppUsageSpan[]> {
+    const activities = this.db.getActivitiesByDate(date).filter(a => a.type === 'app_usage');
+    const spans: AppUsageSpan[] = [];
+
+    for (const activity of activities) {
+      const window = this.parseAppUsage(activity);
+      if (!window || !activity.duration) continue;
+
+      const start = new Date(activity.timestamp).getTime();
+      spans.push({
+        start,
+        end: start + activity.duration,
+        window,
+        ...(await this.matchWindow(window)),
+      });
     }
-    
-    return 'other';
+
+    return spans;
   }
 
   /**
-   * Get time blocks from analyzed media for a date
+   * Load away-from-keyboard spans for a date (from idle_end activities)
    */
-  async getTimeBlocks(date: string): Promise<Array<{
-    timestamp: string;
-    category: ActivityCategory;
-    focusScore: number;
-    description: string;
-  }>> {
-    const media = this.db.getMediaByDate(date);
-    const blocks: Array<{
-      timestamp: string;
-      category: ActivityCategory;
-      focusScore: number;
-      description: string;
-    }> = [];
+  private getIdleSpans(date: string): Array<{ start: number; end: number }> {
+    return this.db.getActivitiesByDate(date)
+      .filter(a => a.type === 'idle_end' && a.duration)
+      .map(a => {
+        const end = new Date(a.timestamp).getTime();
+        return { start: end - a.duration!, end };
+      });
+  }
 
-    for (const m of media) {
-      if (m.analysis_json) {
+  /**
+   * Get spans where capture was paused on purpose (from capture_resumed activities)
+   */
+  getCaptureGaps(date: string): CaptureGap[] {
+    return this.db.getActivitiesByDate(date)
+      .filter(a => a.type === 'capture_resumed' && a.duration)
+      .map(a => {
+        let reason: string | undefined;
         try {
-          const analysis = JSON.parse(m.analysis_json);
-          blocks.push({
-            timestamp: m.timestamp,
-            category: analysis.category || 'other',
-            focusScore: analysis.focusScore || 50,
-            description: analysis.description || '',
-          });
+          reason = JSON.parse(a.metadata_json).reason || undefined;
         } catch {
-          // Skip invalid JSON
+          // Keep the gap without a reason
         }
+        const end = new Date(a.timestamp).getTime();
+        return {
+          startTime: new Date(end - a.duration!).toISOString(),
+          endTime: a.timestamp,
+          durationMinutes: Math.round(a.duration! / 60000),
+          reason,
+        };
+      });
+  }
+
+  private parseAppUsage(activity: Activity): ActiveWindow | null {
+    try {
+      const metadata = JSON.parse(activity.metadata_json);
+      return metadata.app ? { app: metadata.app, title: metadata.title || '' } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private findCoveringSpan<T extends { start: number; end: number }>(spans: T[], timestamp: string): T | undefined {
+    const time = new Date(timestamp).getTime();
+    return spans.find(s => time >= s.start && time < s.end);
+  }
+
+  /**
+   * Build a screen analysis from the window that was focused at capture time
+   */
+  private createWindowAnalysis(span: AppUsageSpan): MediaAnalysis {
+    return {
+      category: span.category,
+      confidence: span.confidence,
+      description: `Active window: ${span.window.app}${span.window.title ? ` — ${span.window.title}` : ''}`,
+      applications: [span.window.app],
+      focusScore: span.focusScore,
+      context: span.ruleId ? `Classified by rule ${span.ruleId}` : 'Classified from window tracker',
+      source: span.source,
+      ...(span.ruleId ? { ruleId: span.ruleId } : {}),
+    };
+  }
+
+  /**
+   * Time blocks for a date: window-tracker spans, idle time, check-ins and
+   * the fused media moments those spans don't already account for
+   */
+  async getTimeBlocks(date: string, moments: Moment[]): Promise<RawTimeBlock[]> {
+    const blocks: RawTimeBlock[] = [];
+
+    // Window-tracker spans carry their own durations
+    const appSpans = await this.getAppUsageSpans(date);
+    for (const span of appSpans) {
+      blocks.push({
+        timestamp: new Date(span.start).toISOString(),
+        category: span.category,
+        focusScore: span.focusScore,
+        description: span.window.title || span.window.app,
+        durationMinutes: (span.end - span.start) / 60000,
+        app: span.window.app,
+        title: span.window.title,
+      });
+    }
+
+    // Away time is a break, so it ends whatever block came before it
+    const idleSpans = this.getIdleSpans(date);
+    for (const span of idleSpans) {
+      blocks.push({
+        timestamp: new Date(span.start).toISOString(),
+        category: BREAK_CATEGORY,
+        focusScore: 50,
+        description: 'Away from keyboard',
+        durationMinutes: (span.end - span.start) / 60000,
+        away: true,
+      });
+    }
+
+    for (const moment of moments) {
+      // Tracked spans already cover their captures; counting them again would double-count
+      if (this.findCoveringSpan(appSpans, moment.start)) {
+        continue;
+      }
+      // Captures taken before idleness was noticed show an empty desk/screen
+      if (this.findCoveringSpan(idleSpans, moment.start)) {
+        continue;
       }
+      blocks.push({
+        timestamp: moment.start,
+        category: this.taxonomy.resolve(moment.category),
+        focusScore: moment.focusScore,
+        description: moment.description,
+        ...(moment.away ? { away: true } : {}),
+      });
     }
 
     // Also include check-ins classified by text
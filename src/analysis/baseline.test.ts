@@ -0,0 +1,50 @@
+/**
+ * Personal Baseline Tests
+ *
+ * Run with: npx ts-node src/analysis/baseline.test.ts
+ * Or: node --loader ts-node/esm src/analysis/baseline.test.ts
+ */
+
+import { deviationFromBaseline } from './baseline.js';
+import { test, assertEqual, summary } from '../test-utils.js';
+
+function assertClose(actual: number | undefined, expected: number, message?: string) {
+  if (actual === undefined || Math.abs(actual - expected) > 0.01) {
+    throw new Error(`${message || 'Assertion failed'}: expected ~${expected}, got ${actual}`);
+  }
+}
+
+// ==================== DEVIATION TESTS ====================
+
+console.log('\n🧪 Personal Baseline Tests\n');
+
+await test('median absolute deviation ignores one extreme day', async () => {
+  const history = [60, 62, 58, 61, 59, 60, 5];
+  const deviation = deviationFromBaseline(40, history, 'mad', 1);
+
+  assertEqual(deviation?.baseline, 60, 'median');
+  // MAD is 1, scaled to 1.4826
+  assertClose(deviation?.score, -20 / 1.4826);
+});
+
+await test('z-score uses mean and standard deviation', async () => {
+  const deviation = deviationFromBaseline(8, [2, 4, 4, 4, 5, 5, 7, 9], 'zscore', 0.1);
+
+  assertEqual(deviation?.baseline, 5, 'mean');
+  assertClose(deviation?.score, 1.5, 'standard deviation is 2');
+});
+
+await test('steady history is measured in the minimum spread', async () => {
+  const history = [0, 0, 0, 0, 0, 0, 0];
+
+  assertEqual(deviationFromBaseline(40, history, 'mad', 10)?.score, 4);
+  assertEqual(deviationFromBaseline(0, history, 'zscore', 10)?.score, 0);
+});
+
+await test('no history, no baseline', async () => {
+  assertEqual(deviationFromBaseline(10, [], 'mad', 1), null);
+});
+
+// ==================== SUMMARY ====================
+
+summary();
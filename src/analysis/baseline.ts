@@ -0,0 +1,47 @@
+/**
+ * Personal Baselines
+ * How far a value is from what's usual for the user, in deviations of
+ * their own recent history
+ */
+
+import { AnomalyMethod } from '../types/index.js';
+
+// Scales the median absolute deviation to a standard deviation for normally distributed data
+const MAD_TO_SD = 1.4826;
+
+/**
+ * Baseline (median or mean) and the value's distance from it in deviations.
+ * `minSpread` floors the deviation so steady metrics (e.g. an hour that is
+ * always empty) flag real changes without flagging every small one.
+ * Null without history.
+ */
+export function deviationFromBaseline(
+  value: number,
+  history: number[],
+  method: AnomalyMethod,
+  minSpread: number
+): { baseline: number; score: number } | null {
+  if (history.length === 0) return null;
+
+  let baseline: number;
+  let spread: number;
+  if (method === 'zscore') {
+    baseline = mean(history);
+    spread = Math.sqrt(mean(history.map(x => (x - baseline) ** 2)));
+  } else {
+    baseline = median(history);
+    spread = MAD_TO_SD * median(history.map(x => Math.abs(x - baseline)));
+  }
+
+  return { baseline, score: (value - baseline) / Math.max(spread, minSpread) };
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, x) => sum + x, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,121 @@
+/**
+ * Mood and Energy Correlation Tests
+ *
+ * Run with: npx ts-node src/analysis/correlations.test.ts
+ * Or: node --loader ts-node/esm src/analysis/correlations.test.ts
+ */
+
+import { CorrelationEngine } from './correlations.js';
+import { readFeelings } from './feelings.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { CheckIn, Correlation } from '../types/index.js';
+import { test, assertEqual, quietly, createTestConfig, summary } from '../test-utils.js';
+
+function createTestEnv(): { engine: CorrelationEngine; db: LifeLogDatabase } {
+  const config = createTestConfig();
+  const db = new LifeLogDatabase(config);
+  return { engine: new CorrelationEngine(config, db), db };
+}
+
+function checkIn(message: string, feelings: Pick<CheckIn, 'mood' | 'energy'> = {}): CheckIn {
+  return { timestamp: '2026-10-01T20:00:00.000Z', message, source: 'cli', ...feelings };
+}
+
+// A tracked day: two hours of screens every five minutes from 09:00, in
+// meetings or coding, and an evening check-in with a mood
+function addDay(db: LifeLogDatabase, date: string, meetings: boolean, mood: number): void {
+  for (let i = 0; i < 24; i++) {
+    const timestamp = new Date(new Date(`${date}T09:00:00Z`).getTime() + i * 5 * 60000).toISOString();
+    const category = meetings ? 'meetings' : 'coding';
+    db.insertMedia({
+      timestamp,
+      type: 'screen',
+      file_path: `${date}-${i}.png`,
+      analysis_json: JSON.stringify({ category, confidence: 0.9, description: category, focusScore: 70, source: 'model' }),
+    });
+  }
+  db.insertCheckIn({ timestamp: `${date}T20:00:00.000Z`, message: 'end of day', source: 'cli', mood });
+}
+
+function meetingMood(correlations: Correlation[]): Correlation | undefined {
+  return correlations.find(c =>
+    c.feeling === 'mood' && c.timing === 'same-day' && c.metric === 'categoryMinutes' && c.category === 'meetings');
+}
+
+// ==================== FEELINGS TESTS ====================
+
+console.log('\n🧪 Mood and Energy Correlation Tests\n');
+
+await test('values given with a check-in are used over its text', async () => {
+  const reading = readFeelings(checkIn('so tired', { mood: 4, energy: 2 }));
+  assertEqual(reading?.mood, 4);
+  assertEqual(reading?.energy, 2);
+  assertEqual(reading?.source, 'structured');
+  assertEqual(readFeelings(checkIn('happy', { energy: 3, mood: null }))?.mood, undefined, 'text is not read');
+  assertEqual(readFeelings(checkIn('energy 10 min walk')), null, 'numbers in the text are not values');
+  assertEqual(readFeelings(checkIn('mood 2/5 but happy'))?.source, 'sentiment');
+});
+
+await test('feeling words are estimated, and negations count the other way', async () => {
+  assertEqual(readFeelings(checkIn('happy and relaxed'))?.mood, 5);
+  assertEqual(readFeelings(checkIn('not happy'))?.mood, 1);
+  assertEqual(readFeelings(checkIn('stressed but proud'))?.mood, 3);
+  assertEqual(readFeelings(checkIn("I wasn't tired at all"))?.energy, 5);
+  assertEqual(readFeelings(checkIn('exhausted'))?.mood, undefined, 'energy words say nothing about mood');
+  assertEqual(readFeelings(checkIn('shipped the release')), null);
+});
+
+// ==================== COMPARISON TESTS ====================
+
+await test('a consistent difference is reported with its effect size and p-value', async () => {
+  const { engine, db } = createTestEnv();
+  for (let day = 1; day <= 12; day++) {
+    const meetings = day % 2 === 0;
+    addDay(db, `2026-10-${String(day).padStart(2, '0')}`, meetings, meetings ? 2 : day % 3 === 0 ? 5 : 4);
+  }
+
+  const report = await quietly(() => engine.run('2026-10-01', '2026-10-12'));
+  const correlation = meetingMood(report.correlations);
+
+  assertEqual(report.days, 12);
+  assertEqual(correlation?.description.startsWith('Mood is lower on days with more than'), true, correlation?.description);
+  assertEqual(correlation?.high.n, 6);
+  assertEqual(correlation?.high.mean, 2);
+  assertEqual(correlation!.effectSize < -2, true, 'large effect');
+  assertEqual(correlation!.pValue < 0.05, true, `p = ${correlation?.pValue}`);
+  db.close();
+});
+
+await test('a difference that could be chance is not reported, however large', async () => {
+  const { engine, db } = createTestEnv();
+  // Five days each way: mood is 1.4 lower on meeting days (d ≈ -1.7), but
+  // with so few days that happens by chance too often
+  const moods = [2, 4, 3, 5, 2, 4, 3, 5, 4, 3];
+  moods.forEach((mood, i) => {
+    addDay(db, `2026-10-${String(i + 1).padStart(2, '0')}`, i % 2 === 0, mood);
+  });
+
+  const report = await quietly(() => engine.run('2026-10-01', '2026-10-10'));
+
+  assertEqual(meetingMood(report.correlations), undefined);
+  assertEqual(report.tested > 0, true, 'enough samples to be tested');
+  db.close();
+});
+
+await test('fewer than five samples on a side are not compared', async () => {
+  const { engine, db } = createTestEnv();
+  for (let day = 1; day <= 8; day++) {
+    const meetings = day % 2 === 0;
+    addDay(db, `2026-10-0${day}`, meetings, meetings ? 1 : 5);
+  }
+
+  const report = await quietly(() => engine.run('2026-10-01', '2026-10-08'));
+
+  assertEqual(report.days, 8);
+  assertEqual(meetingMood(report.correlations), undefined);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
@@ -0,0 +1,336 @@
+/**
+ * Mood and Energy Correlations
+ * Relates how the user says they feel in check-ins to how they worked
+ * (DailyPatterns metrics) the same day, the day before and the hour before.
+ * A relationship is only reported when a permutation test, adjusted for the
+ * number of comparisons, says it is unlikely to be chance.
+ */
+
+import { format, parseISO, subDays, eachDayOfInterval } from 'date-fns';
+import {
+  Config,
+  Correlation,
+  CorrelationReport,
+  DailyPatterns,
+  FeelingReading,
+  TimeBlock,
+} from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
+import { PatternDetector } from './patterns.js';
+import { Taxonomy } from './taxonomy.js';
+import { readFeelings } from './feelings.js';
+import { mean, median } from './baseline.js';
+
+const DEFAULT_DAYS = 30;
+const DEFAULT_MIN_EFFECT_SIZE = 0.5;
+const DEFAULT_MIN_SAMPLES = 5;
+const DEFAULT_MAX_P_VALUE = 0.05;
+
+// Random relabelings per permutation test, from a fixed seed so the same
+// check-ins always give the same report
+const PERMUTATIONS = 2000;
+const PERMUTATION_SEED = 0x5eed;
+
+// Check-ins are compared with the activity this long before them
+const AFTER_WINDOW_MINUTES = 60;
+
+// Floor for the pooled standard deviation (1-5 scale), so groups that happen
+// to agree exactly don't produce unbounded effect sizes
+const MIN_POOLED_SD = 0.25;
+
+type Feeling = Correlation['feeling'];
+type Metric = Pick<Correlation, 'metric' | 'category'>;
+
+interface SampleGroup extends Metric {
+  feeling: Feeling;
+  timing: Correlation['timing'];
+  samples: Array<{ value: number; feeling: number }>;
+}
+
+export class CorrelationEngine {
+  private db: LifeLogDatabase;
+  private patterns: PatternDetector;
+  private taxonomy: Taxonomy;
+  private days: DayBoundary;
+  private defaultDays: number;
+  private minEffectSize: number;
+  private minSamples: number;
+  private maxPValue: number;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.db = db;
+    this.patterns = new PatternDetector(config, db);
+    this.taxonomy = new Taxonomy(config);
+    this.days = new DayBoundary(config);
+    this.defaultDays = config.correlations?.days ?? DEFAULT_DAYS;
+    this.minEffectSize = config.correlations?.minEffectSize ?? DEFAULT_MIN_EFFECT_SIZE;
+    this.minSamples = Math.max(2, config.correlations?.minSamples ?? DEFAULT_MIN_SAMPLES);
+    this.maxPValue = config.correlations?.maxPValue ?? DEFAULT_MAX_P_VALUE;
+  }
+
+  /**
+   * Correlations over the last `days` days, ending today
+   */
+  async recent(days: number = this.defaultDays): Promise<CorrelationReport> {
+    const to = this.days.today();
+    return this.run(format(subDays(parseISO(to), Math.max(1, days) - 1), 'yyyy-MM-dd'), to);
+  }
+
+  /**
+   * Correlations over the days from one date to another (inclusive), strongest first
+   */
+  async run(from: string, to: string): Promise<CorrelationReport> {
+    const dates = eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map(d => format(d, 'yyyy-MM-dd'));
+    const groups = new Map<string, SampleGroup>();
+    const add = (feeling: Feeling, timing: Correlation['timing'], metric: Metric, value: number, felt: number) => {
+      const key = [feeling, timing, metric.metric, metric.category || ''].join('|');
+      let group = groups.get(key);
+      if (!group) {
+        group = { feeling, timing, ...metric, samples: [] };
+        groups.set(key, group);
+      }
+      group.samples.push({ value, feeling: felt });
+    };
+
+    const dayPatterns = new Map<string, DailyPatterns | null>();
+    const patternsFor = async (date: string): Promise<DailyPatterns | null> => {
+      if (!dayPatterns.has(date)) {
+        const patterns = await this.patterns.detectDailyPatterns(date);
+        // A day without tracked activity says nothing about how it was spent
+        dayPatterns.set(date, patterns.timeBlocks.length > 0 ? patterns : null);
+      }
+      return dayPatterns.get(date)!;
+    };
+
+    let days = 0;
+    let readings = 0;
+    let structured = 0;
+
+    for (const date of dates) {
+      const dayReadings = this.db.getCheckInsByDate(date)
+        .map(readFeelings)
+        .filter((r): r is FeelingReading => r !== null);
+      if (dayReadings.length === 0) continue;
+
+      readings += dayReadings.length;
+      structured += dayReadings.filter(r => r.source === 'structured').length;
+
+      const today = await patternsFor(date);
+      const yesterday = await patternsFor(format(subDays(parseISO(date), 1), 'yyyy-MM-dd'));
+      if (today) days++;
+
+      for (const feeling of ['mood', 'energy'] as Feeling[]) {
+        const felt = dayReadings.map(r => r[feeling]).filter((v): v is number => v !== undefined);
+        if (felt.length > 0) {
+          const dailyFeeling = mean(felt);
+          for (const [metric, value] of today ? this.dailyMetrics(today) : []) {
+            add(feeling, 'same-day', metric, value, dailyFeeling);
+          }
+          for (const [metric, value] of yesterday ? this.dailyMetrics(yesterday) : []) {
+            add(feeling, 'next-day', metric, value, dailyFeeling);
+          }
+        }
+
+        for (const reading of today ? dayReadings : []) {
+          if (reading[feeling] === undefined) continue;
+          for (const [metric, value] of this.metricsBefore(today!.timeBlocks, reading.timestamp)) {
+            add(feeling, 'after', metric, value, reading[feeling]!);
+          }
+        }
+      }
+    }
+
+    const tested = Array.from(groups.values())
+      .map(group => this.compare(group))
+      .filter((c): c is Correlation => c !== null);
+
+    // Dozens of metrics are tested at once, so some would pass by chance alone
+    const adjusted = adjustPValues(tested.map(c => c.pValue));
+    const correlations = tested
+      .map((c, i) => ({ ...c, pValue: round(adjusted[i], 3) }))
+      .filter(c => Math.abs(c.effectSize) >= this.minEffectSize && c.pValue <= this.maxPValue)
+      .sort((a, b) => Math.abs(b.effectSize) - Math.abs(a.effectSize));
+
+    return { from, to, days, readings, structured, tested: tested.length, correlations };
+  }
+
+  /**
+   * Day-level metrics of DailyPatterns
+   */
+  private dailyMetrics(patterns: DailyPatterns): Array<[Metric, number]> {
+    return [
+      [{ metric: 'focusScore' }, patterns.focusScore],
+      [{ metric: 'deepWorkMinutes' }, patterns.deepWorkMinutes],
+      [{ metric: 'contextSwitches' }, patterns.contextSwitches],
+      ...this.taxonomy.ids().map((category): [Metric, number] => [
+        { metric: 'categoryMinutes', category },
+        patterns.categoryBreakdown[category] || 0,
+      ]),
+    ];
+  }
+
+  /**
+   * Minutes per category and focus in the window before a check-in; nothing
+   * when no activity was tracked then
+   */
+  private metricsBefore(timeBlocks: TimeBlock[], timestamp: string): Array<[Metric, number]> {
+    const end = new Date(timestamp).getTime();
+    const start = end - AFTER_WINDOW_MINUTES * 60000;
+    const minutes = this.taxonomy.emptyBreakdown();
+    let activeMinutes = 0;
+    let weightedFocus = 0;
+
+    for (const block of timeBlocks) {
+      const overlap = (Math.min(end, new Date(block.endTime).getTime()) - Math.max(start, new Date(block.startTime).getTime())) / 60000;
+      if (overlap <= 0) continue;
+      minutes[this.taxonomy.resolve(block.category)] += overlap;
+      if (!block.away) {
+        activeMinutes += overlap;
+        weightedFocus += (block.focusScore || 50) * overlap;
+      }
+    }
+
+    const total = Object.values(minutes).reduce((sum, m) => sum + m, 0);
+    if (total === 0) return [];
+
+    const metrics: Array<[Metric, number]> = Object.entries(minutes)
+      .map(([category, m]): [Metric, number] => [{ metric: 'categoryMinutes', category }, Math.round(m)]);
+    if (activeMinutes > 0) {
+      metrics.push([{ metric: 'focusScore' }, Math.round(weightedFocus / activeMinutes)]);
+    }
+    return metrics;
+  }
+
+  /**
+   * Split a group's samples at the metric's median and measure how much the
+   * feeling differs between the halves, with its unadjusted p-value; null
+   * when either half has too few samples
+   */
+  private compare(group: SampleGroup): Correlation | null {
+    const threshold = median(group.samples.map(s => s.value));
+    const high = group.samples.filter(s => s.value > threshold).map(s => s.feeling);
+    const low = group.samples.filter(s => s.value <= threshold).map(s => s.feeling);
+    if (high.length < this.minSamples || low.length < this.minSamples) return null;
+
+    const pooledVariance = (sumOfSquares(high) + sumOfSquares(low)) / (high.length + low.length - 2);
+    const effectSize = (mean(high) - mean(low)) / Math.max(Math.sqrt(pooledVariance), MIN_POOLED_SD);
+
+    const correlation: Omit<Correlation, 'description'> = {
+      feeling: group.feeling,
+      metric: group.metric,
+      ...(group.category ? { category: group.category } : {}),
+      timing: group.timing,
+      threshold: Math.round(threshold),
+      high: { n: high.length, mean: round(mean(high), 1) },
+      low: { n: low.length, mean: round(mean(low), 1) },
+      effectSize: round(effectSize, 2),
+      pValue: permutationTest(high, low),
+      r: pearson(group.samples.map(s => s.value), group.samples.map(s => s.feeling)),
+    };
+    return { ...correlation, description: this.describe(correlation) };
+  }
+
+  /**
+   * e.g. "Mood is lower the day after more than 120min of meetings"
+   */
+  private describe(c: Omit<Correlation, 'description'>): string {
+    let condition: string;
+    if (c.metric === 'focusScore') {
+      condition = `a focus score above ${c.threshold}`;
+    } else if (c.metric === 'contextSwitches') {
+      condition = `more than ${c.threshold} context switches`;
+    } else {
+      const what = c.metric === 'deepWorkMinutes' ? 'deep work' : this.taxonomy.label(c.category!).toLowerCase();
+      condition = c.threshold > 0 ? `more than ${c.threshold}min of ${what}` : `any ${what}`;
+    }
+
+    const when = c.timing === 'same-day'
+      ? `on days with ${condition}`
+      : c.timing === 'next-day'
+        ? `the day after ${condition}`
+        : `after ${condition} in the hour before`;
+
+    const feeling = c.feeling === 'mood' ? 'Mood' : 'Energy';
+    return `${feeling} is ${c.effectSize > 0 ? 'higher' : 'lower'} ${when}`;
+  }
+}
+
+function sumOfSquares(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, x) => sum + (x - m) ** 2, 0);
+}
+
+/**
+ * Two-sided p-value of the difference in means: how often randomly relabeled
+ * samples differ at least as much as the real high and low halves
+ */
+function permutationTest(high: number[], low: number[]): number {
+  const pooled = [...high, ...low];
+  const observed = Math.abs(mean(high) - mean(low));
+  const total = pooled.reduce((sum, x) => sum + x, 0);
+  const random = mulberry32(PERMUTATION_SEED);
+  let extreme = 0;
+
+  for (let i = 0; i < PERMUTATIONS; i++) {
+    // Partial Fisher-Yates: the first high.length entries become the high half
+    let highSum = 0;
+    for (let j = 0; j < high.length; j++) {
+      const k = j + Math.floor(random() * (pooled.length - j));
+      [pooled[j], pooled[k]] = [pooled[k], pooled[j]];
+      highSum += pooled[j];
+    }
+    const difference = Math.abs(highSum / high.length - (total - highSum) / low.length);
+    // Tolerance so ties with the observed split aren't lost to rounding
+    if (difference >= observed - 1e-9) extreme++;
+  }
+
+  // The observed split is one of the possible relabelings
+  return (extreme + 1) / (PERMUTATIONS + 1);
+}
+
+/**
+ * Benjamini-Hochberg: p-values adjusted to control the false discovery rate
+ * across all comparisons, in the order given
+ */
+function adjustPValues(pValues: number[]): number[] {
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(pValues.length);
+  let smallest = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const { p, i } = order[rank - 1];
+    smallest = Math.min(smallest, (p * order.length) / rank);
+    adjusted[i] = smallest;
+  }
+  return adjusted;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? round(covariance / Math.sqrt(vx * vy), 2) : null;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,116 @@
+/**
+ * Classification Evaluation Tests
+ *
+ * Run with: npx ts-node src/analysis/evaluation.test.ts
+ * Or: node --loader ts-node/esm src/analysis/evaluation.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Evaluator, scoreEvaluation } from './evaluation.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Config, EvalCaseResult } from '../types/index.js';
+import { test, assertEqual, assertThrows, createTestConfig, summary } from '../test-utils.js';
+
+function createTestEnv(): { config: Config; db: LifeLogDatabase; dir: string } {
+  const config = createTestConfig();
+  const dir = config.dataDir;
+  config.analysis = { provider: 'recorded', recordingsPath: path.join(dir, 'recordings.json') };
+  return { config, db: new LifeLogDatabase(config), dir };
+}
+
+function result(expected: string, predicted: string | null, focusInRange?: boolean): EvalCaseResult {
+  return { id: `${expected}-${predicted}`, expected, predicted, ...(focusInRange !== undefined ? { focusInRange } : {}) };
+}
+
+// ==================== SCORING TESTS ====================
+
+console.log('\n🧪 Classification Evaluation Tests\n');
+
+await test('precision and recall per category', async () => {
+  const score = scoreEvaluation([
+    result('coding', 'coding'),
+    result('coding', 'coding'),
+    result('coding', 'browsing'),
+    result('browsing', 'browsing'),
+    result('social', 'browsing'),
+  ], ['coding', 'browsing', 'social']);
+
+  assertEqual(score.accuracy, 3 / 5, 'accuracy');
+  assertEqual(score.perCategory.coding.precision, 1, 'coding precision');
+  assertEqual(score.perCategory.coding.recall, 2 / 3, 'coding recall');
+  assertEqual(score.perCategory.browsing.precision, 1 / 3, 'browsing precision');
+  assertEqual(score.perCategory.browsing.recall, 1, 'browsing recall');
+  assertEqual(score.perCategory.social.precision, null, 'social never predicted');
+  assertEqual(score.perCategory.social.recall, 0, 'social recall');
+});
+
+await test('confusion matrix counts expected against predicted', async () => {
+  const score = scoreEvaluation([
+    result('coding', 'browsing'),
+    result('coding', 'browsing'),
+    result('coding', 'coding'),
+  ], ['coding', 'browsing']);
+
+  assertEqual(score.confusion.coding.browsing, 2);
+  assertEqual(score.confusion.coding.coding, 1);
+  assertEqual(score.confusion.browsing.coding, undefined);
+});
+
+await test('failed cases are misses but not predictions', async () => {
+  const score = scoreEvaluation([
+    result('coding', null),
+    result('coding', 'coding'),
+  ], ['coding']);
+
+  assertEqual(score.perCategory.coding.support, 2);
+  assertEqual(score.perCategory.coding.predicted, 1);
+  assertEqual(score.perCategory.coding.precision, 1);
+  assertEqual(score.perCategory.coding.recall, 0.5);
+});
+
+await test('focus ranges are only scored where cases give one', async () => {
+  const score = scoreEvaluation([
+    result('coding', 'coding', true),
+    result('coding', 'coding', false),
+    result('coding', 'coding'),
+  ], ['coding']);
+
+  assertEqual(score.focus?.inRange, 1);
+  assertEqual(score.focus?.total, 2);
+});
+
+// ==================== DATASET TESTS ====================
+
+await test('dataset cases need a known category and one input', async () => {
+  const { config, db, dir } = createTestEnv();
+  const evaluator = new Evaluator(config, db);
+  const write = (cases: unknown) => {
+    const file = path.join(dir, 'dataset.json');
+    fs.writeFileSync(file, JSON.stringify(cases));
+    return file;
+  };
+
+  assertEqual(evaluator.loadDataset(write([{ description: 'vim', category: 'coding' }]))[0].id, 'case-1');
+  await assertThrows(() => evaluator.loadDataset(write([{ description: 'x', category: 'gaming' }])), /unknown category/);
+  await assertThrows(() => evaluator.loadDataset(write([{ category: 'coding' }])), /image or a description/);
+  await assertThrows(() => evaluator.loadDataset(write([{ image: 'missing.png', category: 'coding' }])), /image not found/);
+  await assertThrows(() => evaluator.loadDataset(write([{ description: 'x', category: 'coding', focus: [80, 20] }])), /focus/);
+  db.close();
+});
+
+await test('missing recorded responses fail cases instead of the run', async () => {
+  const { config, db, dir } = createTestEnv();
+  const file = path.join(dir, 'dataset.json');
+  fs.writeFileSync(file, JSON.stringify([{ description: 'vim editing a TypeScript file', category: 'coding' }]));
+
+  const report = await new Evaluator(config, db).run(file);
+  assertEqual(report.cases, 1);
+  assertEqual(report.failed, 1);
+  assertEqual(report.model, 'recorded');
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
@@ -0,0 +1,158 @@
+/**
+ * Classification Evaluation
+ * Runs screen classification over a labeled dataset and scores it, so prompt
+ * and model changes can be compared (offline with the recorded provider)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Config,
+  ActivityCategory,
+  CategoryMetrics,
+  EvalCase,
+  EvalCaseResult,
+  EvalReport,
+  MediaAnalysis,
+  TokenUsage,
+} from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Analyzer } from './analyzer.js';
+import { Taxonomy } from './taxonomy.js';
+
+export class Evaluator {
+  private analyzer: Analyzer;
+  private taxonomy: Taxonomy;
+
+  /**
+   * The user's reviewed examples change the prompt (and so recorded
+   * responses) as they accumulate, so they're left out unless `fewShot` is set
+   */
+  constructor(config: Config, db: LifeLogDatabase, options: { fewShot?: boolean } = {}) {
+    const evalConfig = options.fewShot ? config : { ...config, review: { ...config.review, fewShotExamples: 0 } };
+    this.analyzer = new Analyzer(evalConfig, db);
+    this.taxonomy = new Taxonomy(config);
+  }
+
+  /**
+   * Read and validate a dataset file
+   */
+  loadDataset(datasetPath: string): EvalCase[] {
+    let cases: unknown;
+    try {
+      cases = JSON.parse(fs.readFileSync(datasetPath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Could not read eval dataset ${datasetPath}: ${error?.message || error}`);
+    }
+    if (!Array.isArray(cases) || cases.length === 0) {
+      throw new Error(`Eval dataset ${datasetPath} must be a non-empty JSON array`);
+    }
+
+    return (cases as EvalCase[]).map((c, index) => {
+      const id = c.id || `case-${index + 1}`;
+      if (!this.taxonomy.get(c.category)) {
+        throw new Error(`Case ${id} in ${datasetPath}: unknown category "${c.category}"`);
+      }
+      if (!c.image === !c.description) {
+        throw new Error(`Case ${id} in ${datasetPath} needs either an image or a description`);
+      }
+      if (c.image && !fs.existsSync(path.resolve(path.dirname(datasetPath), c.image))) {
+        throw new Error(`Case ${id} in ${datasetPath}: image not found: ${c.image}`);
+      }
+      if (c.focus && !(Array.isArray(c.focus) && c.focus.length === 2 && c.focus[0] <= c.focus[1])) {
+        throw new Error(`Case ${id} in ${datasetPath}: focus must be [min, max]`);
+      }
+      return { ...c, id };
+    });
+  }
+
+  /**
+   * Classify every case, one at a time, and score the results
+   */
+  async run(datasetPath: string): Promise<EvalReport> {
+    const cases = this.loadDataset(datasetPath);
+    const version = this.analyzer.screenVersion();
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    const results: EvalCaseResult[] = [];
+
+    for (const c of cases) {
+      let analysis: MediaAnalysis;
+      try {
+        analysis = c.image
+          ? await this.analyzer.analyzeScreenImage(path.resolve(path.dirname(datasetPath), c.image), usage)
+          : await this.analyzer.analyzeScreenDescription(c.description!, usage);
+      } catch (error: any) {
+        results.push({ id: c.id!, expected: c.category, predicted: null, error: error?.message || String(error) });
+        continue;
+      }
+
+      results.push({
+        id: c.id!,
+        expected: c.category,
+        predicted: analysis.category,
+        confidence: analysis.confidence,
+        focusScore: analysis.focusScore,
+        ...(c.focus ? { focusInRange: inRange(analysis.focusScore, c.focus) } : {}),
+        // Parse errors and the like come back as fallbacks rather than throwing
+        ...(analysis.source ? {} : { error: analysis.description }),
+      });
+    }
+
+    return {
+      dataset: datasetPath,
+      model: version.model,
+      promptHash: version.promptHash,
+      cases: results.length,
+      failed: results.filter(r => r.predicted === null).length,
+      ...scoreEvaluation(results, this.taxonomy.ids()),
+      results,
+      usage,
+    };
+  }
+}
+
+function inRange(score: number | undefined, [min, max]: [number, number]): boolean {
+  return score !== undefined && score >= min && score <= max;
+}
+
+/**
+ * Accuracy, per-category precision/recall and the confusion matrix
+ * (expected -> predicted). Failed cases are misses for their expected category.
+ */
+export function scoreEvaluation(
+  results: EvalCaseResult[],
+  categories: ActivityCategory[]
+): Pick<EvalReport, 'accuracy' | 'focus' | 'perCategory' | 'confusion'> {
+  const confusion: Record<ActivityCategory, Record<ActivityCategory, number>> = {};
+  const perCategory: Record<ActivityCategory, CategoryMetrics> = {};
+  for (const category of categories) {
+    confusion[category] = {};
+    perCategory[category] = { precision: null, recall: null, support: 0, predicted: 0 };
+  }
+
+  for (const r of results) {
+    perCategory[r.expected].support++;
+    if (r.predicted === null) continue;
+    perCategory[r.predicted].predicted++;
+    confusion[r.expected][r.predicted] = (confusion[r.expected][r.predicted] || 0) + 1;
+  }
+
+  for (const category of categories) {
+    const metrics = perCategory[category];
+    const correct = confusion[category][category] || 0;
+    metrics.precision = metrics.predicted > 0 ? correct / metrics.predicted : null;
+    metrics.recall = metrics.support > 0 ? correct / metrics.support : null;
+  }
+
+  const withFocus = results.filter(r => r.focusInRange !== undefined);
+  const correct = results.filter(r => r.predicted === r.expected).length;
+
+  return {
+    accuracy: results.length > 0 ? correct / results.length : 0,
+    focus: withFocus.length > 0
+      ? { inRange: withFocus.filter(r => r.focusInRange).length, total: withFocus.length }
+      : undefined,
+    perCategory,
+    confusion,
+  };
+}
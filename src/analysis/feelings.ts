@@ -0,0 +1,79 @@
+/**
+ * Feelings in Check-ins
+ * Mood and energy from check-ins: the values given with them (checkin
+ * --mood/--energy), otherwise estimated from feeling words in the text
+ */
+
+import { CheckIn, FeelingReading } from '../types/index.js';
+
+const MOOD_WORDS = {
+  positive: [
+    'happy', 'great', 'good', 'glad', 'excited', 'calm', 'content', 'relaxed', 'proud', 'satisfied',
+    'cheerful', 'motivated', 'grateful', 'awesome', 'amazing', 'fantastic', 'optimistic', 'joyful',
+  ],
+  negative: [
+    'sad', 'stressed', 'anxious', 'frustrated', 'angry', 'annoyed', 'upset', 'depressed', 'overwhelmed',
+    'worried', 'irritated', 'bored', 'lonely', 'miserable', 'awful', 'terrible', 'bad', 'grumpy', 'meh',
+  ],
+};
+
+const ENERGY_WORDS = {
+  positive: ['energized', 'energetic', 'alert', 'refreshed', 'rested', 'awake', 'sharp', 'pumped', 'fresh'],
+  negative: ['tired', 'exhausted', 'sleepy', 'drained', 'sluggish', 'fatigued', 'lethargic', 'groggy', 'burnt', 'burned'],
+};
+
+// A feeling word right after one of these counts the other way ("not tired")
+const NEGATIONS = new Set(['not', 'no', 'never', 'hardly', "isn't", "wasn't", "don't", "didn't", "aren't"]);
+
+/**
+ * Mood and energy in a check-in, or null when it says nothing about either
+ */
+export function readFeelings(checkIn: CheckIn): FeelingReading | null {
+  const { timestamp, message } = checkIn;
+  if (checkIn.mood != null || checkIn.energy != null) {
+    return {
+      timestamp,
+      ...(checkIn.mood != null ? { mood: checkIn.mood } : {}),
+      ...(checkIn.energy != null ? { energy: checkIn.energy } : {}),
+      source: 'structured',
+    };
+  }
+
+  const words = message.toLowerCase().match(/[a-z']+/g) || [];
+  const mood = sentiment(words, MOOD_WORDS);
+  const energy = sentiment(words, ENERGY_WORDS);
+  if (mood === undefined && energy === undefined) return null;
+
+  return {
+    timestamp,
+    ...(mood !== undefined ? { mood } : {}),
+    ...(energy !== undefined ? { energy } : {}),
+    source: 'sentiment',
+  };
+}
+
+/**
+ * 1-5 from the balance of positive and negative words; undefined without any
+ */
+function sentiment(words: string[], lexicon: { positive: string[]; negative: string[] }): number | undefined {
+  let positive = 0;
+  let negative = 0;
+
+  words.forEach((word, i) => {
+    const polarity = lexicon.positive.includes(word) ? 1 : lexicon.negative.includes(word) ? -1 : 0;
+    if (polarity === 0) return;
+    const negated = i > 0 && NEGATIONS.has(words[i - 1]);
+    if ((polarity > 0) !== negated) {
+      positive++;
+    } else {
+      negative++;
+    }
+  });
+
+  if (positive + negative === 0) return undefined;
+  return round(3 + 2 * (positive - negative) / (positive + negative));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
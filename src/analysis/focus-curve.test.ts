@@ -0,0 +1,89 @@
+/**
+ * Focus Curve Tests
+ *
+ * Run with: npx ts-node src/analysis/focus-curve.test.ts
+ * Or: node --loader ts-node/esm src/analysis/focus-curve.test.ts
+ */
+
+import { format, subDays } from 'date-fns';
+import { FocusCurve, weekdayOf } from './focus-curve.js';
+import { PatternDetector } from './patterns.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Config, HourlyFocusStats } from '../types/index.js';
+import { test, assertEqual, quietly, createTestConfig, summary } from '../test-utils.js';
+
+// A finished day inside the curve's history
+const DATE = format(subDays(new Date(), 3), 'yyyy-MM-dd');
+
+function createTestEnv(): { config: Config; db: LifeLogDatabase } {
+  const config = createTestConfig();
+  return { config, db: new LifeLogDatabase(config) };
+}
+
+function addScreen(db: LifeLogDatabase, time: string, focusScore: number): number {
+  return db.insertMedia({
+    timestamp: `${DATE}T${time}Z`,
+    type: 'screen',
+    file_path: `${time}.png`,
+    analysis_json: JSON.stringify({ category: 'coding', confidence: 0.9, description: 'coding', focusScore, source: 'model' }),
+  });
+}
+
+function hourStats(db: LifeLogDatabase, hour: number): HourlyFocusStats | undefined {
+  return db.getHourlyFocusStats('0000-01-01', 0).find(s => s.weekday === weekdayOf(DATE) && s.hour === hour);
+}
+
+// ==================== HOURLY ACTIVITY TESTS ====================
+
+console.log('\n🧪 Focus Curve Tests\n');
+
+await test('blocks count in every hour they overlap', async () => {
+  const { config, db } = createTestEnv();
+  // 09:40 until the next capture at 10:20, then five minutes
+  addScreen(db, '09:40:00', 80);
+  addScreen(db, '10:20:00', 40);
+
+  const patterns = await quietly(() => new PatternDetector(config, db).detectDailyPatterns(DATE));
+
+  assertEqual(patterns.hourlyActivity[9]?.minutes, 20);
+  assertEqual(patterns.hourlyActivity[10]?.minutes, 25);
+  // 20 minutes at 80 and 5 at 40
+  assertEqual(patterns.hourlyActivity[10]?.focusScore, 72);
+  db.close();
+});
+
+// ==================== UPDATE TESTS ====================
+
+await test('days are folded in once, and again when their analyses change', async () => {
+  const { config, db } = createTestEnv();
+  const curve = new FocusCurve(config, db);
+  const first = addScreen(db, '09:00:00', 80);
+  addScreen(db, '09:30:00', 80);
+
+  assertEqual(await quietly(() => curve.update()), 1);
+  assertEqual(await quietly(() => curve.update()), 0, 'nothing changed');
+  assertEqual(hourStats(db, 9)?.meanFocus, 80);
+
+  // Relabeled after review
+  db.updateMediaAnalysis(first, JSON.stringify({ category: 'coding', confidence: 1, description: 'coding', focusScore: 20, source: 'user', reviewed: true }));
+  assertEqual(await quietly(() => curve.update()), 1, 'recomputed after the analysis changed');
+  // 30 minutes at 20 and 5 at 80
+  assertEqual(hourStats(db, 9)?.meanFocus, 29);
+  assertEqual(hourStats(db, 9)?.days, 1, 'the day replaces its old hours');
+  db.close();
+});
+
+await test('a regenerated summary recomputes its day', async () => {
+  const { config, db } = createTestEnv();
+  const curve = new FocusCurve(config, db);
+  addScreen(db, '09:00:00', 80);
+  await quietly(() => curve.update());
+
+  db.upsertSummary({ date: DATE, content_json: '{}' });
+  assertEqual(await quietly(() => curve.update()), 1);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
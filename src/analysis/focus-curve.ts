@@ -0,0 +1,149 @@
+/**
+ * Focus Curve
+ * Focus by hour of the week, built from months of time blocks, with
+ * confidence bands. Each day is folded in after it's over, and again when
+ * its analyses or summary change, so updates only compute those days.
+ */
+
+import { format, parseISO, subDays, getISODay } from 'date-fns';
+import { Config, FocusCurveCell, FocusCurveModel, FocusWindow } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
+import { PatternDetector } from './patterns.js';
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const DEFAULT_WEEKS = 26;
+const DEFAULT_MIN_DAYS = 3;
+
+// An hour needs this much tracked time on a day to say anything about focus then
+const MIN_HOUR_MINUTES = 10;
+
+// Normal quantile for a 95% confidence band
+const Z_95 = 1.96;
+
+export class FocusCurve {
+  private db: LifeLogDatabase;
+  private patterns: PatternDetector;
+  private days: DayBoundary;
+  private weeks: number;
+  readonly minDays: number;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.db = db;
+    this.patterns = new PatternDetector(config, db);
+    this.days = new DayBoundary(config);
+    this.weeks = config.focusCurve?.weeks ?? DEFAULT_WEEKS;
+    this.minDays = config.focusCurve?.minDays ?? DEFAULT_MIN_DAYS;
+  }
+
+  /**
+   * Fold finished days that aren't in the curve yet, or changed since, into
+   * it (all of them with `rebuild`). Returns the number of days computed.
+   */
+  async update(options: { rebuild?: boolean } = {}): Promise<number> {
+    if (options.rebuild) {
+      this.db.clearHourlyFocus();
+    }
+
+    // Only whole weeks of history are read back, so older days needn't be computed
+    const since = this.since();
+    const pending = this.db.getDatesWithoutHourlyFocus(this.days.today()).filter(date => date >= since);
+
+    for (const date of pending) {
+      const patterns = await this.patterns.detectDailyPatterns(date);
+      const hours = Object.entries(patterns.hourlyActivity).map(([hour, h]) => ({
+        hour: parseInt(hour),
+        minutes: h.minutes,
+        focusScore: h.focusScore,
+      }));
+      this.db.replaceHourlyFocus(date, weekdayOf(date), hours, new Date().toISOString());
+    }
+
+    return pending.length;
+  }
+
+  /**
+   * The curve over the configured number of weeks up to today
+   */
+  getModel(): FocusCurveModel {
+    const from = this.since();
+    const stats = new Map(
+      this.db.getHourlyFocusStats(from, MIN_HOUR_MINUTES).map(s => [`${s.weekday}:${s.hour}`, s])
+    );
+
+    const cells: FocusCurveCell[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      for (let hour = 0; hour < 24; hour++) {
+        const s = stats.get(`${weekday}:${hour}`);
+        if (!s) {
+          cells.push({ weekday, hour, days: 0, focusScore: null, low: null, high: null, avgMinutes: 0 });
+          continue;
+        }
+
+        // Sample variance across days, from the mean and mean square
+        const variance = s.days > 1 ? Math.max(0, s.meanSquareFocus - s.meanFocus ** 2) * s.days / (s.days - 1) : null;
+        const margin = variance !== null ? Z_95 * Math.sqrt(variance / s.days) : null;
+        cells.push({
+          weekday,
+          hour,
+          days: s.days,
+          focusScore: Math.round(s.meanFocus),
+          low: margin !== null ? Math.max(0, Math.round(s.meanFocus - margin)) : null,
+          high: margin !== null ? Math.min(100, Math.round(s.meanFocus + margin)) : null,
+          avgMinutes: Math.round(s.avgMinutes),
+        });
+      }
+    }
+
+    return { from, to: this.days.today(), days: this.db.countHourlyFocusDays(from), cells };
+  }
+
+  /**
+   * The consecutive `hours` of a weekday with the highest mean focus, among
+   * hours with at least minDays of data
+   */
+  bestWindow(model: FocusCurveModel, weekday: number, hours: number = 2): FocusWindow | null {
+    const day = model.cells.filter(c => c.weekday === weekday);
+    let best: FocusWindow | null = null;
+
+    for (let start = 0; start + hours <= 24; start++) {
+      const cells = day.slice(start, start + hours);
+      if (cells.some(c => c.focusScore === null || c.days < this.minDays)) continue;
+
+      const focusScore = Math.round(cells.reduce((sum, c) => sum + c.focusScore!, 0) / hours);
+      if (best && focusScore <= best.focusScore) continue;
+
+      const bands = cells.every(c => c.low !== null && c.high !== null);
+      best = {
+        weekday,
+        startHour: start,
+        endHour: start + hours,
+        focusScore,
+        low: bands ? Math.round(cells.reduce((sum, c) => sum + c.low!, 0) / hours) : null,
+        high: bands ? Math.round(cells.reduce((sum, c) => sum + c.high!, 0) / hours) : null,
+        days: Math.min(...cells.map(c => c.days)),
+      };
+    }
+
+    return best;
+  }
+
+  /**
+   * Weekday (0 = Monday) of the user's current day
+   */
+  today(): number {
+    return weekdayOf(this.days.today());
+  }
+
+  private since(): string {
+    return format(subDays(parseISO(this.days.today()), this.weeks * 7), 'yyyy-MM-dd');
+  }
+}
+
+/**
+ * 0 = Monday
+ */
+export function weekdayOf(date: string): number {
+  return getISODay(parseISO(date)) - 1;
+}
@@ -0,0 +1,193 @@
+/**
+ * Forecast Tests
+ *
+ * Run with: npx ts-node src/analysis/forecast.test.ts
+ * Or: node --loader ts-node/esm src/analysis/forecast.test.ts
+ */
+
+import { format, addDays, parseISO } from 'date-fns';
+import { Forecaster } from './forecast.js';
+import { GoalManager } from '../goals/manager.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Config, DailySummaryContent } from '../types/index.js';
+import { test, assertEqual, createTestConfig, summary } from '../test-utils.js';
+
+// A Monday; histories run for whole weeks from here
+const START = '2026-08-03';
+const cwd = process.cwd();
+
+function dayAfter(days: number): string {
+  return format(addDays(parseISO(START), days), 'yyyy-MM-dd');
+}
+
+// Goals are read from goals.json in the working directory
+function createTestEnv(): { config: Config; db: LifeLogDatabase; goals: GoalManager } {
+  const config = createTestConfig();
+  process.chdir(config.dataDir);
+  const db = new LifeLogDatabase(config);
+  return { config, db, goals: new GoalManager(config, db) };
+}
+
+// Summaries for `days` days from START
+function addHistory(db: LifeLogDatabase, days: number, metrics: (day: number) => { focusScore: number; deepWorkMinutes: number }): void {
+  for (let day = 0; day < days; day++) {
+    const date = dayAfter(day);
+    const content: DailySummaryContent = {
+      date,
+      generatedAt: `${date}T23:00:00.000Z`,
+      totalTrackedMinutes: 480,
+      categoryBreakdown: {},
+      deepWorkSessions: 0,
+      contextSwitches: 0,
+      peakProductivityHours: [],
+      insights: [],
+      recommendations: [],
+      checkIns: [],
+      ...metrics(day),
+    };
+    db.upsertSummary({ date, content_json: JSON.stringify(content) });
+  }
+}
+
+// ==================== PROJECTION TESTS ====================
+
+console.log('\n🧪 Forecast Tests\n');
+
+await test('a steady history forecasts its level, with the smallest range', async () => {
+  const { config, db } = createTestEnv();
+  addHistory(db, 28, () => ({ focusScore: 70, deepWorkMinutes: 120 }));
+
+  const forecast = new Forecaster(config, db).forecast(dayAfter(28))!;
+
+  assertEqual(forecast.historyDays, 28);
+  assertEqual(forecast.focusScore.value, 70);
+  assertEqual(forecast.focusScore.weekdayEffect, 0);
+  assertEqual(forecast.focusScore.trend, 0);
+  // 80% of a normal spread of at least 5 points
+  assertEqual(forecast.focusScore.low, 64);
+  assertEqual(forecast.focusScore.high, 76);
+  assertEqual(forecast.scheduledMeetingMinutes, null);
+  db.close();
+});
+
+await test('weekdays that differ are forecast apart, shrunk towards the average', async () => {
+  const { config, db } = createTestEnv();
+  addHistory(db, 56, day => ({ focusScore: day % 7 === 0 ? 90 : 70, deepWorkMinutes: 120 }));
+  const forecaster = new Forecaster(config, db);
+
+  const monday = forecaster.forecast(dayAfter(56))!.focusScore;
+  const tuesday = forecaster.forecast(dayAfter(57))!.focusScore;
+
+  // Mondays are 17 above the average, counted as 8 of 10 Mondays
+  assertEqual(monday.weekdayEffect, 14);
+  assertEqual(tuesday.weekdayEffect, -2);
+  assertEqual(monday.value - tuesday.value > 10, true, `${monday.value} vs ${tuesday.value}`);
+  db.close();
+});
+
+await test('recent trends are carried forward at half strength', async () => {
+  const { config, db } = createTestEnv();
+  addHistory(db, 56, day => ({ focusScore: 30 + day * 0.5, deepWorkMinutes: 120 }));
+
+  const focus = new Forecaster(config, db).forecast(dayAfter(56))!.focusScore;
+
+  // The last 14 days average 54.25, centred 7.5 days back: half of 0.5 a day
+  // over 7.5 days
+  assertEqual(focus.level, 54);
+  assertEqual(focus.trend, 2);
+  db.close();
+});
+
+await test('too little history gives no forecast', async () => {
+  const { config, db } = createTestEnv();
+  addHistory(db, 6, () => ({ focusScore: 70, deepWorkMinutes: 120 }));
+
+  assertEqual(new Forecaster(config, db).forecast(dayAfter(6)), null);
+  db.close();
+});
+
+// ==================== GOAL TESTS ====================
+
+await test('goal probabilities follow the forecast and its spread', async () => {
+  const { config, db, goals } = createTestEnv();
+  addHistory(db, 28, day => ({ focusScore: 70, deepWorkMinutes: day % 2 === 0 ? 100 : 140 }));
+  const easy = goals.createGoal('Deep work 1h', 'daily', 60);
+  const even = goals.createGoal('Deep work 2h', 'daily', 120);
+  const hard = goals.createGoal('Deep work 4h', 'daily', 240);
+  const weekly = goals.createGoal('Deep work 10h a week', 'weekly', 600);
+
+  const forecast = new Forecaster(config, db).forecast(dayAfter(28))!;
+  const goal = (id: string) => forecast.goals.find(g => g.goalId === id)!;
+
+  // About 120 a day, give or take 20
+  assertEqual(goal(easy.id).probability, 1);
+  assertEqual(Math.abs(goal(even.id).probability - 0.5) < 0.1, true, `${goal(even.id).probability}`);
+  assertEqual(goal(even.id).atRisk, goal(even.id).probability < 0.5);
+  assertEqual(goal(hard.id).probability, 0);
+  assertEqual(goal(hard.id).atRisk, true);
+  // A whole week of about 120 minutes a day ahead
+  assertEqual(Math.abs(goal(weekly.id).expected - 7 * 120) < 7 * 5, true, `${goal(weekly.id).expected}`);
+  assertEqual(goal(weekly.id).probability, 1);
+  db.close();
+});
+
+await test('weekly goals already met are certain', async () => {
+  const { config, db, goals } = createTestEnv();
+  addHistory(db, 31, () => ({ focusScore: 70, deepWorkMinutes: 240 }));
+  const weekly = goals.createGoal('Deep work 10h a week', 'weekly', 600);
+
+  // Thursday, after three days of four hours
+  const forecast = new Forecaster(config, db).forecast(dayAfter(31))!;
+  assertEqual(forecast.goals.find(g => g.goalId === weekly.id)?.probability, 1);
+  db.close();
+});
+
+// ==================== BACKTEST TESTS ====================
+
+await test('backtests score each day against the days before it', async () => {
+  const { config, db, goals } = createTestEnv();
+  addHistory(db, 28, () => ({ focusScore: 70, deepWorkMinutes: 120 }));
+  goals.createGoal('Deep work 2h', 'daily', 120);
+  goals.createGoal('Deep work 10h a week', 'weekly', 600);
+
+  const report = new Forecaster(config, db).backtest(dayAfter(0), dayAfter(27));
+  const focus = report.metrics.find(m => m.metric === 'focusScore')!;
+
+  // The first week is history for the rest
+  assertEqual(report.days, 21);
+  assertEqual(focus.days, 21);
+  assertEqual(focus.meanAbsoluteError, 0);
+  assertEqual(focus.bias, 0);
+  assertEqual(focus.coverage, 1);
+  assertEqual(focus.naiveError, 0);
+  // Only the daily goal is scored: an even chance, met every day
+  assertEqual(report.goals.forecasts, 21);
+  assertEqual(report.goals.completed, 21);
+  assertEqual(report.goals.brierScore, 0.25);
+  assertEqual(report.goals.predicted, 10.5);
+  db.close();
+});
+
+await test('backtest errors are measured against repeating the day before', async () => {
+  const { config, db } = createTestEnv();
+  // Steady weekdays, a quiet weekend
+  addHistory(db, 56, day => ({ focusScore: day % 7 >= 5 ? 40 : 80, deepWorkMinutes: day % 7 >= 5 ? 0 : 180 }));
+
+  const report = new Forecaster(config, db).backtest(dayAfter(28), dayAfter(55));
+  const focus = report.metrics.find(m => m.metric === 'focusScore')!;
+
+  // The weekday effect knows weekends; yesterday doesn't
+  assertEqual(focus.meanAbsoluteError < focus.naiveError, true, `${focus.meanAbsoluteError} vs ${focus.naiveError}`);
+  assertEqual(focus.naiveError, round(40 * 2 / 7));
+  db.close();
+});
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+process.chdir(cwd);
+
+// ==================== SUMMARY ====================
+
+summary();
@@ -0,0 +1,355 @@
+/**
+ * Forecasts
+ * A day's likely focus score, deep work and goal completion, from the daily
+ * summaries before it: the recent level, adjusted for the day of the week,
+ * the recent trend and meetings on the calendar. Days are assumed to be
+ * tracked, so untracked days off show up as forecast error.
+ */
+
+import { format, parseISO, subDays, addDays, differenceInCalendarDays, eachDayOfInterval, endOfWeek, startOfWeek } from 'date-fns';
+import {
+  Config,
+  BacktestMetric,
+  BacktestReport,
+  DailySummaryContent,
+  DayForecast,
+  GoalForecast,
+  MetricForecast,
+} from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
+import { GoalManager, Goal } from '../goals/manager.js';
+import { Calendar } from '../services/calendar.js';
+import { weekdayOf } from './focus-curve.js';
+import { mean } from './baseline.js';
+
+const DEFAULT_HISTORY_DAYS = 56;
+const DEFAULT_RECENT_DAYS = 14;
+const DEFAULT_RISK_THRESHOLD = 0.5;
+
+// With fewer summaries than this there's nothing to forecast from
+const MIN_HISTORY_DAYS = 7;
+
+// A weekday's effect is pulled towards 0 as if this many more of its days had none,
+// so one unusual Monday doesn't shift every Monday
+const WEEKDAY_SHRINKAGE = 2;
+
+// Recent trends are carried forward at half strength; they rarely continue in full
+const TREND_DAMPING = 0.5;
+
+// Normal quantile for the 80% range
+const Z_80 = 1.2816;
+
+// Smallest day-to-day spread assumed, so steady histories still get a range
+const MIN_SPREAD = {
+  focusScore: 5,
+  deepWorkMinutes: 15,
+  goal: 1,
+};
+
+type History = Map<string, DailySummaryContent>;
+
+interface SeriesPoint {
+  date: string;
+  value: number;
+  meetings: number | null;
+}
+
+interface Projection {
+  forecast: MetricForecast;
+  spread: number; // standard deviation of a day around its forecast
+}
+
+export class Forecaster {
+  private db: LifeLogDatabase;
+  private goalManager: GoalManager;
+  private calendar: Calendar;
+  private days: DayBoundary;
+  private historyDays: number;
+  private recentDays: number;
+  private riskThreshold: number;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.db = db;
+    this.goalManager = new GoalManager(config, db);
+    this.calendar = new Calendar(config);
+    this.days = new DayBoundary(config);
+    this.historyDays = config.forecast?.historyDays ?? DEFAULT_HISTORY_DAYS;
+    this.recentDays = config.forecast?.recentDays ?? DEFAULT_RECENT_DAYS;
+    this.riskThreshold = config.forecast?.riskThreshold ?? DEFAULT_RISK_THRESHOLD;
+  }
+
+  /**
+   * Forecast for a day (default: tomorrow) from the summaries before it;
+   * null without enough history
+   */
+  forecast(date: string = this.tomorrow()): DayForecast | null {
+    const history = this.loadHistory(this.historyStart(date), shiftDate(date, -1));
+    return this.forecastFrom(history, date);
+  }
+
+  /**
+   * Forecast each day from one date to another (inclusive) from the days
+   * before it, and compare with what happened
+   */
+  backtest(from: string, to: string): BacktestReport {
+    const history = this.loadHistory(this.historyStart(from), to);
+    const errors = {
+      focusScore: [] as Array<{ forecast: MetricForecast; actual: number; previous: number | null }>,
+      deepWorkMinutes: [] as Array<{ forecast: MetricForecast; actual: number; previous: number | null }>,
+    };
+    const goalOutcomes: Array<{ probability: number; completed: boolean }> = [];
+    let days = 0;
+
+    for (const day of eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })) {
+      const date = format(day, 'yyyy-MM-dd');
+      const actual = history.get(date);
+      if (!actual) continue;
+
+      const before: History = new Map(
+        Array.from(history).filter(([d]) => d < date && d >= this.historyStart(date))
+      );
+      const forecast = this.forecastFrom(before, date);
+      if (!forecast) continue;
+      days++;
+
+      const previous = Array.from(before.values()).pop() || null;
+      for (const metric of ['focusScore', 'deepWorkMinutes'] as const) {
+        errors[metric].push({ forecast: forecast[metric], actual: actual[metric], previous: previous ? previous[metric] : null });
+      }
+
+      // Weekly goals only resolve at the end of the week, so only daily ones are scored
+      for (const goalForecast of forecast.goals) {
+        if (goalForecast.type === 'weekly') continue;
+        const goal = this.goalManager.getGoal(goalForecast.goalId)!;
+        goalOutcomes.push({
+          probability: goalForecast.probability,
+          completed: this.goalManager.calculateProgressFromSummary(actual, goal) >= goal.target,
+        });
+      }
+    }
+
+    const metrics: BacktestMetric[] = (['focusScore', 'deepWorkMinutes'] as const).map(metric => {
+      const results = errors[metric];
+      const naive = results.filter(r => r.previous !== null);
+      return {
+        metric,
+        days: results.length,
+        meanAbsoluteError: round(mean(results.map(r => Math.abs(r.forecast.value - r.actual))) || 0),
+        bias: round(mean(results.map(r => r.forecast.value - r.actual)) || 0),
+        coverage: round(results.filter(r => r.actual >= r.forecast.low && r.actual <= r.forecast.high).length / Math.max(1, results.length), 2),
+        naiveError: round(mean(naive.map(r => Math.abs(r.previous! - r.actual))) || 0),
+      };
+    });
+
+    return {
+      from,
+      to,
+      days,
+      metrics,
+      goals: {
+        forecasts: goalOutcomes.length,
+        brierScore: goalOutcomes.length > 0
+          ? round(mean(goalOutcomes.map(o => (o.probability - (o.completed ? 1 : 0)) ** 2)), 3)
+          : null,
+        completed: goalOutcomes.filter(o => o.completed).length,
+        predicted: round(goalOutcomes.reduce((sum, o) => sum + o.probability, 0)),
+      },
+    };
+  }
+
+  private forecastFrom(history: History, date: string): DayForecast | null {
+    if (history.size < MIN_HISTORY_DAYS) return null;
+
+    const series = (value: (summary: DailySummaryContent) => number): SeriesPoint[] =>
+      Array.from(history).map(([d, summary]) => ({ date: d, value: value(summary), meetings: this.calendar.getMeetingMinutes(d) }));
+
+    const focusScore = this.project(series(s => s.focusScore), date, date, MIN_SPREAD.focusScore, 100).forecast;
+    const deepWorkMinutes = this.project(series(s => s.deepWorkMinutes), date, date, MIN_SPREAD.deepWorkMinutes).forecast;
+
+    const goals = this.goalManager.getAllGoals().map(goal =>
+      this.forecastGoal(goal, series(s => this.goalManager.calculateProgressFromSummary(s, goal)), history, date)
+    );
+
+    return {
+      date,
+      historyDays: history.size,
+      scheduledMeetingMinutes: this.calendar.getMeetingMinutes(date),
+      focusScore,
+      deepWorkMinutes,
+      goals,
+    };
+  }
+
+  /**
+   * Chance of completing a goal on the day (weekly goals: by the end of its week)
+   */
+  private forecastGoal(goal: Goal, series: SeriesPoint[], history: History, date: string): GoalForecast {
+    let expected: number;
+    let probability: number;
+
+    if (goal.type === 'streak') {
+      // Kept or not, so the recent rate of keeping it is the chance
+      const recent = this.recent(series, date);
+      expected = this.project(series, date, date, MIN_SPREAD.goal).forecast.value;
+      probability = recent.filter(p => p.value >= goal.target).length / recent.length;
+    } else if (goal.type === 'weekly') {
+      const weekStart = format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const weekEnd = endOfWeek(parseISO(date), { weekStartsOn: 1 });
+      const soFar = Array.from(history)
+        .filter(([d]) => d >= weekStart && d < date)
+        .reduce((sum, [, summary]) => sum + this.goalManager.calculateProgressFromSummary(summary, goal), 0);
+
+      // Each remaining day's forecast, with independent errors
+      const remaining = eachDayOfInterval({ start: parseISO(date), end: weekEnd })
+        .map(d => this.project(series, date, format(d, 'yyyy-MM-dd'), MIN_SPREAD.goal));
+      expected = soFar + remaining.reduce((sum, p) => sum + p.forecast.value, 0);
+      const spread = Math.sqrt(remaining.reduce((sum, p) => sum + p.spread ** 2, 0));
+      probability = soFar >= goal.target ? 1 : chanceOfReaching(goal.target, expected, spread);
+    } else {
+      const projection = this.project(series, date, date, MIN_SPREAD.goal);
+      expected = projection.forecast.value;
+      probability = chanceOfReaching(goal.target, expected, projection.spread);
+    }
+
+    probability = round(probability, 2);
+    return {
+      goalId: goal.id,
+      goalName: goal.name,
+      type: goal.type,
+      target: goal.target,
+      expected: Math.round(expected),
+      probability,
+      atRisk: probability < this.riskThreshold,
+    };
+  }
+
+  /**
+   * A series' value on a day, forecast as of another (the first day without data)
+   */
+  private project(series: SeriesPoint[], asOf: string, date: string, minSpread: number, max: number = Infinity): Projection {
+    const values = series.map(p => p.value);
+    const overall = mean(values);
+
+    // Recent level, and its trend over the same days
+    const recent = this.recent(series, asOf);
+    const level = mean(recent.map(p => p.value));
+    const offsets = recent.map(p => differenceInCalendarDays(parseISO(p.date), parseISO(asOf)));
+    const slope = regressionSlope(offsets, recent.map(p => p.value));
+    const trend = slope * (differenceInCalendarDays(parseISO(date), parseISO(asOf)) - mean(offsets)) * TREND_DAMPING;
+
+    // The weekday's usual difference from the average day
+    const weekday = weekdayOf(date);
+    const sameWeekday = series.filter(p => weekdayOf(p.date) === weekday).map(p => p.value);
+    const weekdayEffect = sameWeekday.length > 0
+      ? (mean(sameWeekday) - overall) * sameWeekday.length / (sameWeekday.length + WEEKDAY_SHRINKAGE)
+      : 0;
+
+    // More or fewer meetings than usual, by how the series has moved with them
+    let meetingEffect = 0;
+    const scheduled = this.calendar.getMeetingMinutes(date);
+    const withMeetings = series.filter(p => p.meetings !== null);
+    if (scheduled !== null && withMeetings.length >= MIN_HISTORY_DAYS) {
+      const meetings = withMeetings.map(p => p.meetings!);
+      meetingEffect = regressionSlope(meetings, withMeetings.map(p => p.value)) * (scheduled - mean(meetings));
+    }
+
+    // Spread around each weekday's own mean
+    const residuals = series.map(p => {
+      const same = series.filter(q => weekdayOf(q.date) === weekdayOf(p.date));
+      return p.value - mean(same.map(q => q.value));
+    });
+    const spread = Math.max(minSpread, Math.sqrt(residuals.reduce((sum, r) => sum + r ** 2, 0) / Math.max(1, residuals.length - 1)));
+
+    const value = clamp(level + weekdayEffect + trend + meetingEffect, max);
+    return {
+      forecast: {
+        value: Math.round(value),
+        low: Math.round(clamp(value - Z_80 * spread, max)),
+        high: Math.round(clamp(value + Z_80 * spread, max)),
+        level: Math.round(level),
+        weekdayEffect: Math.round(weekdayEffect),
+        trend: Math.round(trend),
+        meetingEffect: Math.round(meetingEffect),
+      },
+      spread,
+    };
+  }
+
+  /**
+   * Points in the recent days before a date, or all of them when there are none
+   */
+  private recent(series: SeriesPoint[], asOf: string): SeriesPoint[] {
+    const since = shiftDate(asOf, -this.recentDays);
+    const recent = series.filter(p => p.date >= since && p.date < asOf);
+    return recent.length > 0 ? recent : series;
+  }
+
+  private loadHistory(from: string, to: string): History {
+    const history: History = new Map();
+    if (from > to) return history;
+
+    for (const day of eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })) {
+      const date = format(day, 'yyyy-MM-dd');
+      const summary = this.db.getSummary(date);
+      if (!summary) continue;
+      try {
+        history.set(date, JSON.parse(summary.content_json));
+      } catch {
+        // Unreadable summaries are left out
+      }
+    }
+    return history;
+  }
+
+  private historyStart(date: string): string {
+    return shiftDate(date, -this.historyDays);
+  }
+
+  private tomorrow(): string {
+    return shiftDate(this.days.today(), 1);
+  }
+}
+
+function shiftDate(date: string, days: number): string {
+  return format(days < 0 ? subDays(parseISO(date), -days) : addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+/**
+ * Least-squares slope of ys over xs; 0 without variation in xs
+ */
+function regressionSlope(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    variance += (xs[i] - mx) ** 2;
+  }
+  return variance > 0 ? covariance / variance : 0;
+}
+
+/**
+ * Chance a normally distributed value with this mean and spread reaches a target
+ */
+function chanceOfReaching(target: number, expected: number, spread: number): number {
+  return 1 - normalCdf((target - expected) / spread);
+}
+
+// Abramowitz and Stegun 26.2.17, accurate to about 1e-7
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+function clamp(value: number, max: number): number {
+  return Math.min(max, Math.max(0, value));
+}
+
+function round(value: number, decimals: number = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
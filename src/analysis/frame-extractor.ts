@@ -0,0 +1,114 @@
+/**
+ * Keyframe Extraction
+ * Samples still frames from screen recordings so they can go through vision analysis
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import { Config, MediaRecord } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Encryptor } from '../storage/encryption.js';
+
+const execAsync = promisify(exec);
+
+const DEFAULT_MAX_FRAMES = 4;
+const DEFAULT_SECONDS_PER_FRAME = 15;
+
+export class FrameExtractor {
+  private config: Config;
+  private db: LifeLogDatabase;
+  private encryptor: Encryptor;
+  private ffmpeg: string;
+  private ffprobe: string;
+  private maxFrames: number;
+  private secondsPerFrame: number;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.config = config;
+    this.db = db;
+    this.encryptor = db.getEncryptor();
+    this.ffmpeg = config.frames?.ffmpegBinary || 'ffmpeg';
+    this.ffprobe = config.frames?.ffprobeBinary || 'ffprobe';
+    this.maxFrames = config.frames?.maxFrames || DEFAULT_MAX_FRAMES;
+    this.secondsPerFrame = config.frames?.secondsPerFrame || DEFAULT_SECONDS_PER_FRAME;
+  }
+
+  /**
+   * Clip length in seconds
+   */
+  async getDuration(filePath: string): Promise<number> {
+    const { stdout } = await execAsync(
+      `${this.ffprobe} -v error -show_entries format=duration -of csv=p=0 "${filePath}"`,
+      { timeout: 30000 }
+    );
+    const duration = parseFloat(stdout.trim());
+    if (isNaN(duration)) {
+      throw new Error(`Could not read duration of ${path.basename(filePath)}`);
+    }
+    return duration;
+  }
+
+  /**
+   * Get the frames for a recording, extracting them on first use.
+   * Frames are stored as child media rows (type 'frame', parent_id = recording).
+   */
+  async getFrames(media: MediaRecord, filePath: string): Promise<{ frames: MediaRecord[]; clipDurationSec: number }> {
+    return this.encryptor.withPlaintextFile(filePath, plainPath => this.extractFrames(media, plainPath));
+  }
+
+  private async extractFrames(media: MediaRecord, filePath: string): Promise<{ frames: MediaRecord[]; clipDurationSec: number }> {
+    const clipDurationSec = await this.getDuration(filePath);
+
+    const existing = this.db.getChildMedia(media.id!).filter(m => m.type === 'frame');
+    if (existing.length > 0) {
+      return { frames: existing, clipDurationSec };
+    }
+
+    const frameDir = path.join(this.config.recordings.screenDir, 'frames');
+    if (!fs.existsSync(frameDir)) {
+      fs.mkdirSync(frameDir, { recursive: true });
+    }
+
+    const recordingPath = this.encryptor.getPlainPath(media.file_path);
+    const baseName = path.basename(recordingPath, path.extname(recordingPath));
+    const frames: MediaRecord[] = [];
+
+    for (const offsetSec of this.getSampleOffsets(clipDurationSec)) {
+      const index = (frames.length + 1).toString().padStart(2, '0');
+      const framePath = path.join(frameDir, `${baseName}_f${index}.jpg`);
+
+      // Seeking before -i snaps to the nearest keyframe, which is fast and sharp
+      await execAsync(
+        `${this.ffmpeg} -loglevel error -y -ss ${offsetSec.toFixed(2)} -i "${filePath}" -frames:v 1 -q:v 3 "${framePath}"`,
+        { timeout: 60000 }
+      );
+      if (!fs.existsSync(framePath)) continue;
+
+      const frame: MediaRecord = {
+        timestamp: new Date(new Date(media.timestamp).getTime() + offsetSec * 1000).toISOString(),
+        type: 'frame',
+        file_path: this.encryptor.encryptFile(framePath),
+        parent_id: media.id,
+      };
+      frame.id = this.db.insertMedia(frame);
+      frames.push(frame);
+    }
+
+    return { frames, clipDurationSec };
+  }
+
+  /**
+   * Evenly spaced offsets (midpoints of equal slices), one per
+   * secondsPerFrame, capped at maxFrames
+   */
+  private getSampleOffsets(clipDurationSec: number): number[] {
+    const count = Math.max(1, Math.min(this.maxFrames, Math.round(clipDurationSec / this.secondsPerFrame)));
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+      offsets.push((clipDurationSec * (i + 0.5)) / count);
+    }
+    return offsets;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Moment Fusion Tests
+ *
+ * Run with: npx ts-node src/analysis/fusion.test.ts
+ * Or: node --loader ts-node/esm src/analysis/fusion.test.ts
+ */
+
+import { MomentFuser } from './fusion.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { AudioAnalysis, MediaAnalysis, MediaRecord, WorkspaceAnalysis } from '../types/index.js';
+import { test, assertEqual, createTestConfig, summary } from '../test-utils.js';
+
+const DATE = '2026-10-20';
+
+// Five-minute windows, days in UTC
+function createTestEnv(): { fuser: MomentFuser; db: LifeLogDatabase } {
+  const config = createTestConfig({ fusion: { windowMs: 5 * 60 * 1000 } });
+  const db = new LifeLogDatabase(config);
+  return { fuser: new MomentFuser(config, db), db };
+}
+
+function insert(db: LifeLogDatabase, time: string, type: MediaRecord['type'], analysis: MediaAnalysis | WorkspaceAnalysis | AudioAnalysis): number {
+  return db.insertMedia({
+    timestamp: `${DATE}T${time}Z`,
+    type,
+    file_path: `${type}-${time}`,
+    analysis_json: JSON.stringify(analysis),
+  });
+}
+
+function screen(category: string, extra: Partial<MediaAnalysis> = {}): MediaAnalysis {
+  return { category, confidence: 0.8, description: `${category} screen`, focusScore: 70, source: 'model', ...extra };
+}
+
+// ==================== FUSION TESTS ====================
+
+console.log('\n🧪 Moment Fusion Tests\n');
+
+await test('an empty chair and silence is time away, whatever the screen shows', async () => {
+  const { fuser, db } = createTestEnv();
+  insert(db, '10:00:00', 'screen', screen('coding'));
+  insert(db, '10:01:00', 'camera', { personPresent: false });
+
+  const [moment] = fuser.getMoments(DATE);
+  assertEqual(moment.category, 'breaks');
+  assertEqual(moment.away, true);
+  assertEqual(moment.fusedBy, 'camera');
+  db.close();
+});
+
+await test('someone on camera keeps the screen category, less focus per distraction', async () => {
+  const { fuser, db } = createTestEnv();
+  insert(db, '10:00:00', 'screen', screen('coding'));
+  insert(db, '10:01:00', 'camera', { personPresent: true, distractions: ['phone'] });
+
+  const [moment] = fuser.getMoments(DATE);
+  assertEqual(moment.category, 'coding');
+  assertEqual(moment.focusScore, 65);
+  assertEqual(moment.away, undefined);
+  db.close();
+});
+
+await test('speech over a video call screen is a meeting', async () => {
+  const { fuser, db } = createTestEnv();
+  insert(db, '10:00:00', 'screen', screen('browsing', { applications: ['Zoom'] }));
+  insert(db, '10:00:30', 'audio', { transcript: 'Let us start', segments: [{ start: 0, end: 60, text: 'Let us start' }] });
+
+  const [moment] = fuser.getMoments(DATE);
+  assertEqual(moment.category, 'meetings');
+  assertEqual(moment.fusedBy, 'conversation');
+  assertEqual(moment.confidence, 0.9);
+  db.close();
+});
+
+await test('speech over any other screen costs focus but keeps the category', async () => {
+  const { fuser, db } = createTestEnv();
+  insert(db, '10:00:00', 'screen', screen('coding'));
+  insert(db, '10:00:30', 'audio', { transcript: 'quick question', segments: [{ start: 0, end: 20, text: 'quick question' }] });
+
+  const [moment] = fuser.getMoments(DATE);
+  assertEqual(moment.category, 'coding');
+  assertEqual(moment.focusScore, 60);
+  db.close();
+});
+
+await test('reviewed labels win over the camera and over a pinned version', async () => {
+  const { fuser, db } = createTestEnv();
+  const version = { model: 'test-model', promptHash: 'abc123' };
+  const reviewed = insert(db, '10:00:00', 'screen', screen('social', { reviewed: true, source: 'user', confidence: 1 }));
+  db.insertMediaAnalysisVersion(reviewed, JSON.stringify(screen('coding')), version, new Date().toISOString());
+  insert(db, '10:01:00', 'camera', { personPresent: false });
+  const unreviewed = insert(db, '10:10:00', 'screen', screen('social'));
+  db.insertMediaAnalysisVersion(unreviewed, JSON.stringify(screen('coding')), version, new Date().toISOString());
+
+  const [first, second] = fuser.getMoments(DATE, version);
+  assertEqual(first.category, 'social', 'reviewed label');
+  assertEqual(first.away, undefined);
+  assertEqual(second.category, 'coding', 'pinned version');
+  db.close();
+});
+
+await test('captures fall in the window their time starts in', async () => {
+  const { fuser, db } = createTestEnv();
+  insert(db, '10:04:59', 'screen', screen('coding'));
+  insert(db, '10:05:00', 'screen', screen('email'));
+  // Speech from 10:04:30 to 10:06:00 touches both windows
+  insert(db, '10:04:30', 'audio', { transcript: 'hello', segments: [{ start: 0, end: 90, text: 'hello' }] });
+
+  const moments = fuser.getMoments(DATE);
+  assertEqual(moments.length, 2);
+  assertEqual(moments[0].category, 'coding');
+  assertEqual(moments[0].start, `${DATE}T10:04:59.000Z`);
+  assertEqual(moments[0].end, `${DATE}T10:05:00.000Z`);
+  assertEqual(moments[1].category, 'email');
+  assertEqual(moments[0].audioIds.length + moments[1].audioIds.length, 2, 'conversation in both windows');
+  db.close();
+});
+
+await test('invalid or categoryless analyses are skipped', async () => {
+  const { fuser, db } = createTestEnv();
+  db.insertMedia({ timestamp: `${DATE}T10:00:00Z`, type: 'screen', file_path: 'broken', analysis_json: '{not json' });
+  db.insertMedia({ timestamp: `${DATE}T10:00:10Z`, type: 'screen', file_path: 'empty', analysis_json: '{"confidence":0.9}' });
+
+  assertEqual(fuser.getMoments(DATE).length, 0);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
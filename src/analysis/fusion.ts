@@ -0,0 +1,259 @@
+/**
+ * Moment Fusion
+ * Aligns screen, camera and audio analyses captured in the same time window
+ * into moments whose category and focus come from all of them
+ */
+
+import {
+  Config,
+  ActivityCategory,
+  AnalysisVersion,
+  AudioAnalysis,
+  MediaAnalysis,
+  MediaRecord,
+  Moment,
+  WorkspaceAnalysis,
+} from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Taxonomy, BREAK_CATEGORY } from './taxonomy.js';
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+
+// The category a conversation over a video call becomes, when the taxonomy has it
+const MEETING_CATEGORY = 'meetings';
+
+// Apps and page titles of video calls, as they show up in screen analyses
+const VIDEO_CALL_PATTERN = /\b(zoom|google meet|meet\.google|teams|webex|facetime|huddle|video call|whereby|jitsi)\b/i;
+
+// Focus lost per distraction visible on camera, and at most
+const DISTRACTION_PENALTY = 5;
+const MAX_DISTRACTION_PENALTY = 15;
+
+// Focus lost to talking while the screen shows something other than a call
+const CONVERSATION_PENALTY = 10;
+
+// What each media type's analysis_json holds
+interface AnalysisByType {
+  screen: MediaAnalysis;
+  camera: WorkspaceAnalysis;
+  audio: AudioAnalysis;
+}
+
+interface Window {
+  start: number;
+  screens: Array<{ media: MediaRecord; analysis: MediaAnalysis }>;
+  cameras: Array<{ media: MediaRecord; analysis: WorkspaceAnalysis }>;
+  audioIds: Set<number>;
+}
+
+export class MomentFuser {
+  private db: LifeLogDatabase;
+  private taxonomy: Taxonomy;
+  private windowMs: number;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.db = db;
+    this.taxonomy = new Taxonomy(config);
+    this.windowMs = config.fusion?.windowMs || config.intervals?.screenRecordIntervalMs || DEFAULT_WINDOW_MS;
+  }
+
+  /**
+   * A date's moments in time order. With a version, screens use their
+   * analysis of that version where one exists (the user's reviewed labels
+   * still win). Windows with only a present person on camera say nothing
+   * about the activity and produce no moment.
+   */
+  getMoments(date: string, version?: AnalysisVersion): Moment[] {
+    const media = this.db.getMediaByDate(date);
+    const versioned = version ? this.db.getMediaAnalysesByVersion(date, version) : null;
+    const windows = new Map<number, Window>();
+
+    const windowAt = (time: number): Window => {
+      const start = Math.floor(time / this.windowMs) * this.windowMs;
+      let window = windows.get(start);
+      if (!window) {
+        window = { start, screens: [], cameras: [], audioIds: new Set() };
+        windows.set(start, window);
+      }
+      return window;
+    };
+
+    for (const m of media) {
+      if (!m.analysis_json) continue;
+
+      const time = new Date(m.timestamp).getTime();
+      if (m.type === 'screen') {
+        const current = parseAnalysis('screen', m.analysis_json);
+        const pinned = versioned?.get(m.id!);
+        const analysis = pinned && current && !current.reviewed ? parseAnalysis('screen', pinned) : current;
+        if (analysis) windowAt(time).screens.push({ media: m, analysis });
+      } else if (m.type === 'camera') {
+        const analysis = parseAnalysis('camera', m.analysis_json);
+        if (analysis) windowAt(time).cameras.push({ media: m, analysis });
+      } else if (m.type === 'audio' && !m.parent_id) {
+        const analysis = parseAnalysis('audio', m.analysis_json);
+        if (!analysis) continue;
+        // A conversation marks every window it has speech in
+        for (const [start, end] of this.speechSpans(time, analysis)) {
+          for (let t = start; t < end; t += this.windowMs) {
+            windowAt(t).audioIds.add(m.id!);
+          }
+          windowAt(end).audioIds.add(m.id!);
+        }
+      }
+    }
+
+    return Array.from(windows.values())
+      .sort((a, b) => a.start - b.start)
+      .map(window => this.fuse(window))
+      .filter((moment): moment is Moment => moment !== null);
+  }
+
+  /**
+   * Classify one window from everything captured in it
+   */
+  private fuse(window: Window): Moment | null {
+    const screen = this.combineScreens(window.screens.map(s => s.analysis));
+    const speech = window.audioIds.size > 0;
+    const presence = this.presence(window.cameras.map(c => c.analysis));
+
+    const captures = [...window.screens, ...window.cameras].map(c => new Date(c.media.timestamp).getTime());
+    const start = captures.length > 0 ? Math.min(...captures) : window.start;
+    const base = {
+      start: new Date(start).toISOString(),
+      end: new Date(window.start + this.windowMs).toISOString(),
+      screenIds: window.screens.map(s => s.media.id!),
+      cameraIds: window.cameras.map(c => c.media.id!),
+      audioIds: Array.from(window.audioIds),
+    };
+
+    // The user said what was on screen
+    if (screen?.reviewed) {
+      return { ...base, category: screen.category, focusScore: screen.focusScore, confidence: screen.confidence, description: screen.description };
+    }
+
+    // An empty chair and silence: away, whatever the screen was left showing
+    if (presence === 'absent' && !speech) {
+      return {
+        ...base,
+        category: BREAK_CATEGORY,
+        focusScore: this.taxonomy.focusScore(BREAK_CATEGORY),
+        confidence: 0.8,
+        description: 'Away from desk (camera)',
+        away: true,
+        fusedBy: 'camera',
+      };
+    }
+
+    const penalty = Math.min(MAX_DISTRACTION_PENALTY,
+      DISTRACTION_PENALTY * window.cameras.reduce((n, c) => n + (c.analysis.distractions?.length || 0), 0));
+
+    // Talking over a video call (or with no screen at all) is a meeting
+    if (speech && this.taxonomy.get(MEETING_CATEGORY) && (!screen || this.isVideoCall(screen))) {
+      return {
+        ...base,
+        category: MEETING_CATEGORY,
+        focusScore: Math.max(0, (screen?.focusScore ?? this.taxonomy.focusScore(MEETING_CATEGORY)) - penalty),
+        confidence: screen ? Math.max(screen.confidence, 0.9) : 0.6,
+        description: screen ? `${screen.description} (conversation)` : 'Conversation',
+        fusedBy: screen?.category === MEETING_CATEGORY ? undefined : 'conversation',
+      };
+    }
+
+    if (!screen) return null;
+
+    return {
+      ...base,
+      category: screen.category,
+      focusScore: Math.max(0, screen.focusScore - penalty - (speech ? CONVERSATION_PENALTY : 0)),
+      confidence: screen.confidence,
+      description: screen.description,
+    };
+  }
+
+  /**
+   * One screen reading for the window: the confidence-weighted majority
+   * category, focus averaged over every screen
+   */
+  private combineScreens(analyses: MediaAnalysis[]): {
+    category: ActivityCategory;
+    focusScore: number;
+    confidence: number;
+    description: string;
+    applications: string[];
+    reviewed: boolean;
+  } | null {
+    if (analyses.length === 0) return null;
+
+    const weights: Record<ActivityCategory, number> = {};
+    for (const a of analyses) {
+      const category = this.taxonomy.resolve(a.category);
+      // Fallbacks (confidence 0) still count, just barely
+      weights[category] = (weights[category] || 0) + Math.max(a.confidence, 0.01);
+    }
+    const category = Object.entries(weights).sort((a, b) => b[1] - a[1])[0][0];
+    const agreeing = analyses.filter(a => this.taxonomy.resolve(a.category) === category);
+    const best = agreeing.reduce((top, a) => (a.confidence > top.confidence ? a : top), agreeing[0]);
+
+    return {
+      category,
+      focusScore: Math.round(analyses.reduce((sum, a) => sum + (a.focusScore || 50), 0) / analyses.length),
+      confidence: best.confidence,
+      description: best.description || '',
+      applications: Array.from(new Set(analyses.flatMap(a => a.applications || []))),
+      reviewed: agreeing.some(a => a.reviewed),
+    };
+  }
+
+  private isVideoCall(screen: { category: ActivityCategory; description: string; applications: string[] }): boolean {
+    return screen.category === MEETING_CATEGORY
+      || VIDEO_CALL_PATTERN.test([screen.description, ...screen.applications].join(' '));
+  }
+
+  /**
+   * Whether the camera saw someone; older analyses without personPresent
+   * have a null posture score when nobody was in frame
+   */
+  private presence(analyses: WorkspaceAnalysis[]): 'present' | 'absent' | 'unknown' {
+    let absent = false;
+    for (const a of analyses) {
+      if (a.personPresent === true || (a.personPresent === undefined && typeof a.postureScore === 'number')) {
+        return 'present';
+      }
+      if (a.personPresent === false || a.postureScore === null) {
+        absent = true;
+      }
+    }
+    return absent ? 'absent' : 'unknown';
+  }
+
+  /**
+   * Times with speech in a conversation, as [start, end] ms; the whole
+   * recording when the transcript has no segments
+   */
+  private speechSpans(start: number, analysis: AudioAnalysis): Array<[number, number]> {
+    if (!analysis.transcript?.trim()) return [];
+    if (analysis.segments && analysis.segments.length > 0) {
+      return analysis.segments
+        .filter(s => s.text.trim())
+        .map(s => [start + s.start * 1000, start + s.end * 1000]);
+    }
+    return [[start, start + (analysis.duration || 0) * 1000]];
+  }
+}
+
+/**
+ * A media item's analysis as its type stores it; null for invalid JSON, and
+ * for screens without a category
+ */
+function parseAnalysis<T extends keyof AnalysisByType>(type: T, json: string): AnalysisByType[T] | null {
+  let analysis: unknown;
+  try {
+    analysis = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof analysis !== 'object' || analysis === null) return null;
+  if (type === 'screen' && typeof (analysis as Partial<MediaAnalysis>).category !== 'string') return null;
+  return analysis as AnalysisByType[T];
+}
@@ -5,3 +5,18 @@
 export { Analyzer } from './analyzer.js';
 export { PatternDetector } from './patterns.js';
 export { Summarizer } from './summarizer.js';
+export { FrameExtractor } from './frame-extractor.js';
+export { PerceptualHasher, differenceHash, hammingDistance } from './perceptual-hash.js';
+export { AnalysisQueue } from './analysis-queue.js';
+export type { AnalysisJobHandler } from './analysis-queue.js';
+export { Taxonomy, DEFAULT_CATEGORIES, BREAK_CATEGORY, FALLBACK_CATEGORY } from './taxonomy.js';
+export { RuleEngine, extractUrls } from './rules.js';
+export type { RuleMatch } from './rules.js';
+export { ReviewQueue } from './review.js';
+export { Reanalyzer, formatAnalysisVersion, parseAnalysisVersion } from './versions.js';
+export { Evaluator, scoreEvaluation } from './evaluation.js';
+export { MomentFuser } from './fusion.js';
+export { CorrelationEngine } from './correlations.js';
+export { readFeelings } from './feelings.js';
+export { FocusCurve, WEEKDAYS, weekdayOf } from './focus-curve.js';
+export { Forecaster } from './forecast.js';
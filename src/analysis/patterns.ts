@@ -3,42 +3,83 @@
  * Identifies productivity patterns, peaks, and trends from analyzed data
  */
 
-import { format, parseISO, startOfDay, endOfDay, differenceInMinutes, subDays } from 'date-fns';
+import { format, parseISO, differenceInMinutes, subDays } from 'date-fns';
 import { 
   Config, 
   ActivityCategory, 
   TimeBlock, 
+  RawTimeBlock,
+  CaptureGap,
   DailyPatterns, 
   TrendData,
-  DailySummaryContent 
+  DailySummaryContent,
+  AnalysisVersion,
+  Anomaly,
+  AnomalyMethod,
+  HourlyActivity,
 } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
 import { Analyzer } from './analyzer.js';
-
-const ALL_CATEGORIES: ActivityCategory[] = ['coding', 'meetings', 'browsing', 'social', 'email', 'breaks', 'other'];
+import { MomentFuser } from './fusion.js';
+import { Taxonomy } from './taxonomy.js';
+import { deviationFromBaseline } from './baseline.js';
+
+const DEFAULT_BASELINE_DAYS = 28;
+const DEFAULT_MIN_BASELINE_DAYS = 7;
+
+// Smallest deviation each metric is measured in, so near-constant
+// history doesn't turn small changes into anomalies
+const MIN_SPREAD: Record<Anomaly['metric'], number> = {
+  focusScore: 5,
+  deepWorkMinutes: 15,
+  contextSwitches: 2,
+  categoryMinutes: 10,
+  hourMinutes: 10,
+  hourFocusScore: 5,
+};
+
+// Hours with less tracked time than this have no meaningful focus score
+const MIN_HOUR_MINUTES_FOR_FOCUS = 15;
 
 export class PatternDetector {
   private config: Config;
   private db: LifeLogDatabase;
   private analyzer: Analyzer;
+  private fuser: MomentFuser;
+  private taxonomy: Taxonomy;
+  private days: DayBoundary;
+  private anomalyMethod: AnomalyMethod;
+  private anomalyThreshold: number;
 
   constructor(config: Config, db: LifeLogDatabase) {
     this.config = config;
     this.db = db;
     this.analyzer = new Analyzer(config, db);
+    this.fuser = new MomentFuser(config, db);
+    this.taxonomy = new Taxonomy(config);
+    this.days = new DayBoundary(config);
+    this.anomalyMethod = config.anomalies?.method || 'mad';
+    this.anomalyThreshold = config.anomalies?.threshold ?? (this.anomalyMethod === 'zscore' ? 3 : 3.5);
   }
 
   /**
-   * Detect patterns for a single day
+   * Detect patterns for a single day, optionally from one analysis version's screens
    */
-  async detectDailyPatterns(date: string): Promise<DailyPatterns> {
+  async detectDailyPatterns(date: string, version?: AnalysisVersion): Promise<DailyPatterns> {
     console.log(`📊 Detecting patterns for ${date}...`);
 
-    // Get time blocks from analyzed media
-    const rawBlocks = await this.analyzer.getTimeBlocks(date);
+    // Screen, camera and audio captured together become one moment each
+    const moments = this.fuser.getMoments(date, version);
+
+    // Get time blocks from tracked activity and those moments
+    const rawBlocks = await this.analyzer.getTimeBlocks(date, moments);
+
+    // Paused capture is a known gap, so blocks must not run into it
+    const captureGaps = this.analyzer.getCaptureGaps(date);
     
     // Convert to TimeBlock format with durations
-    const timeBlocks = this.calculateTimeBlocks(rawBlocks, date);
+    const timeBlocks = this.calculateTimeBlocks(rawBlocks, date, captureGaps);
     
     // Calculate category breakdown
     const categoryBreakdown = this.calculateCategoryBreakdown(timeBlocks);
@@ -46,7 +87,7 @@ export class PatternDetector {
     // Find peak productivity hours
     const peakProductivityHours = this.findPeakProductivityHours(timeBlocks);
     
-    // Count deep work sessions (>30min of focused coding/work)
+    // Count deep work sessions (>30min of focused deep-work categories)
     const deepWorkSessions = this.countDeepWorkSessions(timeBlocks);
     
     // Calculate total deep work minutes
@@ -57,12 +98,15 @@ export class PatternDetector {
     // Count context switches
     const contextSwitches = this.countContextSwitches(timeBlocks);
     
-    // Calculate average focus score
-    const focusScore = timeBlocks.length > 0
-      ? Math.round(timeBlocks.reduce((sum, b) => sum + (b.focusScore || 50), 0) / timeBlocks.length)
+    // Calculate average focus score (away time says nothing about focus)
+    const activeBlocks = timeBlocks.filter(b => !b.away);
+    const focusScore = activeBlocks.length > 0
+      ? Math.round(activeBlocks.reduce((sum, b) => sum + (b.focusScore || 50), 0) / activeBlocks.length)
       : 50;
 
-    return {
+    const hourlyActivity = this.calculateHourlyActivity(timeBlocks);
+
+    const patterns = {
       date,
       timeBlocks,
       categoryBreakdown,
@@ -71,15 +115,136 @@ export class PatternDetector {
       deepWorkMinutes,
       contextSwitches,
       focusScore,
+      captureGaps,
+      hourlyActivity,
+    };
+
+    return { ...patterns, anomalies: this.detectAnomalies(patterns) };
+  }
+
+  /**
+   * Tracked minutes and focus per hour of the day; blocks count in every hour they overlap
+   */
+  private calculateHourlyActivity(timeBlocks: TimeBlock[]): Record<number, HourlyActivity> {
+    const hours: Record<number, { minutes: number; weightedFocus: number }> = {};
+
+    for (const block of timeBlocks) {
+      if (block.away) continue;
+      for (const { hour, minutes } of this.days.splitByHour(block.startTime, block.endTime)) {
+        hours[hour] = hours[hour] || { minutes: 0, weightedFocus: 0 };
+        hours[hour].minutes += minutes;
+        hours[hour].weightedFocus += (block.focusScore || 50) * minutes;
+      }
+    }
+
+    return Object.fromEntries(Object.entries(hours).map(([hour, h]) => [
+      hour,
+      { minutes: Math.round(h.minutes * 10) / 10, focusScore: h.minutes > 0 ? Math.round(h.weightedFocus / h.minutes) : 50 },
+    ]));
+  }
+
+  /**
+   * Compare a day's metrics, per-category minutes and hours with the same
+   * measures over the summaries of the days before it. Until the day is over,
+   * running totals being low says nothing, so only highs are flagged.
+   */
+  private detectAnomalies(patterns: Omit<DailyPatterns, 'anomalies'>): Anomaly[] {
+    const history = this.loadBaselineSummaries(patterns.date);
+    const minDays = this.config.anomalies?.minBaselineDays ?? DEFAULT_MIN_BASELINE_DAYS;
+    if (history.length < Math.max(1, minDays)) return [];
+
+    const inProgress = patterns.date >= this.days.today();
+    const anomalies: Anomaly[] = [];
+
+    const check = (
+      metric: Anomaly['metric'],
+      value: number,
+      values: number[],
+      describe: (baseline: number) => string,
+      extra: Pick<Anomaly, 'category' | 'hour'> = {}
+    ) => {
+      const deviation = deviationFromBaseline(value, values, this.anomalyMethod, MIN_SPREAD[metric]);
+      if (!deviation || Math.abs(deviation.score) < this.anomalyThreshold) return;
+      if (inProgress && deviation.score < 0 && metric !== 'focusScore' && metric !== 'hourFocusScore') return;
+      anomalies.push({
+        date: patterns.date,
+        metric,
+        ...extra,
+        value,
+        baseline: Math.round(deviation.baseline),
+        score: Math.round(deviation.score * 10) / 10,
+        description: describe(Math.round(deviation.baseline)),
+      });
     };
+
+    check('focusScore', patterns.focusScore, history.map(s => s.focusScore),
+      usual => `Focus score ${patterns.focusScore}, usually ${usual}`);
+    check('deepWorkMinutes', patterns.deepWorkMinutes, history.map(s => s.deepWorkMinutes),
+      usual => `Deep work ${patterns.deepWorkMinutes}min, usually ${usual}min`);
+    check('contextSwitches', patterns.contextSwitches, history.map(s => s.contextSwitches),
+      usual => `${patterns.contextSwitches} context switches, usually ${usual}`);
+
+    for (const category of this.taxonomy.ids()) {
+      const minutes = patterns.categoryBreakdown[category] || 0;
+      // Summaries from an older taxonomy count unknown categories as other
+      const values = history.map(s => Object.entries(s.categoryBreakdown)
+        .filter(([cat]) => this.taxonomy.resolve(cat) === category)
+        .reduce((sum, [, m]) => sum + (m || 0), 0));
+      check('categoryMinutes', minutes, values,
+        usual => `${this.taxonomy.label(category)} ${minutes}min, usually ${usual}min`, { category });
+    }
+
+    // Only summaries that recorded their hours can say what an hour is usually like
+    const hourly = history.filter(s => s.hourlyActivity).map(s => s.hourlyActivity!);
+    if (hourly.length >= Math.max(1, minDays)) {
+      for (let hour = 0; hour < 24; hour++) {
+        const label = `${hour.toString().padStart(2, '0')}:00-${((hour + 1) % 24).toString().padStart(2, '0')}:00`;
+        const today = patterns.hourlyActivity[hour];
+        check('hourMinutes', today?.minutes || 0, hourly.map(h => h[hour]?.minutes || 0),
+          usual => `${today?.minutes || 0}min tracked during ${label}, usually ${usual}min`, { hour });
+
+        if (today && today.minutes >= MIN_HOUR_MINUTES_FOR_FOCUS) {
+          const focused = hourly
+            .filter(h => (h[hour]?.minutes || 0) >= MIN_HOUR_MINUTES_FOR_FOCUS)
+            .map(h => h[hour].focusScore);
+          if (focused.length >= Math.max(1, minDays)) {
+            check('hourFocusScore', today.focusScore, focused,
+              usual => `Focus ${today.focusScore} during ${label}, usually ${usual}`, { hour });
+          }
+        }
+      }
+    }
+
+    return anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+  }
+
+  /**
+   * Summaries of the baseline days before a date, most recent first
+   */
+  private loadBaselineSummaries(date: string): DailySummaryContent[] {
+    const days = this.config.anomalies?.baselineDays ?? DEFAULT_BASELINE_DAYS;
+    const summaries: DailySummaryContent[] = [];
+
+    for (let i = 1; i <= days; i++) {
+      const summary = this.db.getSummary(format(subDays(parseISO(date), i), 'yyyy-MM-dd'));
+      if (!summary) continue;
+      try {
+        summaries.push(JSON.parse(summary.content_json));
+      } catch {
+        // Skip invalid summaries
+      }
+    }
+
+    return summaries;
   }
 
   /**
    * Convert raw time points into blocks with durations
    */
   private calculateTimeBlocks(
-    rawBlocks: Array<{ timestamp: string; category: ActivityCategory; focusScore: number; description: string }>,
-    date: string
+    rawBlocks: RawTimeBlock[],
+    date: string,
+    captureGaps: CaptureGap[] = []
   ): TimeBlock[] {
     if (rawBlocks.length === 0) return [];
 
@@ -95,6 +260,27 @@ export class PatternDetector {
       const next = rawBlocks[i + 1];
       
       const startTime = current.timestamp;
+
+      // Tracked spans (window tracker) already know how long they lasted;
+      // sub-minute spans are quick switches and don't form a block
+      if (current.durationMinutes !== undefined) {
+        const trackedMinutes = Math.round(current.durationMinutes);
+        if (trackedMinutes > 0) {
+          timeBlocks.push({
+            startTime,
+            endTime: new Date(new Date(startTime).getTime() + trackedMinutes * 60000).toISOString(),
+            category: current.category,
+            durationMinutes: trackedMinutes,
+            focusScore: current.focusScore,
+            isDeepWork: this.isDeepWorkBlock(current.category, current.focusScore, trackedMinutes),
+            app: current.app,
+            title: current.title,
+            away: current.away,
+          });
+        }
+        continue;
+      }
+
       // If there's a next block, duration is until that; otherwise estimate 5 minutes
       const endTime = next?.timestamp || new Date(new Date(startTime).getTime() + MIN_DURATION * 60000).toISOString();
       
@@ -103,12 +289,18 @@ export class PatternDetector {
       // Apply min/max caps
       durationMinutes = Math.max(durationMinutes, MIN_DURATION); // Minimum 5 minutes per entry
       durationMinutes = Math.min(durationMinutes, MAX_DURATION); // Cap at 60 minutes
+
+      // End the block where a capture pause begins
+      const start = new Date(startTime).getTime();
+      const nextGap = captureGaps
+        .map(g => new Date(g.startTime).getTime())
+        .filter(gapStart => gapStart > start)
+        .sort((a, b) => a - b)[0];
+      if (nextGap !== undefined) {
+        durationMinutes = Math.min(durationMinutes, Math.max(1, Math.floor((nextGap - start) / 60000)));
+      }
       
-      // Determine if this is deep work (focused coding/work for significant duration)
-      const isDeepWork = 
-        ['coding', 'meetings'].includes(current.category) &&
-        (current.focusScore || 50) >= 60 &&
-        durationMinutes >= 15; // At least 15 min for a meaningful block
+      const isDeepWork = this.isDeepWorkBlock(current.category, current.focusScore, durationMinutes);
       
       timeBlocks.push({
         startTime,
@@ -117,28 +309,31 @@ export class PatternDetector {
         durationMinutes,
         focusScore: current.focusScore,
         isDeepWork,
+        away: current.away,
       });
     }
 
     return timeBlocks;
   }
 
+  /**
+   * Determine if a block is deep work (focused deep-work category for significant duration)
+   */
+  private isDeepWorkBlock(category: ActivityCategory, focusScore: number | undefined, durationMinutes: number): boolean {
+    return this.taxonomy.isDeepWork(category) &&
+      (focusScore || 50) >= 60 &&
+      durationMinutes >= 15; // At least 15 min for a meaningful block
+  }
+
   /**
    * Calculate time spent per category
    */
   private calculateCategoryBreakdown(timeBlocks: TimeBlock[]): Record<ActivityCategory, number> {
-    const breakdown: Record<ActivityCategory, number> = {
-      coding: 0,
-      meetings: 0,
-      browsing: 0,
-      social: 0,
-      email: 0,
-      breaks: 0,
-      other: 0,
-    };
+    const breakdown = this.taxonomy.emptyBreakdown();
 
     for (const block of timeBlocks) {
-      breakdown[block.category] += block.durationMinutes;
+      const category = this.taxonomy.resolve(block.category);
+      breakdown[category] += block.durationMinutes;
     }
 
     return breakdown;
@@ -152,20 +347,14 @@ export class PatternDetector {
     const hourlyScores: Record<number, { totalScore: number; count: number }> = {};
     
     for (const block of timeBlocks) {
-      const hour = new Date(block.startTime).getHours();
+      const hour = this.days.hourOf(block.startTime);
       if (!hourlyScores[hour]) {
         hourlyScores[hour] = { totalScore: 0, count: 0 };
       }
       
-      // Score is higher for coding/meetings with good focus
-      const productivityWeight = 
-        block.category === 'coding' ? 1.5 :
-        block.category === 'meetings' ? 1.0 :
-        block.category === 'email' ? 0.8 :
-        block.category === 'browsing' ? 0.5 :
-        block.category === 'social' ? 0.3 :
-        0.2;
-      
+      // Score is higher for deep-work categories with good focus
+      const productivityWeight = this.taxonomy.productivityWeight(block.category);
+
       const score = (block.focusScore || 50) * productivityWeight;
       hourlyScores[hour].totalScore += score * block.durationMinutes;
       hourlyScores[hour].count += block.durationMinutes;
@@ -200,7 +389,7 @@ export class PatternDetector {
     
     for (const block of timeBlocks) {
       // Check if this continues a deep work session
-      const isProductiveCategory = ['coding', 'meetings'].includes(block.category);
+      const isProductiveCategory = this.taxonomy.isDeepWork(block.category);
       const isFocused = (block.focusScore || 50) >= 60;
       
       if (isProductiveCategory && isFocused && 
@@ -246,7 +435,7 @@ export class PatternDetector {
    * Detect trends over multiple days
    */
   async detectTrends(days: number = 7): Promise<TrendData> {
-    const endDate = new Date();
+    const endDate = parseISO(this.days.today());
     const summaries: DailySummaryContent[] = [];
     
     // Load existing summaries for trend analysis
@@ -276,13 +465,12 @@ export class PatternDetector {
     );
 
     // Aggregate category trends
-    const categoryTrends: Record<ActivityCategory, number> = {
-      coding: 0, meetings: 0, browsing: 0, social: 0, email: 0, breaks: 0, other: 0,
-    };
+    const categoryTrends = this.taxonomy.emptyBreakdown();
     
     for (const summary of summaries) {
-      for (const cat of ALL_CATEGORIES) {
-        categoryTrends[cat] += (summary.categoryBreakdown[cat] || 0) / summaries.length;
+      // Summaries from an older taxonomy count unknown categories as other
+      for (const [cat, minutes] of Object.entries(summary.categoryBreakdown)) {
+        categoryTrends[this.taxonomy.resolve(cat)] += (minutes || 0) / summaries.length;
       }
     }
 
@@ -329,14 +517,16 @@ export class PatternDetector {
     }
 
     // Check category balance
-    const codingRatio = categoryTrends.coding / (Object.values(categoryTrends).reduce((a, b) => a + b, 1));
-    const socialRatio = categoryTrends.social / (Object.values(categoryTrends).reduce((a, b) => a + b, 1));
-    
-    if (codingRatio > 0.5) {
-      improvements.push(`Strong coding focus: ${Math.round(codingRatio * 100)}% of tracked time`);
-    }
-    if (socialRatio > 0.2) {
-      concerns.push(`High social media time: ${Math.round(socialRatio * 100)}% of tracked time`);
+    const totalTrend = Object.values(categoryTrends).reduce((a, b) => a + b, 1);
+    for (const [cat, minutes] of Object.entries(categoryTrends)) {
+      const ratio = minutes / totalTrend;
+      const label = this.taxonomy.label(cat).toLowerCase();
+      if (this.taxonomy.isDeepWork(cat) && ratio > 0.5) {
+        improvements.push(`Strong ${label} focus: ${Math.round(ratio * 100)}% of tracked time`);
+      }
+      if (this.taxonomy.isDistracting(cat) && ratio > 0.2) {
+        concerns.push(`High ${label} time: ${Math.round(ratio * 100)}% of tracked time`);
+      }
     }
 
     return {
@@ -348,6 +538,7 @@ export class PatternDetector {
       productivityByHour,
       improvements,
       concerns,
+      anomalies: summaries.flatMap(s => s.anomalies || []),
     };
   }
 
@@ -359,11 +550,12 @@ export class PatternDetector {
       period: `Last ${days} days`,
       avgDailyFocusScore: 0,
       avgDeepWorkMinutes: 0,
-      categoryTrends: { coding: 0, meetings: 0, browsing: 0, social: 0, email: 0, breaks: 0, other: 0 },
+      categoryTrends: this.taxonomy.emptyBreakdown(),
       productivityByDayOfWeek: {},
       productivityByHour: {},
       improvements: [],
       concerns: ['No data available for trend analysis'],
+      anomalies: [],
     };
   }
 
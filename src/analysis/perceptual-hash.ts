@@ -0,0 +1,89 @@
+/**
+ * Perceptual Hashing
+ * Difference hashes (dHash) for spotting near-identical screen captures
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Config } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+// dHash compares each pixel to its right neighbour on a 9x8 grayscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * 64-bit difference hash as 16 hex chars, from 9x8 grayscale pixels (row-major)
+ */
+export function differenceHash(pixels: Uint8Array): string {
+  if (pixels.length < HASH_WIDTH * HASH_HEIGHT) {
+    throw new Error(`Expected ${HASH_WIDTH * HASH_HEIGHT} pixels, got ${pixels.length}`);
+  }
+
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bits++;
+      if (bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Hashes must be the same length');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export class PerceptualHasher {
+  private ffmpeg: string;
+
+  constructor(config: Config) {
+    this.ffmpeg = config.frames?.ffmpegBinary || 'ffmpeg';
+  }
+
+  /**
+   * Hash an image (a screenshot or a recording's keyframe; recordings are
+   * hashed frame by frame). Returns null if the file can't be decoded
+   * (e.g. ffmpeg missing), in which case no dedup happens.
+   */
+  async hash(filePath: string): Promise<string | null> {
+    try {
+      const { stdout } = await execAsync(
+        `${this.ffmpeg} -loglevel error -i "${filePath}" -frames:v 1 ` +
+        `-vf scale=${HASH_WIDTH}:${HASH_HEIGHT},format=gray -f rawvideo -`,
+        { encoding: 'buffer', timeout: 30000 }
+      );
+      return differenceHash(new Uint8Array(stdout));
+    } catch (error: any) {
+      console.warn(`⚠️ Could not hash ${filePath}: ${error?.message || error}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Classification Review
+ * Lists low-confidence screen classifications and applies the user's
+ * confirmations and corrections, which become few-shot examples
+ */
+
+import { Config, MediaAnalysis, MediaRecord, ReviewItem, ActivityCategory } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
+import { Summarizer } from './summarizer.js';
+import { Taxonomy } from './taxonomy.js';
+
+const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+export class ReviewQueue {
+  readonly threshold: number;
+  private db: LifeLogDatabase;
+  private taxonomy: Taxonomy;
+  private summarizer: Summarizer;
+  private days: DayBoundary;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.db = db;
+    this.threshold = config.review?.threshold ?? DEFAULT_REVIEW_THRESHOLD;
+    this.taxonomy = new Taxonomy(config);
+    this.summarizer = new Summarizer(config, db);
+    this.days = new DayBoundary(config);
+  }
+
+  /**
+   * Unreviewed screen classifications below the threshold, oldest first.
+   * Fallbacks (errors) have nothing to review, and near-duplicates follow
+   * the capture they were copied from.
+   */
+  list(dates: string[], threshold: number = this.threshold): ReviewItem[] {
+    const items: ReviewItem[] = [];
+
+    for (const date of dates) {
+      for (const m of this.db.getMediaByDate(date)) {
+        const analysis = this.parseScreenAnalysis(m);
+        if (!analysis || analysis.reviewed || !analysis.source || analysis.dedupedFrom !== undefined) continue;
+        if (analysis.confidence >= threshold) continue;
+
+        items.push({
+          mediaId: m.id!,
+          timestamp: m.timestamp,
+          category: analysis.category,
+          confidence: analysis.confidence,
+          description: analysis.description,
+          applications: analysis.applications,
+          source: analysis.source,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Mark classifications as correct. Categories don't change, so summaries stand.
+   */
+  confirm(mediaIds: number[]): number {
+    return this.label(mediaIds, null).length;
+  }
+
+  /**
+   * Relabel classifications, then regenerate the summaries of the days they
+   * belong to (days without a summary yet are left for the normal run)
+   */
+  async relabel(mediaIds: number[], category: ActivityCategory): Promise<{ updated: number; resummarized: string[] }> {
+    if (!this.taxonomy.get(category)) {
+      throw new Error(`Unknown category: ${category}. Must be one of: ${this.taxonomy.ids().join(', ')}`);
+    }
+
+    const labeled = this.label(mediaIds, category);
+    const dates = Array.from(new Set(labeled.map(m => this.days.dateOf(m.timestamp)))).sort();
+    const resummarized: string[] = [];
+
+    for (const date of dates) {
+      if (!this.db.getSummary(date)) continue;
+      await this.summarizer.generateSummary(date);
+      resummarized.push(date);
+    }
+
+    return { updated: labeled.length, resummarized };
+  }
+
+  /**
+   * Apply a label (null confirms the current one) and save it as an example.
+   * Returns the media that were labeled.
+   */
+  private label(mediaIds: number[], category: ActivityCategory | null): MediaRecord[] {
+    const labeled: MediaRecord[] = [];
+    const now = new Date().toISOString();
+
+    for (const id of mediaIds) {
+      const media = this.db.getMediaById(id);
+      const analysis = media && this.parseScreenAnalysis(media);
+      if (!media || !analysis) {
+        console.warn(`⚠️ No screen classification for media #${id}`);
+        continue;
+      }
+
+      const predicted = analysis.correctedFrom ?? analysis.category;
+      const updated = this.applyLabel(analysis, category ?? analysis.category);
+      this.db.updateMediaAnalysis(id, JSON.stringify(updated));
+      this.db.upsertClassificationExample({
+        media_id: id,
+        description: analysis.description,
+        applications: analysis.applications,
+        predicted_category: predicted,
+        category: updated.category,
+        created_at: now,
+      });
+      labeled.push(media);
+
+      // Near-duplicates copied this analysis, so they take the same label
+      for (const follower of this.db.getMediaByDate(this.days.dateOf(media.timestamp))) {
+        const copied = this.parseScreenAnalysis(follower);
+        if (copied?.dedupedFrom === id && !copied.reviewed) {
+          this.db.updateMediaAnalysis(follower.id!, JSON.stringify(this.applyLabel(copied, updated.category)));
+        }
+      }
+    }
+
+    return labeled;
+  }
+
+  private applyLabel(analysis: MediaAnalysis, category: ActivityCategory): MediaAnalysis {
+    const original = analysis.correctedFrom ?? analysis.category;
+    const { correctedFrom, ...rest } = analysis;
+    return {
+      ...rest,
+      category,
+      confidence: 1,
+      reviewed: true,
+      source: 'user',
+      ...(category !== original ? { correctedFrom: original } : {}),
+    };
+  }
+
+  private parseScreenAnalysis(media: MediaRecord): MediaAnalysis | null {
+    if (media.type !== 'screen' || !media.analysis_json) return null;
+    try {
+      return JSON.parse(media.analysis_json) as MediaAnalysis;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Classification Rule Tests
+ *
+ * Run with: npx ts-node src/analysis/rules.test.ts
+ * Or: node --loader ts-node/esm src/analysis/rules.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RuleEngine, extractUrls } from './rules.js';
+import { Taxonomy } from './taxonomy.js';
+import { test, assertEqual, assertThrows, createTestConfig, summary } from '../test-utils.js';
+
+function engineFor(rules: unknown, raw?: string): RuleEngine {
+  const config = createTestConfig();
+  fs.writeFileSync(config.rules!.path!, raw ?? JSON.stringify(rules));
+  return new RuleEngine(config, new Taxonomy(config));
+}
+
+// The rules shipped with the repo, wherever the test is run from
+const shippedConfig = createTestConfig({
+  rules: { path: path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../rules.json') },
+});
+const shipped = new RuleEngine(shippedConfig, new Taxonomy(shippedConfig));
+
+function ruleFor(app: string, title: string = ''): string | null {
+  return shipped.match({ app, title })?.ruleId ?? null;
+}
+
+// ==================== PRIORITY TESTS ====================
+
+console.log('\n🧪 Classification Rule Tests\n');
+
+await test('higher priority wins, then file order', async () => {
+  const engine = engineFor([
+    { id: 'first', category: 'coding', app: 'chrome' },
+    { id: 'second', category: 'browsing', app: 'chrome' },
+    { id: 'urgent', category: 'meetings', app: 'chrome', url: 'zoom\\.us', priority: 5 },
+  ]);
+
+  assertEqual(engine.match({ app: 'Chrome', title: 'zoom.us/j/1' })?.ruleId, 'urgent');
+  assertEqual(engine.match({ app: 'Chrome', title: 'Docs' })?.ruleId, 'first');
+});
+
+await test('defaults: id, confidence and the category focus score', async () => {
+  const engine = engineFor([{ category: 'coding', app: '^code$' }]);
+  const match = engine.match({ app: 'Code', title: 'index.ts' });
+
+  assertEqual(match?.ruleId, 'rule-1');
+  assertEqual(match?.confidence, 0.9);
+  assertEqual(match?.focusScore, new Taxonomy(createTestConfig()).focusScore('coding'));
+});
+
+// ==================== MATCHING TESTS ====================
+
+await test('all URLs in a title are candidates, without their scheme', async () => {
+  assertEqual(extractUrls('notes.txt - https://github.com/a/b/pull/1 - Chrome').join(' '), 'notes.txt github.com/a/b/pull/1');
+  assertEqual(ruleFor('Google Chrome', 'report.pdf and https://github.com/acme/app/pull/7'), 'code-hosting');
+  assertEqual(ruleFor('Safari', 'Standup - meet.google.com/abc-defg-hij'), 'video-call-urls');
+});
+
+await test('domains only match whole host names', async () => {
+  assertEqual(ruleFor('Firefox', 'x.com/home'), 'social-sites');
+  assertEqual(ruleFor('Firefox', 'mobile.x.com'), 'social-sites');
+  assertEqual(ruleFor('Firefox', 'netflix.com/browse'), null);
+  assertEqual(ruleFor('Firefox', 'box.com/files'), null);
+  assertEqual(ruleFor('Firefox', 'x.company.io'), null);
+});
+
+await test('app names only match whole names', async () => {
+  assertEqual(ruleFor('Code', 'index.ts'), 'editors');
+  assertEqual(ruleFor('IntelliJ IDEA', 'Main.java'), 'editors');
+  assertEqual(ruleFor('Vivaldi', 'News'), null);
+  assertEqual(ruleFor('Codecademy', 'Lesson 3'), null);
+  assertEqual(ruleFor('Xcode Helper', ''), null);
+});
+
+// ==================== CONFIG TESTS ====================
+
+await test('invalid rules files are rejected with the rule at fault', async () => {
+  await assertThrows(() => engineFor(null, '{ not json'), /Could not read classification rules/);
+  await assertThrows(() => engineFor({ category: 'coding', app: 'code' }), /must be a JSON array/);
+  await assertThrows(() => engineFor([{ id: 'games', category: 'gaming', app: 'steam' }]), /Rule games .*unknown category "gaming"/);
+  await assertThrows(() => engineFor([{ category: 'coding' }]), /Rule rule-1 .*needs an app, title or url pattern/);
+  await assertThrows(() => engineFor([{ category: 'coding', title: '(unclosed' }]), /Rule rule-1 .*invalid title pattern/);
+});
+
+await test('no rules file means no rules', async () => {
+  const config = createTestConfig();
+  assertEqual(new RuleEngine(config, new Taxonomy(config)).match({ app: 'Code', title: '' }), null);
+});
+
+// ==================== SUMMARY ====================
+
+summary();
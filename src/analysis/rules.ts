@@ -0,0 +1,124 @@
+/**
+ * Rule-Based Classifier
+ * Ordered regex rules on app name, window title and URL, tried before any model call
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Config, ActiveWindow, ActivityCategory, ClassificationRule } from '../types/index.js';
+import { Taxonomy } from './taxonomy.js';
+
+const DEFAULT_CONFIDENCE = 0.9;
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+// URLs or bare domains in a browser window title, e.g. "zoom.us/j/123 - Chrome"
+const URL_PATTERN = /\b(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s]*)?/gi;
+
+export interface RuleMatch {
+  ruleId: string;
+  category: ActivityCategory;
+  confidence: number;
+  focusScore: number;
+}
+
+interface CompiledRule {
+  id: string;
+  rule: ClassificationRule;
+  app?: RegExp;
+  title?: RegExp;
+  url?: RegExp;
+}
+
+export class RuleEngine {
+  readonly minConfidence: number;
+  private taxonomy: Taxonomy;
+  private rules: CompiledRule[];
+
+  constructor(config: Config, taxonomy: Taxonomy) {
+    this.taxonomy = taxonomy;
+    this.minConfidence = config.rules?.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+    const rulesPath = config.rules?.path || path.join(process.cwd(), 'rules.json');
+    this.rules = fs.existsSync(rulesPath) ? this.compile(this.load(rulesPath), rulesPath) : [];
+  }
+
+  /**
+   * First rule, by priority then file order, whose patterns all match. A url
+   * pattern matches when any URL in the title does.
+   */
+  match(window: ActiveWindow): RuleMatch | null {
+    const urls = extractUrls(window.title);
+
+    for (const compiled of this.rules) {
+      if (compiled.app && !compiled.app.test(window.app)) continue;
+      if (compiled.title && !compiled.title.test(window.title)) continue;
+      if (compiled.url && !urls.some(url => compiled.url!.test(url))) continue;
+
+      const { rule } = compiled;
+      return {
+        ruleId: compiled.id,
+        category: rule.category,
+        confidence: rule.confidence ?? DEFAULT_CONFIDENCE,
+        focusScore: rule.focusScore ?? this.taxonomy.focusScore(rule.category),
+      };
+    }
+
+    return null;
+  }
+
+  private load(rulesPath: string): ClassificationRule[] {
+    let rules: unknown;
+    try {
+      rules = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Could not read classification rules from ${rulesPath}: ${error?.message || error}`);
+    }
+    if (!Array.isArray(rules)) {
+      throw new Error(`Classification rules in ${rulesPath} must be a JSON array`);
+    }
+    return rules as ClassificationRule[];
+  }
+
+  private compile(rules: ClassificationRule[], rulesPath: string): CompiledRule[] {
+    const compiled = rules.map((rule, index) => {
+      const id = rule.id || `rule-${index + 1}`;
+      if (!this.taxonomy.get(rule.category)) {
+        throw new Error(`Rule ${id} in ${rulesPath}: unknown category "${rule.category}"`);
+      }
+      if (!rule.app && !rule.title && !rule.url) {
+        throw new Error(`Rule ${id} in ${rulesPath} needs an app, title or url pattern`);
+      }
+
+      const toRegExp = (pattern: string | undefined, field: string): RegExp | undefined => {
+        if (!pattern) return undefined;
+        try {
+          return new RegExp(pattern, 'i');
+        } catch (error: any) {
+          throw new Error(`Rule ${id} in ${rulesPath}: invalid ${field} pattern: ${error?.message || error}`);
+        }
+      };
+
+      return {
+        id,
+        rule,
+        app: toRegExp(rule.app, 'app'),
+        title: toRegExp(rule.title, 'title'),
+        url: toRegExp(rule.url, 'url'),
+        index,
+      };
+    });
+
+    // Stable: equal priorities keep file order
+    return compiled
+      .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+      .map(({ index, ...rule }) => rule);
+  }
+}
+
+/**
+ * URLs and domains shown in a window title, without their scheme, so a
+ * pattern can anchor on the host: (^|\.)x\.com(/|$)
+ */
+export function extractUrls(title: string): string[] {
+  return (title.match(URL_PATTERN) || []).map(url => url.replace(/^https?:\/\//i, ''));
+}
@@ -9,40 +9,60 @@ import { format, parseISO, subDays } from 'date-fns';
 import {
   Config,
   DailySummaryContent,
-  ActivityCategory,
+  CaptureGap,
 } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
 import { Analyzer } from './analyzer.js';
 import { PatternDetector } from './patterns.js';
+import { Taxonomy, BREAK_CATEGORY } from './taxonomy.js';
+import { parseAnalysisVersion } from './versions.js';
+
+// Anomalies beyond these are in the summary data but not the insights
+const MAX_ANOMALY_INSIGHTS = 3;
 
 export class Summarizer {
   private config: Config;
   private db: LifeLogDatabase;
   private analyzer: Analyzer;
   private patterns: PatternDetector;
+  private taxonomy: Taxonomy;
+  private days: DayBoundary;
 
   constructor(config: Config, db: LifeLogDatabase) {
     this.config = config;
     this.db = db;
     this.analyzer = new Analyzer(config, db);
     this.patterns = new PatternDetector(config, db);
+    this.taxonomy = new Taxonomy(config);
+    this.days = new DayBoundary(config);
   }
 
   /**
-   * Generate a daily summary for the given date
+   * Generate a daily summary for the given date. `analysisVersion` pins the
+   * summary to that version's screen analyses (null unpins); when omitted,
+   * an existing summary's pin is kept.
    */
-  async generateSummary(date: string): Promise<DailySummaryContent> {
+  async generateSummary(date: string, options: { analysisVersion?: string | null } = {}): Promise<DailySummaryContent> {
     console.log(`📝 Generating summary for ${date}...`);
 
+    const analysisVersion = options.analysisVersion !== undefined
+      ? options.analysisVersion
+      : this.db.getSummary(date)?.analysis_version || null;
+    const version = analysisVersion ? parseAnalysisVersion(analysisVersion) : undefined;
+    if (version && options.analysisVersion && this.db.getMediaAnalysesByVersion(date, version).size === 0) {
+      throw new Error(`No analyses of version ${analysisVersion} for ${date}`);
+    }
+
     // First, ensure analysis is complete
     await this.analyzer.analyzeDate(date);
 
     // Get patterns for the day
-    const dailyPatterns = await this.patterns.detectDailyPatterns(date);
+    const dailyPatterns = await this.patterns.detectDailyPatterns(date, version);
 
     // Get check-ins
     const checkIns = this.db.getCheckInsByDate(date);
-    const checkInMessages = checkIns.map(c => `[${format(parseISO(c.timestamp), 'HH:mm')}] ${c.message}`);
+    const checkInMessages = checkIns.map(c => `[${this.days.formatTime(c.timestamp)}] ${c.message}`);
 
     // Generate insights
     const insights = this.generateInsights(dailyPatterns);
@@ -59,8 +79,14 @@ export class Summarizer {
       date,
       generatedAt: new Date().toISOString(),
       
-      totalTrackedMinutes: dailyPatterns.timeBlocks.reduce((sum, b) => sum + b.durationMinutes, 0),
+      // Away time shows up as breaks but isn't tracked activity
+      totalTrackedMinutes: dailyPatterns.timeBlocks
+        .filter(b => !b.away)
+        .reduce((sum, b) => sum + b.durationMinutes, 0),
       categoryBreakdown: dailyPatterns.categoryBreakdown,
+      groupBreakdown: this.taxonomy.groupBreakdown(dailyPatterns.categoryBreakdown),
+      categories: this.taxonomy.info(),
+      analysisVersion: analysisVersion || undefined,
       
       focusScore: dailyPatterns.focusScore,
       deepWorkSessions: dailyPatterns.deepWorkSessions,
@@ -72,14 +98,20 @@ export class Summarizer {
       recommendations,
       
       comparison: comparison.productivityChange !== 'N/A' ? comparison : undefined,
+
+      hourlyActivity: dailyPatterns.hourlyActivity,
+      anomalies: dailyPatterns.anomalies.length > 0 ? dailyPatterns.anomalies : undefined,
       
       checkIns: checkInMessages,
+
+      captureGaps: dailyPatterns.captureGaps.length > 0 ? dailyPatterns.captureGaps : undefined,
     };
 
     // Save to SQLite
     this.db.upsertSummary({
       date,
       content_json: JSON.stringify(summary),
+      analysis_version: analysisVersion,
     });
 
     // Save to markdown file
@@ -111,19 +143,22 @@ export class Summarizer {
     // Category breakdown insights
     const totalMinutes = Object.values(patterns.categoryBreakdown).reduce((a, b) => a + b, 0);
     if (totalMinutes > 0) {
-      const codingPct = Math.round((patterns.categoryBreakdown.coding / totalMinutes) * 100);
-      const meetingPct = Math.round((patterns.categoryBreakdown.meetings / totalMinutes) * 100);
-      const socialPct = Math.round((patterns.categoryBreakdown.social / totalMinutes) * 100);
-
-      if (codingPct >= 40) {
-        insights.push(`Strong coding day: ${codingPct}% of tracked time`);
+      const meetingPct = Math.round(((patterns.categoryBreakdown.meetings || 0) / totalMinutes) * 100);
+
+      for (const [category, minutes] of Object.entries(patterns.categoryBreakdown)) {
+        const pct = Math.round((minutes / totalMinutes) * 100);
+        const label = this.taxonomy.label(category).toLowerCase();
+        // Meetings get their own insight below
+        if (this.taxonomy.isDeepWork(category) && category !== 'meetings' && pct >= 40) {
+          insights.push(`Strong ${label} day: ${pct}% of tracked time`);
+        }
+        if (this.taxonomy.isDistracting(category) && pct >= 20) {
+          insights.push(`High ${label} usage: ${pct}% of tracked time`);
+        }
       }
       if (meetingPct >= 30) {
         insights.push(`Meeting-heavy day: ${meetingPct}% of tracked time`);
       }
-      if (socialPct >= 20) {
-        insights.push(`High social media usage: ${socialPct}% of tracked time`);
-      }
     }
 
     // Context switching
@@ -142,6 +177,11 @@ export class Summarizer {
       insights.push(`Low focus score: ${patterns.focusScore}/100 — consider reducing distractions`);
     }
 
+    // Far from the user's own baseline (most unusual first)
+    for (const anomaly of patterns.anomalies.slice(0, MAX_ANOMALY_INSIGHTS)) {
+      insights.push(`Unusual for you: ${anomaly.description}`);
+    }
+
     return insights;
   }
 
@@ -157,10 +197,11 @@ export class Summarizer {
       recommendations.push('Try blocking 90 minutes tomorrow for uninterrupted deep work');
     }
 
-    // Social media recommendations
-    const socialMinutes = patterns.categoryBreakdown.social;
-    if (socialMinutes > 60) {
-      recommendations.push(`Reduce social media time (${socialMinutes}min today). Try app blockers during focus hours.`);
+    // Distraction recommendations
+    for (const [category, minutes] of Object.entries(patterns.categoryBreakdown)) {
+      if (this.taxonomy.isDistracting(category) && minutes > 60) {
+        recommendations.push(`Reduce ${this.taxonomy.label(category).toLowerCase()} time (${minutes}min today). Try app blockers during focus hours.`);
+      }
     }
 
     // Context switching recommendations
@@ -169,7 +210,7 @@ export class Summarizer {
     }
 
     // Break recommendations
-    const breakMinutes = patterns.categoryBreakdown.breaks;
+    const breakMinutes = patterns.categoryBreakdown[BREAK_CATEGORY] || 0;
     const workMinutes = totalMinutes - breakMinutes;
     if (workMinutes > 240 && breakMinutes < 30) {
       recommendations.push('Remember to take breaks! 5-10 min every hour helps maintain focus.');
@@ -182,7 +223,7 @@ export class Summarizer {
     }
 
     // Meeting balance
-    const meetingMinutes = patterns.categoryBreakdown.meetings;
+    const meetingMinutes = patterns.categoryBreakdown.meetings || 0;
     if (meetingMinutes > 180) {
       recommendations.push(`Heavy meeting day (${Math.round(meetingMinutes / 60)}hrs). Consider blocking meeting-free focus time tomorrow.`);
     }
@@ -204,7 +245,7 @@ export class Summarizer {
     const totalMinutes = summary.totalTrackedMinutes;
 
     let content = `# Daily Summary: ${summary.date}\n\n`;
-    content += `> Generated at ${format(parseISO(summary.generatedAt), 'HH:mm')}\n\n`;
+    content += `> Generated at ${this.days.formatTime(summary.generatedAt)}\n\n`;
 
     // Overview
     content += `## 📊 Overview\n\n`;
@@ -240,11 +281,14 @@ export class Summarizer {
 
     for (const [category, minutes] of sortedCategories) {
       const pct = totalMinutes > 0 ? Math.round((minutes / totalMinutes) * 100) : 0;
-      const emoji = this.getCategoryEmoji(category as ActivityCategory);
-      content += `| ${emoji} ${category} | ${minutes}min | ${pct}% |\n`;
+      content += `| ${this.taxonomy.emoji(category)} ${this.taxonomy.label(category)} | ${minutes}min | ${pct}% |\n`;
     }
     content += `\n`;
 
+    if (summary.groupBreakdown) {
+      content += `**By group:** ${this.formatGroups(summary.groupBreakdown)}\n\n`;
+    }
+
     // Peak hours
     if (summary.peakProductivityHours.length > 0) {
       content += `## 🔥 Peak Productivity\n\n`;
@@ -269,37 +313,54 @@ export class Summarizer {
       content += `\n`;
     }
 
-    // Check-ins
+    // Capture gaps
+    if (summary.captureGaps && summary.captureGaps.length > 0) {
+      content += `## ⏸️ Capture Paused\n\n`;
+      for (const gap of summary.captureGaps) {
+        content += `- ${this.formatGap(gap)}\n`;
+      }
+      content += `\n`;
+    }
+
+    // Check-ins (the markdown file is plaintext, so encrypted ones are only counted)
     if (summary.checkIns.length > 0) {
       content += `## 📝 Check-ins\n\n`;
-      for (const checkIn of summary.checkIns) {
-        content += `- ${checkIn}\n`;
+      if (this.config.encryption?.enabled) {
+        content += `${summary.checkIns.length} check-in${summary.checkIns.length === 1 ? '' : 's'} (encrypted)\n`;
+      } else {
+        for (const checkIn of summary.checkIns) {
+          content += `- ${checkIn}\n`;
+        }
       }
       content += `\n`;
     }
 
     // Footer
     content += `---\n`;
-    content += `*Generated by LifeLog Agent*\n`;
+    content += `*Generated by LifeLog Agent*${summary.analysisVersion ? ` · analyses ${summary.analysisVersion}` : ''}\n`;
 
     fs.writeFileSync(filePath, content);
     console.log(`   📄 Written to ${filePath}`);
   }
 
   /**
-   * Get emoji for category
+   * Format a capture gap, e.g. "14:00-14:30 (30min) - doctor's call"
    */
-  private getCategoryEmoji(category: ActivityCategory): string {
-    const emojis: Record<ActivityCategory, string> = {
-      coding: '💻',
-      meetings: '📞',
-      browsing: '🌐',
-      social: '📱',
-      email: '📧',
-      breaks: '☕',
-      other: '📦',
-    };
-    return emojis[category] || '📦';
+  private formatGap(gap: CaptureGap): string {
+    const start = this.days.formatTime(gap.startTime);
+    const end = this.days.formatTime(gap.endTime);
+    return `${start}-${end} (${gap.durationMinutes}min)${gap.reason ? ` - ${gap.reason}` : ''}`;
+  }
+
+  /**
+   * Format group minutes, e.g. "work 240min, personal 45min"
+   */
+  private formatGroups(groups: Record<string, number>): string {
+    return Object.entries(groups)
+      .filter(([_, mins]) => mins > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([group, mins]) => `${group} ${mins}min`)
+      .join(', ');
   }
 
   /**
@@ -330,7 +391,11 @@ export class Summarizer {
     output += `⏱️  Total Tracked: ${hours > 0 ? hours + 'h ' : ''}${mins}m\n`;
     output += `🎯 Focus Score: ${summary.focusScore}/100\n`;
     output += `💪 Deep Work: ${summary.deepWorkSessions} sessions, ${summary.deepWorkMinutes}min total\n`;
-    output += `🔀 Context Switches: ${summary.contextSwitches}\n\n`;
+    output += `🔀 Context Switches: ${summary.contextSwitches}\n`;
+    if (summary.analysisVersion) {
+      output += `🧪 Analysis version: ${summary.analysisVersion}\n`;
+    }
+    output += '\n';
 
     // Comparison
     if (summary.comparison) {
@@ -349,11 +414,22 @@ export class Summarizer {
     for (const [category, minutes] of sortedCategories) {
       const pct = totalMinutes > 0 ? Math.round((minutes / totalMinutes) * 100) : 0;
       const bar = '█'.repeat(Math.round(pct / 5)) + '░'.repeat(20 - Math.round(pct / 5));
-      const emoji = this.getCategoryEmoji(category as ActivityCategory);
-      output += `   ${emoji} ${category.padEnd(10)} ${bar} ${minutes}min (${pct}%)\n`;
+      output += `   ${this.taxonomy.emoji(category)} ${this.taxonomy.label(category).padEnd(12)} ${bar} ${minutes}min (${pct}%)\n`;
+    }
+    if (summary.groupBreakdown) {
+      output += `   By group: ${this.formatGroups(summary.groupBreakdown)}\n`;
     }
     output += '\n';
 
+    // Capture gaps
+    if (summary.captureGaps && summary.captureGaps.length > 0) {
+      output += '⏸️ Capture Paused:\n';
+      for (const gap of summary.captureGaps) {
+        output += `   • ${this.formatGap(gap)}\n`;
+      }
+      output += '\n';
+    }
+
     // Peak hours
     if (summary.peakProductivityHours.length > 0) {
       output += `🔥 Peak Hours: ${summary.peakProductivityHours.join(', ')}\n\n`;
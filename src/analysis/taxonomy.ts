@@ -0,0 +1,249 @@
+/**
+ * Activity Taxonomy
+ * The categories activity is classified into, from config.categories or the built-in set
+ */
+
+import { Config, ActivityCategory, CategoryDefinition, CategoryInfo } from '../types/index.js';
+
+// Idle spans are recorded as breaks; anything unclassifiable is other
+export const BREAK_CATEGORY = 'breaks';
+export const FALLBACK_CATEGORY = 'other';
+
+const DEFAULT_EMOJI = '📦';
+const DEFAULT_COLOR = '#94a3b8';
+const DEFAULT_FOCUS_SCORE = 50;
+
+// Order matters: keyword classification takes the first match, so more specific categories come first
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    id: 'coding',
+    name: 'Coding',
+    description: 'IDEs, terminals, code editors, documentation',
+    color: '#10b981',
+    emoji: '💻',
+    deepWork: true,
+    focusScore: 75,
+    productivityWeight: 1.5,
+    keywords: ['code', 'coding', 'programming', 'debug', 'deploy', 'commit', 'git', 'terminal', 'ide', 'vscode', 'vim', 'neovim',
+      'develop', 'implement', 'refactor', 'pr', 'pull request', 'merge', 'feature', 'bug fix', 'deep work'],
+  },
+  {
+    id: 'meetings',
+    name: 'Meetings',
+    description: 'Video calls, Zoom, Meet, Teams, Slack huddles',
+    color: '#f59e0b',
+    emoji: '📞',
+    deepWork: true,
+    focusScore: 70,
+    productivityWeight: 1.0,
+    keywords: ['meeting', 'call', 'zoom', 'huddle', 'sync', 'standup', '1:1', 'interview', 'google meet', 'teams', 'conference', 'presentation'],
+  },
+  {
+    id: 'email',
+    name: 'Email',
+    description: 'Email clients, Gmail, Outlook',
+    color: '#3b82f6',
+    emoji: '📧',
+    focusScore: 60,
+    productivityWeight: 0.8,
+    keywords: ['email', 'inbox', 'reply', 'replying', 'sent', 'gmail', 'outlook', 'mail'],
+  },
+  {
+    id: 'social',
+    name: 'Social media',
+    description: 'Twitter, Discord, social media, messaging apps',
+    color: '#ef4444',
+    emoji: '📱',
+    distracting: true,
+    focusScore: 30,
+    productivityWeight: 0.3,
+    keywords: ['twitter', 'discord', 'slack', 'social', 'chat', 'dm', 'messaging', 'whatsapp', 'telegram', 'x.com', 'reddit', 'hacker news', 'hn'],
+  },
+  {
+    id: 'breaks',
+    name: 'Breaks',
+    description: 'No activity, away, entertainment, games',
+    color: '#6b7280',
+    emoji: '☕',
+    focusScore: 20,
+    productivityWeight: 0.2,
+    keywords: ['break', 'lunch', 'coffee', 'walk', 'rest', 'away', 'snack', 'stretch', 'nap', 'relax'],
+  },
+  {
+    id: 'browsing',
+    name: 'Browsing',
+    description: 'Web browsers with non-work content, research, reading',
+    color: '#8b5cf6',
+    emoji: '🌐',
+    distracting: true,
+    focusScore: 50,
+    productivityWeight: 0.5,
+    keywords: ['research', 'reading', 'browser', 'browsing', 'google', 'searching', 'documentation', 'docs', 'article', 'blog', 'youtube', 'video'],
+  },
+  {
+    id: 'other',
+    name: 'Other',
+    description: 'Anything else',
+    color: DEFAULT_COLOR,
+    emoji: DEFAULT_EMOJI,
+    focusScore: 50,
+    productivityWeight: 0.2,
+  },
+];
+
+export class Taxonomy {
+  readonly categories: CategoryDefinition[];
+  private byId = new Map<string, CategoryDefinition>();
+  private keywordPatterns: Array<{ id: ActivityCategory; pattern: RegExp }> = [];
+
+  constructor(config: Config) {
+    const configured = config.categories?.length ? config.categories : DEFAULT_CATEGORIES;
+    this.categories = [...configured];
+
+    // The pipeline itself assigns these two, so a custom taxonomy always has them
+    for (const required of [BREAK_CATEGORY, FALLBACK_CATEGORY]) {
+      if (!this.categories.some(c => c.id === required)) {
+        this.categories.push(DEFAULT_CATEGORIES.find(c => c.id === required)!);
+      }
+    }
+
+    for (const category of this.categories) {
+      if (!category.id) {
+        throw new Error('Category without an id in config.categories');
+      }
+      if (this.byId.has(category.id)) {
+        throw new Error(`Duplicate category: ${category.id}`);
+      }
+      this.byId.set(category.id, category);
+
+      const keywords = (category.keywords || []).map(k => k.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      if (keywords.length > 0) {
+        this.keywordPatterns.push({ id: category.id, pattern: new RegExp(`\\b(${keywords.join('|')})\\b`) });
+      }
+    }
+  }
+
+  ids(): ActivityCategory[] {
+    return this.categories.map(c => c.id);
+  }
+
+  get(id: ActivityCategory): CategoryDefinition | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * A known category id; model output and analyses from an older taxonomy
+   * that don't match one fall back to "other"
+   */
+  resolve(id: string | undefined | null): ActivityCategory {
+    if (!id) return FALLBACK_CATEGORY;
+    if (this.byId.has(id)) return id;
+    const lower = id.toLowerCase();
+    const match = this.categories.find(c => c.id.toLowerCase() === lower || c.name?.toLowerCase() === lower);
+    return match?.id || FALLBACK_CATEGORY;
+  }
+
+  label(id: ActivityCategory): string {
+    return this.get(id)?.name || id;
+  }
+
+  emoji(id: ActivityCategory): string {
+    return this.get(id)?.emoji || DEFAULT_EMOJI;
+  }
+
+  color(id: ActivityCategory): string {
+    return this.get(id)?.color || DEFAULT_COLOR;
+  }
+
+  isDeepWork(id: ActivityCategory): boolean {
+    return this.get(id)?.deepWork ?? false;
+  }
+
+  isDistracting(id: ActivityCategory): boolean {
+    return this.get(id)?.distracting ?? false;
+  }
+
+  focusScore(id: ActivityCategory): number {
+    return this.get(id)?.focusScore ?? DEFAULT_FOCUS_SCORE;
+  }
+
+  productivityWeight(id: ActivityCategory): number {
+    const category = this.get(id);
+    return category?.productivityWeight ?? (category?.deepWork ? 1.5 : 0.5);
+  }
+
+  /**
+   * Categories a goal or filter on `idOrGroup` covers: the category itself
+   * plus every category whose parent it is
+   */
+  members(idOrGroup: string): ActivityCategory[] {
+    return this.categories
+      .filter(c => c.id === idOrGroup || c.parent === idOrGroup)
+      .map(c => c.id);
+  }
+
+  /**
+   * True for a category id or a parent group name
+   */
+  isKnown(idOrGroup: string): boolean {
+    return this.members(idOrGroup).length > 0;
+  }
+
+  /**
+   * Zero minutes for every category
+   */
+  emptyBreakdown(): Record<ActivityCategory, number> {
+    return Object.fromEntries(this.categories.map(c => [c.id, 0]));
+  }
+
+  /**
+   * Roll category minutes up into parent groups, or undefined if no category has one
+   */
+  groupBreakdown(breakdown: Record<ActivityCategory, number>): Record<string, number> | undefined {
+    if (!this.categories.some(c => c.parent)) return undefined;
+
+    const groups: Record<string, number> = {};
+    for (const [id, minutes] of Object.entries(breakdown)) {
+      const group = this.get(id)?.parent;
+      if (group) {
+        groups[group] = (groups[group] || 0) + minutes;
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Keyword classification of free text (check-ins, window titles);
+   * the first category with a matching keyword wins
+   */
+  classifyText(text: string): ActivityCategory {
+    const lowerText = text.toLowerCase();
+    return this.keywordPatterns.find(k => k.pattern.test(lowerText))?.id || FALLBACK_CATEGORY;
+  }
+
+  /**
+   * Category list for classifier prompts, one "- id: description" line each
+   */
+  describeForPrompt(): string {
+    return this.categories
+      .map(c => `- ${c.id}: ${c.description || c.name || c.id}`)
+      .join('\n');
+  }
+
+  /**
+   * The ids as a JSON string union, e.g. "coding" | "meetings"
+   */
+  idUnion(): string {
+    return this.categories.map(c => JSON.stringify(c.id)).join(' | ');
+  }
+
+  info(): CategoryInfo[] {
+    return this.categories.map(({ id, name, color, emoji, parent }) => ({
+      id,
+      name: name || id,
+      color: color || DEFAULT_COLOR,
+      emoji: emoji || DEFAULT_EMOJI,
+      ...(parent ? { parent } : {}),
+    }));
+  }
+}
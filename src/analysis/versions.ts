@@ -0,0 +1,85 @@
+/**
+ * Analysis Versions
+ * Re-analysis of past screens with newer prompts or models, compared
+ * against the analyses their summaries use
+ */
+
+import { Config, AnalysisVersion, ReanalysisDayReport, TokenUsage } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Analyzer } from './analyzer.js';
+import { PatternDetector } from './patterns.js';
+
+/**
+ * "model@promptHash"
+ */
+export function formatAnalysisVersion(version: AnalysisVersion): string {
+  return `${version.model}@${version.promptHash}`;
+}
+
+/**
+ * Split "model@promptHash"; model names may contain "@", prompt hashes don't
+ */
+export function parseAnalysisVersion(label: string): AnalysisVersion {
+  const at = label.lastIndexOf('@');
+  if (at <= 0 || at === label.length - 1) {
+    throw new Error(`Invalid analysis version: ${label}. Expected model@promptHash`);
+  }
+  return { model: label.slice(0, at), promptHash: label.slice(at + 1) };
+}
+
+export class Reanalyzer {
+  private db: LifeLogDatabase;
+  private analyzer: Analyzer;
+  private patterns: PatternDetector;
+
+  /**
+   * `model` replaces the configured screen model for this run
+   */
+  constructor(config: Config, db: LifeLogDatabase, model?: string) {
+    this.db = db;
+    this.analyzer = new Analyzer(model ? Reanalyzer.withScreenModel(config, model) : config, db);
+    this.patterns = new PatternDetector(config, db);
+  }
+
+  /**
+   * Re-analyze each date's screens, then compare the day computed from the
+   * new version with the day as its summary sees it (pinned version or current)
+   */
+  async run(dates: string[]): Promise<{ version: string; days: ReanalysisDayReport[]; usage: TokenUsage }> {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    const days: ReanalysisDayReport[] = [];
+    let version = '';
+
+    for (const date of dates) {
+      const pinned = this.db.getSummary(date)?.analysis_version;
+      const before = await this.patterns.detectDailyPatterns(date, pinned ? parseAnalysisVersion(pinned) : undefined);
+
+      const result = await this.analyzer.reanalyzeDate(date, usage);
+      version = formatAnalysisVersion(result.version);
+      const after = await this.patterns.detectDailyPatterns(date, result.version);
+
+      days.push({
+        date,
+        analyzed: result.analyzed,
+        copied: result.copied,
+        missing: result.missing,
+        failed: result.failed,
+        before: { categoryBreakdown: before.categoryBreakdown, focusScore: before.focusScore },
+        after: { categoryBreakdown: after.categoryBreakdown, focusScore: after.focusScore },
+      });
+    }
+
+    return { version, days, usage };
+  }
+
+  private static withScreenModel(config: Config, model: string): Config {
+    const analysis = config.analysis || {};
+    return {
+      ...config,
+      analysis: {
+        ...analysis,
+        tasks: { ...analysis.tasks, screen: { ...analysis.tasks?.screen, model } },
+      },
+    };
+  }
+}
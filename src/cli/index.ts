@@ -3,14 +3,18 @@
 import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
+import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
-import { format, subDays } from 'date-fns';
-import { Config, ActivityCategory } from '../types/index.js';
+import { format, subDays, eachDayOfInterval } from 'date-fns';
+import { Config, SessionStatus, AnalysisSource, LLMProviderName } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
 import { MarkdownLogger } from '../storage/markdown-logger.js';
+import { DayBoundary } from '../storage/day-boundary.js';
 import { SessionManager } from '../services/session-manager.js';
+import { SessionDaemon, SessionClient } from '../services/session-daemon.js';
 import { Exporter } from '../services/exporter.js';
-import { Analyzer, Summarizer, PatternDetector } from '../analysis/index.js';
+import { StorageManager } from '../services/storage-manager.js';
+import { Analyzer, Summarizer, PatternDetector, Taxonomy, ReviewQueue, Reanalyzer, Evaluator, MomentFuser, CorrelationEngine, FocusCurve, WEEKDAYS, Forecaster } from '../analysis/index.js';
 import { GoalManager, GoalType } from '../goals/index.js';
 import { Coach, Scheduler, Nudger } from '../coaching/index.js';
 import { TokenRewards, loadConfig as loadTokenConfig, GoalType as TokenGoalType, getClaimableGoals } from '../token/index.js';
@@ -32,7 +36,7 @@ function loadConfig(): Config {
       const config = JSON.parse(configData);
       // Add defaults for new fields
       config.summariesDir = config.summariesDir || './summaries';
-      config.analysis = config.analysis || { model: 'claude-sonnet-4-20250514' };
+      config.analysis = config.analysis || {};
       return config;
     }
   }
@@ -59,11 +63,14 @@ dirs.forEach(dir => {
 
 // Initialize components
 const db = new LifeLogDatabase(config);
+const dayBoundary = new DayBoundary(config);
 const logger = new MarkdownLogger(config);
 const sessionManager = new SessionManager(config, db, logger);
 const exporter = new Exporter(config, db);
+const storage = new StorageManager(config, db);
 const analyzer = new Analyzer(config, db);
 const summarizer = new Summarizer(config, db);
+const reviewQueue = new ReviewQueue(config, db);
 const patterns = new PatternDetector(config, db);
 const goalManager = new GoalManager(config, db);
 const coach = new Coach(config, db);
@@ -80,35 +87,103 @@ program
 
 // ===== DATA COLLECTION COMMANDS =====
 
+/**
+ * Run the session in this process, controlled through the daemon socket
+ */
+async function runSessionDaemon(sessionName: string, options: { listen?: boolean } = {}): Promise<void> {
+  const daemon = new SessionDaemon(config, sessionManager, () => process.exit(0));
+
+  const shutdown = async (signal: string) => {
+    console.log(`\n\nReceived ${signal}, stopping session...`);
+    await daemon.shutdown();
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  try {
+    const started = await daemon.start(sessionName, options);
+    if (!started) {
+      process.exit(1);
+    }
+  } catch (error: any) {
+    console.error('❌ Could not start session daemon:', error?.message || error);
+    process.exit(1);
+  }
+  // The control socket keeps the process alive until "lifelog stop"
+}
+
 program
   .command('start [session-name]')
-  .description('Start a recording session')
-  .action(async (sessionName?: string) => {
+  .description('Start a recording session in the background')
+  .option('--foreground', 'Run the session in this terminal instead of a background daemon')
+  .option('--listen', 'Also record conversations, keeping only speech (default: config audio.listen)')
+  .action(async (sessionName?: string, options?: { foreground?: boolean; listen?: boolean }) => {
     const name = sessionName || `session-${Date.now()}`;
-    const started = await sessionManager.start(name);
-    
-    if (started) {
-      console.log(`\n📊 Recording screen every ${config.intervals.screenRecordIntervalMs / 60000} min`);
-      console.log(`📷 Capturing camera every ${config.intervals.cameraSnapshotIntervalMs / 60000} min`);
+    const client = new SessionClient(config);
+
+    if (await client.isRunning()) {
+      const status = await client.send<SessionStatus>('status');
+      console.log(`⚠️ Session already active: ${status.sessionName} (pid ${status.pid})`);
+      process.exit(1);
+    }
+    sessionManager.recoverStaleSession();
+
+    console.log(`\n📊 Recording screen every ${config.intervals.screenRecordIntervalMs / 60000} min`);
+    console.log(`📷 Capturing camera every ${config.intervals.cameraSnapshotIntervalMs / 60000} min`);
+    const listen = options?.listen ?? config.audio?.listen ?? false;
+    if (listen) {
+      console.log('🎤 Listening for conversations (speech only)');
+    }
+
+    if (options?.foreground) {
       console.log('\nPress Ctrl+C or run "lifelog stop" to end session\n');
-      
-      // Keep process running
-      process.on('SIGINT', async () => {
-        console.log('\n\nReceived SIGINT, stopping session...');
-        await sessionManager.stop();
-        process.exit(0);
-      });
+      await runSessionDaemon(name, { listen });
+      return;
+    }
 
-      // Keep alive
-      setInterval(() => {}, 1000);
+    const logPath = path.join(config.logsDir, 'daemon.log');
+    const out = fs.openSync(logPath, 'a');
+    const child = spawn(process.execPath, [...process.execArgv, process.argv[1], 'daemon', name, ...(listen ? ['--listen'] : [])], {
+      detached: true,
+      stdio: ['ignore', out, out],
+      cwd: process.cwd(),
+    });
+    child.unref();
+
+    if (await client.waitForReady()) {
+      console.log(`\n🚀 Session "${name}" running in the background (pid ${child.pid})`);
+      console.log(`   Log: ${logPath}`);
+      console.log('\nRun "lifelog stop" to end session\n');
+      process.exit(0);
     }
+
+    console.error(`❌ Session daemon did not come up. See ${logPath}`);
+    process.exit(1);
+  });
+
+program
+  .command('daemon <session-name>', { hidden: true })
+  .description('Run a session as the background daemon (used by "lifelog start")')
+  .option('--listen', 'Also record conversations')
+  .action(async (sessionName: string, options: { listen?: boolean }) => {
+    await runSessionDaemon(sessionName, { listen: options.listen });
   });
 
 program
   .command('stop')
   .description('Stop the current recording session')
   .action(async () => {
-    const result = await sessionManager.stop();
+    const client = new SessionClient(config);
+    let result: { sessionName: string; duration: number } | null = null;
+
+    if (await client.isRunning()) {
+      result = await client.send<{ sessionName: string; duration: number } | null>('stop');
+    } else if (sessionManager.isStale()) {
+      result = sessionManager.recoverStaleSession();
+    } else {
+      console.log('⚠️ No active session');
+    }
+
     if (result) {
       console.log(`\n✅ Session "${result.sessionName}" completed`);
       console.log(`   Duration: ${Math.round(result.duration / 60000)} minutes`);
@@ -123,27 +198,120 @@ program
     process.exit(0);
   });
 
+/**
+ * Parse durations like "30m", "1h", "1h30m", "90s" or plain minutes ("45")
+ */
+function parseDuration(input: string): number | null {
+  if (/^\d+$/.test(input)) {
+    return parseInt(input) * 60000;
+  }
+
+  const match = input.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return null;
+
+  const [, h, m, sec] = match;
+  const ms = (parseInt(h || '0') * 3600 + parseInt(m || '0') * 60 + parseInt(sec || '0')) * 1000;
+  return ms > 0 ? ms : null;
+}
+
+program
+  .command('pause [duration]')
+  .description('Pause all capture, optionally for a duration (e.g. 30m, 1h) after which it resumes')
+  .option('-r, --reason <reason>', 'Why capture is paused (shown in logs and summaries)')
+  .action(async (duration?: string, options?: { reason?: string }) => {
+    const durationMs = duration ? parseDuration(duration) : undefined;
+    if (durationMs === null) {
+      console.error('❌ Invalid duration. Use e.g. 45, 30m, 1h or 1h30m');
+      process.exit(1);
+    }
+
+    const client = new SessionClient(config);
+    if (!(await client.isRunning())) {
+      console.error('❌ No running session to pause');
+      process.exit(1);
+    }
+
+    const { paused } = await client.send<{ paused: boolean }>('pause', { durationMs, reason: options?.reason });
+    if (!paused) {
+      console.log('⚠️ Capture is already paused');
+      process.exit(0);
+    }
+
+    if (durationMs) {
+      const until = format(new Date(Date.now() + durationMs), 'HH:mm');
+      console.log(`\n⏸️ Capture paused until ${until}. Run "lifelog resume" to resume earlier.\n`);
+    } else {
+      console.log('\n⏸️ Capture paused. Run "lifelog resume" to resume.\n');
+    }
+    process.exit(0);
+  });
+
+program
+  .command('resume')
+  .description('Resume capture after "lifelog pause"')
+  .action(async () => {
+    const client = new SessionClient(config);
+    if (!(await client.isRunning())) {
+      console.error('❌ No running session to resume');
+      process.exit(1);
+    }
+
+    const { resumed } = await client.send<{ resumed: boolean }>('resume');
+    console.log(resumed ? '\n▶️ Capture resumed\n' : '⚠️ Capture is not paused');
+    process.exit(0);
+  });
+
 program
   .command('checkin <message>')
   .description('Add a manual check-in entry')
-  .action(async (message: string) => {
-    await sessionManager.checkIn(message);
+  .option('--mood <1-5>', 'How you feel, recorded with the check-in')
+  .option('--energy <1-5>', 'Your energy level, recorded with the check-in')
+  .action(async (text: string, options: { mood?: string; energy?: string }) => {
+    const feelings: { mood?: number; energy?: number } = {};
+    for (const feeling of ['mood', 'energy'] as const) {
+      if (options[feeling] === undefined) continue;
+      const value = Number(options[feeling]);
+      if (!Number.isInteger(value) || value < 1 || value > 5) {
+        console.error(`❌ --${feeling} must be a whole number from 1 to 5`);
+        process.exit(1);
+      }
+      feelings[feeling] = value;
+    }
+    const client = new SessionClient(config);
+
+    // Route through the live session so it lands in its log; otherwise write directly
+    if (await client.isRunning()) {
+      await client.send('checkin', { message: text, ...feelings });
+      console.log(`✓ Check-in recorded: "${text}"`);
+    } else {
+      await sessionManager.checkIn(text, feelings);
+    }
     process.exit(0);
   });
 
 program
   .command('status')
   .description('Show current session status')
-  .action(() => {
-    const status = sessionManager.getStatus();
+  .action(async () => {
+    const client = new SessionClient(config);
+    const running = await client.isRunning();
+    const status = running ? await client.send<SessionStatus>('status') : sessionManager.getStatus();
     const stats = db.getStats();
 
     console.log('\n📊 LifeLog Status\n');
     
-    if (status.active) {
-      console.log(`🟢 Session Active: ${status.sessionName}`);
+    if (running && status.active) {
+      const state = status.paused ? '⏸️ paused' : status.idle ? '💤 idle' : 'recording';
+      console.log(`🟢 Session Active: ${status.sessionName} (${state})`);
       console.log(`   Started: ${status.startTime}`);
       console.log(`   Duration: ${status.durationMin} minutes`);
+      if (status.paused && status.pausedUntil) {
+        console.log(`   Resumes at: ${format(new Date(status.pausedUntil), 'HH:mm')}`);
+      }
+      console.log(`   Daemon pid: ${status.pid}`);
+    } else if (sessionManager.isStale()) {
+      console.log(`🟠 Stale session: ${status.sessionName} (process ${status.pid ?? 'unknown'} is not running)`);
+      console.log('   Run "lifelog stop" to close it out');
     } else {
       console.log('⚪ No active session');
     }
@@ -183,18 +351,52 @@ program
   .command('analyze [date]')
   .description('Run AI analysis on a day\'s data (default: today)')
   .option('-f, --force', 'Re-analyze even if analysis exists')
-  .action(async (date?: string, options?: { force?: boolean }) => {
-    const targetDate = date || format(new Date(), 'yyyy-MM-dd');
+  .option('--retry-dead', 'Give dead-lettered jobs for this date another set of attempts')
+  .action(async (date?: string, options?: { force?: boolean; retryDead?: boolean }) => {
+    const targetDate = date || dayBoundary.today();
     
     console.log(`\n🔬 Running AI analysis for ${targetDate}...\n`);
     
     try {
+      if (options?.retryDead) {
+        const requeued = db.requeueDeadAnalysisJobs(targetDate, new Date().toISOString());
+        console.log(`   Requeued ${requeued} dead jobs`);
+      }
+
       const results = await analyzer.analyzeDate(targetDate);
       
       console.log(`\n📊 Analysis Results:`);
       console.log(`   Screen analyses: ${results.screenAnalyses.length}`);
       console.log(`   Camera analyses: ${results.cameraAnalyses.length}`);
       console.log(`   Audio analyses: ${results.audioAnalyses.length}`);
+
+      // Inherited analyses repeat their source's keyframes, so count only the originals
+      const recordings = results.screenAnalyses.filter(({ analysis }) =>
+        analysis.clipDurationSec !== undefined && analysis.dedupedFrom === undefined);
+      if (recordings.length > 0) {
+        const frames = recordings.reduce((sum, { analysis }) => sum + (analysis.framesAnalyzed || 0), 0);
+        const seconds = recordings.reduce((sum, { analysis }) => sum + (analysis.clipDurationSec || 0), 0);
+        console.log(`   Keyframes analyzed: ${frames} from ${recordings.length} recordings (${Math.round(seconds)}s of video)`);
+      }
+
+      const { queue } = results;
+      if (queue.total > 0) {
+        console.log(`\n   Jobs: ${queue.done}/${queue.total} done${queue.pending > 0 ? `, ${queue.pending} pending` : ''}`);
+        console.log(`   Tokens: ${queue.inputTokens} in / ${queue.outputTokens} out (~$${queue.costUsd.toFixed(4)})`);
+        if (queue.dead > 0) {
+          console.log(`   ⚠️ ${queue.dead} jobs failed permanently; retry with 'lifelog analyze ${targetDate} --retry-dead'`);
+        }
+      }
+
+      const { dedup } = results;
+      if (dedup.inherited > 0 || dedup.framesReused > 0) {
+        console.log(`\n   Deduplication:`);
+        console.log(`   - Near-identical captures: ${dedup.inherited} reused the previous analysis`);
+        if (dedup.framesReused > 0) {
+          console.log(`   - Static keyframes: ${dedup.framesReused} reused the previous frame`);
+        }
+        console.log(`   - Vision calls saved: ${dedup.callsSaved}`);
+      }
       
       // Show category breakdown from screen analyses
       if (results.screenAnalyses.length > 0) {
@@ -207,6 +409,17 @@ program
         for (const [cat, count] of Object.entries(categories).sort((a, b) => b[1] - a[1])) {
           console.log(`   - ${cat}: ${count}`);
         }
+
+        const bySource: Record<AnalysisSource, number> = { rule: 0, keywords: 0, model: 0, user: 0 };
+        for (const { analysis } of results.screenAnalyses) {
+          if (analysis.source) bySource[analysis.source]++;
+        }
+        console.log(`\n   Classified by: ${bySource.rule} rules, ${bySource.keywords} keywords, ${bySource.model} model${bySource.user > 0 ? `, ${bySource.user} you` : ''}`);
+
+        const toReview = reviewQueue.list([targetDate]).length;
+        if (toReview > 0) {
+          console.log(`   ${toReview} low-confidence classifications; check them with 'lifelog review list ${targetDate}'`);
+        }
       }
       
       console.log(`\n✅ Analysis complete. Run 'lifelog summary ${targetDate}' to generate a report.`);
@@ -221,16 +434,19 @@ program
   .command('summary [date]')
   .description('Generate or view daily summary (default: today)')
   .option('-g, --generate', 'Force regenerate summary')
-  .action(async (date?: string, options?: { generate?: boolean }) => {
-    const targetDate = date || format(new Date(), 'yyyy-MM-dd');
+  .option('--analysis-version <version>', 'Regenerate pinned to an analysis version (model@promptHash), or "current" to unpin')
+  .action(async (date?: string, options?: { generate?: boolean; analysisVersion?: string }) => {
+    const targetDate = date || dayBoundary.today();
     
     try {
       // Check if summary exists
       let summary = summarizer.getSummary(targetDate);
       
-      if (!summary || options?.generate) {
+      if (!summary || options?.generate || options?.analysisVersion) {
         console.log(`\n📝 Generating summary for ${targetDate}...`);
-        summary = await summarizer.generateSummary(targetDate);
+        summary = await summarizer.generateSummary(targetDate, options?.analysisVersion
+          ? { analysisVersion: options.analysisVersion === 'current' ? null : options.analysisVersion }
+          : {});
       }
       
       // Display the summary
@@ -248,7 +464,19 @@ program
 program
   .command('patterns [days]')
   .description('Show productivity patterns over N days (default: 7)')
-  .action(async (daysStr?: string) => {
+  .option('--heatmap', 'Show focus by hour of the week, learned from months of history')
+  .option('--rebuild', 'With --heatmap: recompute every day of the focus curve')
+  .action(async (daysStr: string | undefined, options: { heatmap?: boolean; rebuild?: boolean }) => {
+    if (options.heatmap) {
+      try {
+        await printFocusHeatmap(options.rebuild);
+      } catch (error: any) {
+        console.error(`\n❌ Focus curve failed:`, error?.message || error);
+        process.exit(1);
+      }
+      process.exit(0);
+    }
+
     const days = daysStr ? parseInt(daysStr) : 7;
     
     if (isNaN(days) || days < 1 || days > 90) {
@@ -266,13 +494,367 @@ program
     process.exit(0);
   });
 
+/**
+ * Hour-of-week grid of the focus curve, shaded by focus, and each weekday's best window
+ */
+async function printFocusHeatmap(rebuild?: boolean): Promise<void> {
+  const curve = new FocusCurve(config, db);
+  const added = await curve.update({ rebuild });
+  const model = curve.getModel();
+  const hour = (h: number) => h.toString().padStart(2, '0');
+
+  console.log(`\n🔥 Focus by Hour of Week (${model.from} to ${model.to}, ${model.days} days${added > 0 ? `, ${added} new` : ''})\n`);
+  if (model.cells.every(c => c.days === 0)) {
+    console.log('   No tracked days yet.\n');
+    return;
+  }
+
+  // Two characters per hour; labels every three hours
+  console.log('       ' + Array.from({ length: 8 }, (_, i) => hour(i * 3).padEnd(6)).join(''));
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const row = model.cells
+      .filter(c => c.weekday === weekday)
+      .map(c => {
+        if (c.focusScore === null) return '  ';
+        if (c.days < curve.minDays) return '··';
+        return c.focusScore >= 70 ? '██' : c.focusScore >= 55 ? '▓▓' : c.focusScore >= 40 ? '▒▒' : '░░';
+      })
+      .join('');
+    console.log(`   ${WEEKDAYS[weekday].slice(0, 3)} ${row}`);
+  }
+  console.log(`\n   ░ <40  ▒ 40-54  ▓ 55-69  █ 70+  · fewer than ${curve.minDays} days\n`);
+
+  console.log('   Best 2-hour windows:');
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const best = curve.bestWindow(model, weekday);
+    if (!best) continue;
+    const band = best.low !== null ? ` (${best.low}-${best.high})` : '';
+    console.log(`   ${WEEKDAYS[weekday].padEnd(10)} ${hour(best.startHour)}:00-${hour(best.endHour % 24)}:00  focus ${best.focusScore}${band}, ${best.days}+ days`);
+  }
+  console.log('');
+}
+
+program
+  .command('correlations [days]')
+  .description('Relate mood and energy from check-ins to how you worked (default: config correlations.days or 30)')
+  .action(async (daysStr?: string) => {
+    const days = daysStr ? parseInt(daysStr) : undefined;
+    if (days !== undefined && (isNaN(days) || days < 2 || days > 365)) {
+      console.error('❌ Days must be a number between 2 and 365');
+      process.exit(1);
+    }
+
+    try {
+      const report = await new CorrelationEngine(config, db).recent(days);
+
+      console.log(`\n🔗 Mood & Energy Correlations (${report.from} to ${report.to})\n`);
+      console.log(`   ${report.readings} readings on ${report.days} tracked days (${report.structured} explicit, ${report.readings - report.structured} from check-in text)`);
+      console.log(`   ${report.tested} comparisons with enough samples\n`);
+
+      if (report.correlations.length === 0) {
+        console.log('   No clear relationships yet. Add mood and energy to check-ins, e.g.');
+        console.log('   lifelog checkin "after standup" --mood 3 --energy 2\n');
+        process.exit(0);
+      }
+
+      for (const c of report.correlations) {
+        console.log(`   ${c.description}`);
+        console.log(`      ${c.high.mean} vs ${c.low.mean} of 5 · d = ${c.effectSize} · p = ${c.pValue}${c.r !== null ? ` · r = ${c.r}` : ''} · n = ${c.high.n} vs ${c.low.n}`);
+      }
+      console.log('');
+    } catch (error: any) {
+      console.error(`\n❌ Correlation analysis failed:`, error?.message || error);
+      process.exit(1);
+    }
+
+    process.exit(0);
+  });
+
+program
+  .command('forecast [date]')
+  .description('Forecast focus, deep work and goal completion for a day (default: tomorrow)')
+  .action((date?: string) => {
+    try {
+      const forecast = new Forecaster(config, db).forecast(date);
+      if (!forecast) {
+        console.log('\n🔮 Not enough history to forecast yet (needs a week of daily summaries)\n');
+        process.exit(0);
+      }
+
+      const describe = (f: { level: number; weekdayEffect: number; trend: number; meetingEffect: number }) => {
+        const signed = (n: number) => `${n >= 0 ? '+' : ''}${n}`;
+        return `recent ${f.level}, weekday ${signed(f.weekdayEffect)}, trend ${signed(f.trend)}` +
+          (f.meetingEffect !== 0 ? `, meetings ${signed(f.meetingEffect)}` : '');
+      };
+
+      console.log(`\n🔮 Forecast for ${forecast.date} (from ${forecast.historyDays} days)\n`);
+      console.log(`   Focus score: ${forecast.focusScore.value}/100  (likely ${forecast.focusScore.low}-${forecast.focusScore.high})`);
+      console.log(`      ${describe(forecast.focusScore)}`);
+      console.log(`   Deep work:   ${forecast.deepWorkMinutes.value}min  (likely ${forecast.deepWorkMinutes.low}-${forecast.deepWorkMinutes.high})`);
+      console.log(`      ${describe(forecast.deepWorkMinutes)}`);
+      if (forecast.scheduledMeetingMinutes !== null) {
+        console.log(`   Meetings:    ${forecast.scheduledMeetingMinutes}min on the calendar`);
+      }
+
+      if (forecast.goals.length > 0) {
+        console.log('\n   Goals:');
+        for (const goal of forecast.goals) {
+          const when = goal.type === 'weekly' ? ' by end of week' : '';
+          console.log(`   ${goal.atRisk ? '⚠️ ' : '✅'} ${goal.goalName}: ${Math.round(goal.probability * 100)}%${when} (expected ${goal.expected}/${goal.target})`);
+        }
+      }
+      console.log('');
+    } catch (error: any) {
+      console.error(`\n❌ Forecast failed:`, error?.message || error);
+      process.exit(1);
+    }
+
+    process.exit(0);
+  });
+
+program
+  .command('backtest [days]')
+  .description('Forecast each of the last N days (default: 28) from the days before it and report the error')
+  .action((daysStr?: string) => {
+    const days = daysStr ? parseInt(daysStr) : 28;
+    if (isNaN(days) || days < 1 || days > 365) {
+      console.error('❌ Days must be a number between 1 and 365');
+      process.exit(1);
+    }
+
+    try {
+      const today = new Date(`${dayBoundary.today()}T12:00:00`);
+      const to = format(subDays(today, 1), 'yyyy-MM-dd');
+      const from = format(subDays(today, days), 'yyyy-MM-dd');
+      const report = new Forecaster(config, db).backtest(from, to);
+
+      console.log(`\n📐 Forecast Backtest (${report.from} to ${report.to}, ${report.days} days forecast)\n`);
+      if (report.days === 0) {
+        console.log('   Nothing to score: days need a summary and a week of summaries before them.\n');
+        process.exit(0);
+      }
+
+      for (const m of report.metrics) {
+        const label = m.metric === 'focusScore' ? 'Focus score' : 'Deep work (min)';
+        console.log(`   ${label.padEnd(16)} error ±${m.meanAbsoluteError}  bias ${m.bias >= 0 ? '+' : ''}${m.bias}  ` +
+          `in 80% range ${Math.round(m.coverage * 100)}%  (repeating the day before: ±${m.naiveError})`);
+      }
+
+      if (report.goals.brierScore !== null) {
+        console.log(`\n   Daily goals: ${report.goals.completed} of ${report.goals.forecasts} completed, ${report.goals.predicted} expected`);
+        console.log(`   Brier score: ${report.goals.brierScore} (0 is perfect, 0.25 is a coin flip)`);
+      }
+      console.log('');
+    } catch (error: any) {
+      console.error(`\n❌ Backtest failed:`, error?.message || error);
+      process.exit(1);
+    }
+
+    process.exit(0);
+  });
+
+program
+  .command('moments [date]')
+  .description('Show screen, camera and audio fused into moments (default: today)')
+  .action((date?: string) => {
+    const targetDate = date || dayBoundary.today();
+    const moments = new MomentFuser(config, db).getMoments(targetDate);
+
+    if (moments.length === 0) {
+      console.log(`\n   No analyzed media for ${targetDate}.\n`);
+      process.exit(0);
+    }
+
+    console.log(`\n🧩 Moments for ${targetDate}\n`);
+    for (const m of moments) {
+      const time = format(new Date(m.start), 'HH:mm');
+      const signals = [
+        m.screenIds.length > 0 ? `${m.screenIds.length} screen` : '',
+        m.cameraIds.length > 0 ? `${m.cameraIds.length} camera` : '',
+        m.audioIds.length > 0 ? 'audio' : '',
+      ].filter(Boolean).join(', ');
+      const fused = m.fusedBy ? ` ← ${m.fusedBy}` : '';
+      console.log(`   ${time}  ${m.category.padEnd(10)} focus ${String(m.focusScore).padStart(3)}  [${signals}]${fused}`);
+      console.log(`          ${m.description}`);
+    }
+    console.log('');
+    process.exit(0);
+  });
+
+program
+  .command('reanalyze')
+  .description('Re-analyze past screens as a new analysis version and compare the results')
+  .requiredOption('--from <date>', 'First date to re-analyze')
+  .option('--to <date>', 'Last date to re-analyze (default: --from)')
+  .option('-m, --model <model>', 'Screen model to use (default: the configured one)')
+  .action(async (options: { from: string; to?: string; model?: string }) => {
+    const first = new Date(`${options.from}T12:00:00`);
+    const last = new Date(`${options.to || options.from}T12:00:00`);
+    if (isNaN(first.getTime()) || isNaN(last.getTime()) || first > last) {
+      console.error('❌ --from and --to must be dates (YYYY-MM-DD), --from first');
+      process.exit(1);
+    }
+    const dates = eachDayOfInterval({ start: first, end: last }).map(d => format(d, 'yyyy-MM-dd'));
+
+    try {
+      const result = await new Reanalyzer(config, db, options.model).run(dates);
+
+      console.log(`\n🧪 Analysis version ${result.version}\n`);
+      for (const day of result.days) {
+        console.log(`📅 ${day.date}: ${day.analyzed} analyzed, ${day.copied} near-duplicates copied` +
+          `${day.missing > 0 ? `, ${day.missing} files missing` : ''}${day.failed > 0 ? `, ${day.failed} failed` : ''}`);
+        const focusChange = day.after.focusScore - day.before.focusScore;
+        console.log(`   Focus score: ${day.before.focusScore} → ${day.after.focusScore} (${focusChange >= 0 ? '+' : ''}${focusChange})`);
+
+        const categories = Array.from(new Set([...Object.keys(day.before.categoryBreakdown), ...Object.keys(day.after.categoryBreakdown)]));
+        for (const category of categories) {
+          const before = day.before.categoryBreakdown[category] || 0;
+          const after = day.after.categoryBreakdown[category] || 0;
+          if (before === after) continue;
+          console.log(`   ${category.padEnd(12)} ${before}min → ${after}min (${after > before ? '+' : ''}${after - before})`);
+        }
+      }
+
+      console.log(`\n   Cost: $${result.usage.costUsd.toFixed(4)} (${result.usage.inputTokens} in / ${result.usage.outputTokens} out tokens)`);
+      console.log(`   Pin a summary to it: lifelog summary <date> --analysis-version ${result.version}\n`);
+    } catch (error: any) {
+      console.error(`\n❌ Re-analysis failed:`, error?.message || error);
+      process.exit(1);
+    }
+
+    process.exit(0);
+  });
+
+program
+  .command('versions [date]')
+  .description('List analysis versions stored for a date (default: today)')
+  .option('-d, --days <n>', 'Include this many days ending at the date', '1')
+  .action((date: string | undefined, options: { days: string }) => {
+    const dates = reviewDates(date, options.days);
+    const versions = db.getAnalysisVersions(dates[0], dates[dates.length - 1]);
+
+    if (versions.length === 0) {
+      console.log('\n   No versioned analyses for these dates.\n');
+      process.exit(0);
+    }
+
+    console.log(`\n🧪 Analysis versions (${dates[0]} to ${dates[dates.length - 1]})\n`);
+    for (const v of versions) {
+      console.log(`   ${v.version.padEnd(40)} ${String(v.media).padStart(5)} media   last ${format(new Date(v.lastCreatedAt), 'yyyy-MM-dd HH:mm')}`);
+    }
+    for (const d of dates) {
+      const pinned = db.getSummary(d)?.analysis_version;
+      if (pinned) {
+        console.log(`\n   ${d} summary pinned to ${pinned}`);
+      }
+    }
+    console.log('');
+    process.exit(0);
+  });
+
+const LLM_PROVIDERS: LLMProviderName[] = ['anthropic', 'openai', 'local', 'recorded'];
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+program
+  .command('eval <dataset>')
+  .description('Score screen classification against a labeled dataset (JSON array of cases)')
+  .option('--provider <name>', `Screen provider for this run (${LLM_PROVIDERS.join(', ')})`)
+  .option('-m, --model <model>', 'Screen model for this run')
+  .option('--recordings <path>', 'Replay responses from this file (uses the recorded provider)')
+  .option('--record-from <provider>', 'With --recordings: call this provider for missing responses and record them')
+  .option('--few-shot', 'Include your reviewed examples in the prompt (makes recorded runs unrepeatable)')
+  .option('--min-accuracy <fraction>', 'Exit with an error below this accuracy, e.g. 0.8')
+  .action(async (dataset: string, options: {
+    provider?: string; model?: string; recordings?: string; recordFrom?: string; fewShot?: boolean; minAccuracy?: string;
+  }) => {
+    const provider = options.provider || (options.recordings ? 'recorded' : undefined);
+    for (const name of [provider, options.recordFrom]) {
+      if (name && !LLM_PROVIDERS.includes(name as LLMProviderName)) {
+        console.error(`❌ Unknown provider: ${name}. Must be one of: ${LLM_PROVIDERS.join(', ')}`);
+        process.exit(1);
+      }
+    }
+
+    const minAccuracy = options.minAccuracy !== undefined ? Number(options.minAccuracy) : undefined;
+    if (minAccuracy !== undefined && (!Number.isFinite(minAccuracy) || minAccuracy < 0 || minAccuracy > 1)) {
+      console.error('❌ --min-accuracy must be a number between 0 and 1');
+      process.exit(1);
+    }
+
+    const screen = {
+      ...config.analysis.tasks?.screen,
+      ...(provider ? { provider: provider as LLMProviderName } : {}),
+      ...(options.model ? { model: options.model } : {}),
+    };
+    const evalConfig: Config = {
+      ...config,
+      analysis: {
+        ...config.analysis,
+        ...(options.recordings ? { recordingsPath: options.recordings } : {}),
+        ...(options.recordFrom ? { recordFrom: options.recordFrom as LLMProviderName } : {}),
+        tasks: { ...config.analysis.tasks, screen },
+      },
+    };
+
+    try {
+      const report = await new Evaluator(evalConfig, db, { fewShot: options.fewShot }).run(dataset);
+      const correct = report.results.filter(r => r.predicted === r.expected).length;
+
+      console.log(`\n🧪 Eval: ${report.dataset} (${report.cases} cases, ${report.model}@${report.promptHash})\n`);
+      console.log(`   Accuracy: ${formatPercent(report.accuracy)} (${correct}/${report.cases})${report.failed > 0 ? `, ${report.failed} failed` : ''}`);
+      if (report.focus) {
+        console.log(`   Focus in range: ${report.focus.inRange}/${report.focus.total}`);
+      }
+
+      const categories = Object.keys(report.perCategory)
+        .filter(c => report.perCategory[c].support > 0 || report.perCategory[c].predicted > 0);
+
+      console.log(`\n   ${'Category'.padEnd(12)} ${'Precision'.padStart(9)} ${'Recall'.padStart(8)} ${'Support'.padStart(8)}`);
+      for (const category of categories) {
+        const m = report.perCategory[category];
+        console.log(`   ${category.padEnd(12)} ${formatPercent(m.precision).padStart(9)} ${formatPercent(m.recall).padStart(8)} ${String(m.support).padStart(8)}`);
+      }
+
+      console.log('\n   Confusion (rows expected, columns predicted):');
+      console.log(`   ${''.padEnd(12)} ${categories.map(c => c.slice(0, 6).padStart(6)).join(' ')}`);
+      for (const expected of categories) {
+        const row = categories.map(predicted => String(report.confusion[expected][predicted] || 0).padStart(6));
+        console.log(`   ${expected.padEnd(12)} ${row.join(' ')}`);
+      }
+
+      const misses = report.results.filter(r => r.predicted !== r.expected || r.focusInRange === false);
+      if (misses.length > 0) {
+        console.log('\n   Misses:');
+        for (const r of misses) {
+          const got = r.predicted === null ? `error: ${r.error}` : `${r.predicted} (${r.confidence?.toFixed(2)}), focus ${r.focusScore ?? '-'}`;
+          console.log(`   ${r.id.padEnd(14)} expected ${r.expected}, got ${got}`);
+        }
+      }
+
+      console.log(`\n   Cost: $${report.usage.costUsd.toFixed(4)} (${report.usage.inputTokens} in / ${report.usage.outputTokens} out tokens)\n`);
+
+      if (minAccuracy !== undefined && report.accuracy < minAccuracy) {
+        console.error(`❌ Accuracy ${formatPercent(report.accuracy)} is below ${formatPercent(minAccuracy)}`);
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`\n❌ Eval failed:`, error?.message || error);
+      process.exit(1);
+    }
+
+    process.exit(0);
+  });
+
 // ===== UTILITY COMMANDS =====
 
 program
   .command('list [date]')
   .description('List all media and check-ins for a date')
   .action((date?: string) => {
-    const targetDate = date || format(new Date(), 'yyyy-MM-dd');
+    const targetDate = date || dayBoundary.today();
     
     console.log(`\n📅 Data for ${targetDate}\n`);
     
@@ -295,7 +877,8 @@ program
       for (const m of media) {
         const time = format(new Date(m.timestamp), 'HH:mm');
         const analyzed = m.analysis_json ? '✓' : '○';
-        console.log(`   ${time} [${m.type}] ${analyzed} ${path.basename(m.file_path)}`);
+        const purged = m.purged_at ? ' (file purged)' : '';
+        console.log(`   ${time} [${m.type}] ${analyzed} ${path.basename(m.file_path)}${purged}`);
       }
       console.log('');
     }
@@ -316,6 +899,201 @@ program
     process.exit(0);
   });
 
+// ===== REVIEW COMMANDS =====
+
+const reviewCommand = program
+  .command('review')
+  .description('Review low-confidence activity classifications');
+
+/**
+ * Dates ending at `date` (default: today), newest last
+ */
+function reviewDates(date: string | undefined, days: string): string[] {
+  const end = new Date(`${date || dayBoundary.today()}T12:00:00`);
+  const count = Math.max(1, parseInt(days) || 1);
+  return Array.from({ length: count }, (_, i) => format(subDays(end, count - 1 - i), 'yyyy-MM-dd'));
+}
+
+/**
+ * Media ids from arguments, or every item awaiting review with --all
+ */
+function reviewIds(ids: string[], options: { all?: boolean; date?: string; days: string }): number[] {
+  if (options.all) {
+    return reviewQueue.list(reviewDates(options.date, options.days)).map(item => item.mediaId);
+  }
+  const parsed = ids.map(id => parseInt(id.replace(/^#/, '')));
+  if (parsed.length === 0 || parsed.some(isNaN)) {
+    console.error('❌ Give media ids (as shown by \'lifelog review list\') or --all');
+    process.exit(1);
+  }
+  return parsed;
+}
+
+reviewCommand
+  .command('list [date]')
+  .description('List classifications below the confidence threshold (default: today)')
+  .option('-d, --days <n>', 'Include this many days ending at the date', '1')
+  .option('-t, --threshold <confidence>', 'Confidence below which to list (default: config review.threshold or 0.6)')
+  .action((date: string | undefined, options: { days: string; threshold?: string }) => {
+    const threshold = options.threshold !== undefined ? Number(options.threshold) : reviewQueue.threshold;
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      console.error('❌ --threshold must be a number between 0 and 1');
+      process.exit(1);
+    }
+    const items = reviewQueue.list(reviewDates(date, options.days), threshold);
+
+    if (items.length === 0) {
+      console.log(`\n✅ Nothing to review (confidence < ${threshold})\n`);
+      process.exit(0);
+    }
+
+    console.log(`\n🔎 ${items.length} classifications to review (confidence < ${threshold})\n`);
+    for (const item of items) {
+      const time = format(new Date(item.timestamp), 'MM-dd HH:mm');
+      const apps = item.applications?.length ? ` [${item.applications.join(', ')}]` : '';
+      console.log(`   #${String(item.mediaId).padEnd(6)} ${time}  ${item.category.padEnd(10)} ${item.confidence.toFixed(2)} (${item.source})`);
+      console.log(`            ${item.description}${apps}`);
+    }
+    console.log(`\n   Confirm: lifelog review confirm <ids...>   Relabel: lifelog review relabel <category> <ids...>\n`);
+    process.exit(0);
+  });
+
+reviewCommand
+  .command('confirm [ids...]')
+  .description('Mark classifications as correct')
+  .option('-a, --all', 'Confirm everything awaiting review')
+  .option('--date <date>', 'With --all: last day to include (default: today)')
+  .option('-d, --days <n>', 'With --all: number of days to include', '1')
+  .action((ids: string[], options: { all?: boolean; date?: string; days: string }) => {
+    const confirmed = reviewQueue.confirm(reviewIds(ids, options));
+    console.log(`\n✅ Confirmed ${confirmed} classifications\n`);
+    process.exit(0);
+  });
+
+reviewCommand
+  .command('relabel <category> [ids...]')
+  .description('Change the category of classifications and recompute affected summaries')
+  .option('-a, --all', 'Relabel everything awaiting review')
+  .option('--date <date>', 'With --all: last day to include (default: today)')
+  .option('-d, --days <n>', 'With --all: number of days to include', '1')
+  .action(async (category: string, ids: string[], options: { all?: boolean; date?: string; days: string }) => {
+    try {
+      const result = await reviewQueue.relabel(reviewIds(ids, options), category);
+      console.log(`\n✅ Relabeled ${result.updated} classifications as ${category}`);
+      if (result.resummarized.length > 0) {
+        console.log(`   Summaries recomputed: ${result.resummarized.join(', ')}`);
+      }
+      console.log('');
+    } catch (error: any) {
+      console.error(`❌ ${error?.message || error}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  });
+
+// ===== STORAGE COMMANDS =====
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+const storageCommand = program
+  .command('storage')
+  .description('Manage disk usage of recorded media');
+
+storageCommand
+  .command('usage')
+  .description('Show disk usage by media type')
+  .action(() => {
+    const usage = storage.getUsage();
+
+    console.log('\n💾 Media Storage\n');
+    for (const [type, { files, bytes }] of Object.entries(usage.byType)) {
+      console.log(`   ${type.padEnd(8)} ${String(files).padStart(6)} files  ${formatBytes(bytes)}`);
+    }
+    console.log(`\n   Total: ${formatBytes(usage.totalBytes)}`);
+    if (usage.quotaBytes !== null) {
+      const percent = Math.round((usage.totalBytes / usage.quotaBytes) * 100);
+      console.log(`   Quota: ${formatBytes(usage.quotaBytes)} (${percent}% used)`);
+    }
+    if (usage.purged > 0) {
+      console.log(`   Purged: ${usage.purged} files (analyses kept)`);
+    }
+    if (usage.missing > 0) {
+      console.log(`   ⚠️ Missing: ${usage.missing} files not on disk (run 'lifelog storage prune' to mark them)`);
+    }
+    console.log('');
+    process.exit(0);
+  });
+
+storageCommand
+  .command('prune')
+  .description('Delete media past its retention period or over quota (analyses are kept)')
+  .option('-n, --dry-run', 'Show what would be deleted without deleting')
+  .action((options: { dryRun?: boolean }) => {
+    const result = storage.prune({ dryRun: options.dryRun });
+
+    console.log(`\n🧹 ${result.dryRun ? 'Would purge' : 'Purged'} ${result.purged.length} files, freeing ${formatBytes(result.freedBytes)}`);
+    for (const reason of ['age', 'quota', 'missing'] as const) {
+      const count = result.purged.filter(p => p.reason === reason).length;
+      if (count > 0) {
+        console.log(`   - ${reason}: ${count}`);
+      }
+    }
+    if (result.skippedUnanalyzed > 0) {
+      console.log(`   Kept ${result.skippedUnanalyzed} expired files that haven't been analyzed yet`);
+    }
+    console.log('');
+    process.exit(0);
+  });
+
+storageCommand
+  .command('compress')
+  .description('Re-encode older recordings, screenshots and audio to save space')
+  .option('-n, --dry-run', 'Show how many files would be compressed')
+  .option('-o, --older-than <days>', 'Only compress files older than this many days')
+  .action(async (options: { dryRun?: boolean; olderThan?: string }) => {
+    const olderThanDays = options.olderThan !== undefined ? parseFloat(options.olderThan) : undefined;
+    if (olderThanDays !== undefined && (isNaN(olderThanDays) || olderThanDays < 0)) {
+      console.error('❌ --older-than must be a number of days');
+      process.exit(1);
+    }
+
+    const result = await storage.compress({ dryRun: options.dryRun, olderThanDays });
+
+    if (result.dryRun) {
+      console.log(`\n🗜️ Would compress ${result.compressed} files\n`);
+    } else {
+      console.log(`\n🗜️ Compressed ${result.compressed} files, saving ${formatBytes(result.savedBytes)}`);
+      if (result.skipped > 0) console.log(`   ${result.skipped} already compact`);
+      if (result.failed > 0) console.log(`   ⚠️ ${result.failed} failed`);
+      console.log('');
+    }
+    process.exit(0);
+  });
+
+storageCommand
+  .command('encrypt')
+  .description('Encrypt an existing data directory in place (needs encryption.enabled and the passphrase)')
+  .action(() => {
+    if (!db.getEncryptor().isEnabled()) {
+      console.error('❌ Set "encryption": { "enabled": true } in config.json and export LIFELOG_PASSPHRASE first');
+      process.exit(1);
+    }
+
+    try {
+      const result = storage.encryptExisting();
+      console.log(`\n🔐 Encrypted ${result.files} media files, ${result.checkIns} check-ins, ${result.activities} activities, ${result.analyses} analyses and ${result.summaries} summaries\n`);
+    } catch (error: any) {
+      console.error('❌ Encryption failed:', error?.message || error);
+      process.exit(1);
+    }
+    process.exit(0);
+  });
+
 // ===== GOALS COMMANDS =====
 
 const goalsCommand = program
@@ -341,7 +1119,7 @@ goalsCommand
   .description('Add a new goal')
   .option('-t, --type <type>', 'Goal type: daily, weekly, or streak', 'daily')
   .option('--target <number>', 'Target value (minutes for time, count for frequency)', '240')
-  .option('-c, --category <category>', 'Activity category to track (coding, meetings, etc.)')
+  .option('-c, --category <category>', 'Activity category or category group to track (coding, meetings, etc.)')
   .action((name: string, options: { type: string; target: string; category?: string }) => {
     const validTypes: GoalType[] = ['daily', 'weekly', 'streak'];
     const goalType = options.type as GoalType;
@@ -357,9 +1135,10 @@ goalsCommand
       process.exit(1);
     }
 
-    const validCategories: ActivityCategory[] = ['coding', 'meetings', 'browsing', 'social', 'email', 'breaks', 'other'];
-    if (options.category && !validCategories.includes(options.category as ActivityCategory)) {
-      console.error(`❌ Invalid category. Must be one of: ${validCategories.join(', ')}`);
+    const taxonomy = new Taxonomy(config);
+    if (options.category && !taxonomy.isKnown(options.category)) {
+      const groups = Array.from(new Set(taxonomy.categories.map(c => c.parent).filter(Boolean)));
+      console.error(`❌ Invalid category. Must be one of: ${[...taxonomy.ids(), ...groups].join(', ')}`);
       process.exit(1);
     }
 
@@ -367,7 +1146,7 @@ goalsCommand
       name, 
       goalType, 
       target, 
-      options.category as ActivityCategory | undefined
+      options.category
     );
     
     console.log(`\n✅ Goal created!`);
@@ -399,7 +1178,7 @@ goalsCommand
   .command('progress [date]')
   .description('Show goal progress for a specific date')
   .action(async (date?: string) => {
-    const targetDate = date || format(new Date(), 'yyyy-MM-dd');
+    const targetDate = date || dayBoundary.today();
     const output = await goalManager.formatProgressForCLI(targetDate);
     console.log(output);
     process.exit(0);
@@ -1,14 +1,18 @@
 /**
  * AI Coaching System
- * Generates personalized coaching messages using Claude API
+ * Generates personalized coaching messages using the configured LLM provider
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { format, parseISO, subDays, startOfWeek, endOfWeek, isToday, isSunday } from 'date-fns';
-import { Config, DailySummaryContent, TrendData } from '../types/index.js';
+import { Config, DailySummaryContent, TrendData, Anomaly, Correlation, FocusWindow, DayForecast } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
 import { GoalManager, GoalProgress } from '../goals/manager.js';
 import { PatternDetector } from '../analysis/patterns.js';
+import { CorrelationEngine } from '../analysis/correlations.js';
+import { FocusCurve, WEEKDAYS } from '../analysis/focus-curve.js';
+import { Forecaster } from '../analysis/forecast.js';
+import { LLMProvider, createLLMProvider } from '../llm/providers.js';
 
 export interface CoachingMessage {
   type: 'briefing' | 'review' | 'nudge' | 'weekly' | 'insight';
@@ -17,31 +21,40 @@ export interface CoachingMessage {
   goalsIncluded: boolean;
 }
 
+// Most unusual anomalies included in a coaching prompt
+const MAX_ANOMALIES_IN_CONTEXT = 5;
+
+// Strongest mood/energy correlations included in weekly insights
+const MAX_CORRELATIONS_IN_CONTEXT = 3;
+
 export class Coach {
   private config: Config;
   private db: LifeLogDatabase;
   private goalManager: GoalManager;
   private patterns: PatternDetector;
-  private anthropic: Anthropic;
+  private correlations: CorrelationEngine;
+  private focusCurve: FocusCurve;
+  private forecaster: Forecaster;
+  private provider: LLMProvider | null = null;
+  private days: DayBoundary;
 
   constructor(config: Config, db: LifeLogDatabase) {
     this.config = config;
     this.db = db;
     this.goalManager = new GoalManager(config, db);
     this.patterns = new PatternDetector(config, db);
-    
-    // Initialize Anthropic client
-    this.anthropic = new Anthropic({
-      apiKey: config.analysis?.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-    });
+    this.correlations = new CorrelationEngine(config, db);
+    this.focusCurve = new FocusCurve(config, db);
+    this.forecaster = new Forecaster(config, db);
+    this.days = new DayBoundary(config);
   }
 
   /**
    * Generate morning briefing
    */
   async generateMorningBriefing(): Promise<string> {
-    const today = format(new Date(), 'yyyy-MM-dd');
-    const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+    const today = this.days.today();
+    const yesterday = format(subDays(parseISO(today), 1), 'yyyy-MM-dd');
 
     // Get yesterday's summary
     const yesterdaySummary = this.getSummary(yesterday);
@@ -56,11 +69,18 @@ export class Coach {
     // Get recent patterns (last 7 days)
     const trends = await this.patterns.detectTrends(7);
 
-    // Build context for Claude
-    const context = this.buildBriefingContext(yesterdaySummary, goalProgress, trends, todayCheckIns);
+    // Best focus window for today's weekday, from months of history
+    await this.focusCurve.update();
+    const bestWindow = this.focusCurve.bestWindow(this.focusCurve.getModel(), this.focusCurve.today());
 
-    // Generate with Claude
-    const message = await this.generateWithClaude('briefing', context);
+    // Forecast for today, to flag goals at risk before the day starts
+    const forecast = this.forecaster.forecast(today);
+
+    // Build context for the model
+    const context = this.buildBriefingContext(yesterdaySummary, goalProgress, trends, todayCheckIns, bestWindow, forecast);
+
+    // Generate with the coaching model
+    const message = await this.generateMessage('briefing', context);
     
     return message;
   }
@@ -69,8 +89,8 @@ export class Coach {
    * Generate evening review
    */
   async generateEveningReview(): Promise<string> {
-    const today = format(new Date(), 'yyyy-MM-dd');
-    const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+    const today = this.days.today();
+    const yesterday = format(subDays(parseISO(today), 1), 'yyyy-MM-dd');
 
     // Get today's summary
     const todaySummary = this.getSummary(today);
@@ -83,11 +103,14 @@ export class Coach {
     const goals = this.goalManager.getAllGoals();
     const streaksAtRisk = goals.filter(g => this.goalManager.isStreakAtRisk(g, today));
 
+    // Forecast for tomorrow
+    const forecast = this.forecaster.forecast();
+
     // Build context
-    const context = this.buildReviewContext(todaySummary, yesterdaySummary, goalProgress, streaksAtRisk);
+    const context = this.buildReviewContext(todaySummary, yesterdaySummary, goalProgress, streaksAtRisk, forecast);
 
-    // Generate with Claude
-    const message = await this.generateWithClaude('review', context);
+    // Generate with the coaching model
+    const message = await this.generateMessage('review', context);
     
     return message;
   }
@@ -105,11 +128,14 @@ export class Coach {
     // Get goal progress for the week
     const goalProgress = await this.goalManager.getAllGoalsProgress();
 
+    // How mood and energy relate to their work (needs more than a week of check-ins)
+    const correlations = await this.correlations.recent();
+
     // Build context
-    const context = this.buildWeeklyContext(trends, lastWeekTrends, goalProgress);
+    const context = this.buildWeeklyContext(trends, lastWeekTrends, goalProgress, correlations.correlations);
 
-    // Generate with Claude
-    const message = await this.generateWithClaude('weekly', context);
+    // Generate with the coaching model
+    const message = await this.generateMessage('weekly', context);
     
     return message;
   }
@@ -118,7 +144,7 @@ export class Coach {
    * Generate a nudge based on current activity
    */
   async generateNudge(currentActivity: string, durationMinutes: number): Promise<string | null> {
-    const today = format(new Date(), 'yyyy-MM-dd');
+    const today = this.days.today();
     const goalProgress = await this.goalManager.getAllGoalsProgress(today);
 
     // Check if nudge is warranted
@@ -136,7 +162,7 @@ export class Coach {
       })),
     };
 
-    const message = await this.generateWithClaude('nudge', JSON.stringify(context, null, 2));
+    const message = await this.generateMessage('nudge', JSON.stringify(context, null, 2));
     return message;
   }
 
@@ -180,7 +206,7 @@ export class Coach {
 
     // Goal deadline approaching
     const unmetGoals = goalProgress.filter(p => !p.met && p.percentage < 50);
-    const hours = new Date().getHours();
+    const hours = this.days.hourOf(new Date());
     
     if (unmetGoals.length > 0 && hours >= 17) {
       return {
@@ -199,7 +225,9 @@ export class Coach {
     yesterday: DailySummaryContent | null,
     goalProgress: GoalProgress[],
     trends: TrendData,
-    todayCheckIns: { timestamp: string; message: string }[]
+    todayCheckIns: { timestamp: string; message: string }[],
+    bestWindow: FocusWindow | null,
+    forecast: DayForecast | null
   ): string {
     let context = '## Morning Briefing Context\n\n';
 
@@ -214,6 +242,7 @@ export class Coach {
       if (yesterday.insights.length > 0) {
         context += `- Key insights: ${yesterday.insights.slice(0, 3).join('; ')}\n`;
       }
+      context += this.formatAnomalies('Unusual vs Their Baseline', yesterday.anomalies || []);
     } else {
       context += '### Yesterday: No data recorded\n';
     }
@@ -243,6 +272,17 @@ export class Coach {
       context += `- Most productive day: ${bestDay[0]} (${bestDay[1]}/100)\n`;
     }
 
+    // Focus curve
+    if (bestWindow) {
+      const hour = (h: number) => `${(h % 24).toString().padStart(2, '0')}:00`;
+      const band = bestWindow.low !== null ? `, usually ${bestWindow.low}-${bestWindow.high}` : '';
+      context += '\n### Focus Curve:\n';
+      context += `- Best window today (${WEEKDAYS[bestWindow.weekday]}): ${hour(bestWindow.startHour)}-${hour(bestWindow.endHour)} `;
+      context += `(focus ${bestWindow.focusScore}${band}, over ${bestWindow.days}+ ${WEEKDAYS[bestWindow.weekday]}s)\n`;
+    }
+
+    context += this.formatForecast('Forecast for Today', forecast);
+
     // Today's check-ins
     if (todayCheckIns.length > 0) {
       context += '\n### Already logged today:\n';
@@ -261,7 +301,8 @@ export class Coach {
     today: DailySummaryContent | null,
     yesterday: DailySummaryContent | null,
     goalProgress: GoalProgress[],
-    streaksAtRisk: { name: string; currentStreak: number }[]
+    streaksAtRisk: { name: string; currentStreak: number }[],
+    forecast: DayForecast | null
   ): string {
     let context = '## Evening Review Context\n\n';
 
@@ -290,6 +331,8 @@ export class Coach {
         context += `- Focus score: ${focusDiff >= 0 ? '+' : ''}${focusDiff}\n`;
         context += `- Deep work: ${deepWorkDiff >= 0 ? '+' : ''}${deepWorkDiff}min\n`;
       }
+
+      context += this.formatAnomalies('Unusual vs Their Baseline', today.anomalies || []);
     } else {
       context += '### Today: No data recorded yet\n';
     }
@@ -316,6 +359,8 @@ export class Coach {
       }
     }
 
+    context += this.formatForecast('Forecast for Tomorrow', forecast);
+
     return context;
   }
 
@@ -325,7 +370,8 @@ export class Coach {
   private buildWeeklyContext(
     thisWeek: TrendData,
     previousPeriod: TrendData,
-    goalProgress: GoalProgress[]
+    goalProgress: GoalProgress[],
+    correlations: Correlation[]
   ): string {
     let context = '## Weekly Insights Context\n\n';
 
@@ -367,6 +413,16 @@ export class Coach {
       }
     }
 
+    context += this.formatAnomalies('Unusual Days and Hours', thisWeek.anomalies);
+
+    // Mood and energy vs work
+    if (correlations.length > 0) {
+      context += '\n### How They Feel vs How They Work:\n';
+      for (const c of correlations.slice(0, MAX_CORRELATIONS_IN_CONTEXT)) {
+        context += `- ${c.description} (${c.high.mean} vs ${c.low.mean} of 5, effect size ${c.effectSize}, p = ${c.pValue}, ${c.high.n + c.low.n} samples)\n`;
+      }
+    }
+
     // Goal streaks
     context += '\n### Goal Streaks:\n';
     for (const progress of goalProgress) {
@@ -379,27 +435,63 @@ export class Coach {
   }
 
   /**
-   * Generate message with Claude
+   * Context section listing anomalies, most unusual first; empty without any
+   */
+  private formatAnomalies(title: string, anomalies: Anomaly[]): string {
+    if (anomalies.length === 0) return '';
+
+    let section = `\n### ${title}:\n`;
+    const sorted = [...anomalies].sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+    for (const anomaly of sorted.slice(0, MAX_ANOMALIES_IN_CONTEXT)) {
+      const direction = anomaly.score > 0 ? 'above' : 'below';
+      section += `- ${anomaly.date}: ${anomaly.description} (${Math.abs(anomaly.score)} deviations ${direction})\n`;
+    }
+    return section;
+  }
+
+  /**
+   * Context section with a day's forecast and the goals at risk; empty without one
+   */
+  private formatForecast(title: string, forecast: DayForecast | null): string {
+    if (!forecast) return '';
+
+    const { focusScore, deepWorkMinutes } = forecast;
+    let section = `\n### ${title} (from ${forecast.historyDays} days):\n`;
+    section += `- Focus score: ${focusScore.value}/100 (likely ${focusScore.low}-${focusScore.high})\n`;
+    section += `- Deep work: ${deepWorkMinutes.value}min (likely ${deepWorkMinutes.low}-${deepWorkMinutes.high})\n`;
+    if (forecast.scheduledMeetingMinutes !== null) {
+      section += `- Meetings on the calendar: ${forecast.scheduledMeetingMinutes}min\n`;
+    }
+    for (const goal of forecast.goals) {
+      const when = goal.type === 'weekly' ? ' by the end of the week' : '';
+      section += `- ${goal.atRisk ? '⚠️ At risk: ' : ''}${goal.goalName}: ${Math.round(goal.probability * 100)}% chance${when} (expected ${goal.expected}/${goal.target})\n`;
+    }
+    return section;
+  }
+
+  /**
+   * Generate message with the coaching model
    */
-  private async generateWithClaude(type: string, context: string): Promise<string> {
+  private async generateMessage(type: string, context: string): Promise<string> {
     const systemPrompts: Record<string, string> = {
       briefing: `You are a supportive AI life coach providing a morning briefing. Be encouraging, specific, and actionable. Keep it concise (2-3 short paragraphs max). Use emojis sparingly but naturally. Focus on:
 1. Quick acknowledgment of yesterday's performance
-2. Key goals/priorities for today
-3. One motivational insight or tip based on their patterns
+2. Key goals/priorities for today (if their best focus window is known, suggest saving it for the hardest one; if the forecast puts a goal at risk, say so early and suggest how to protect it)
+3. One motivational insight or tip based on their patterns (if yesterday was unusual for them, say what stood out)
 
 Don't be overly enthusiastic or fake. Be genuine, helpful, and human.`,
 
       review: `You are a supportive AI life coach providing an evening review. Be honest but encouraging. Keep it concise (2-3 short paragraphs max). Use emojis sparingly but naturally. Focus on:
 1. What went well today
 2. Goal progress (celebrate wins, acknowledge gaps without judgment)
-3. One small suggestion for tomorrow
+3. One small suggestion for tomorrow, informed by tomorrow's forecast when there is one
+4. If today was unusual compared with their baseline, the most notable difference (without alarm)
 
 Don't be preachy or lecture. Be a supportive friend who wants them to succeed.`,
 
       weekly: `You are a supportive AI life coach providing a weekly insights summary. Be analytical but encouraging. Keep it concise (3-4 short paragraphs max). Use emojis sparingly. Focus on:
 1. Key trends this week (good and bad)
-2. Patterns they should be aware of
+2. Patterns they should be aware of, including days or hours that were unusual for them and what seems to affect their mood and energy
 3. Specific, actionable suggestions for next week
 4. Celebrate progress and streaks
 
@@ -413,21 +505,15 @@ Be data-driven but human. Avoid generic advice - make it specific to their patte
 Be like a helpful friend, not a nagging parent.`,
     };
 
-    const response = await this.anthropic.messages.create({
-      model: this.config.analysis?.model || 'claude-sonnet-4-20250514',
-      max_tokens: 500,
+    // Created on first use, so commands that never call the model need no API key
+    this.provider = this.provider || createLLMProvider(this.config, 'coaching');
+    const response = await this.provider.complete({
+      maxTokens: 500,
       system: systemPrompts[type] || systemPrompts.briefing,
-      messages: [
-        {
-          role: 'user',
-          content: context,
-        },
-      ],
+      prompt: context,
     });
 
-    // Extract text from response
-    const textBlock = response.content.find(block => block.type === 'text');
-    return textBlock?.text || 'Unable to generate coaching message.';
+    return response.text || 'Unable to generate coaching message.';
   }
 
   /**
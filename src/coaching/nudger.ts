@@ -8,19 +8,23 @@ import path from 'path';
 import { format, parseISO, differenceInMinutes } from 'date-fns';
 import { Config, DailySummaryContent } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
 import { GoalManager, GoalProgress } from '../goals/manager.js';
 import { Coach } from './coach.js';
+import { Taxonomy } from '../analysis/taxonomy.js';
+import { Forecaster } from '../analysis/forecast.js';
 
 interface NudgeState {
   lastNudgeTimestamp: string | null;
   lastNudgeType: string | null;
   nudgeCount: number; // nudges today
   lastResetDate: string;
+  lastForecastWarning?: string; // date goals at risk in the forecast were last warned about
 }
 
 interface NudgeResult {
   shouldNudge: boolean;
-  nudgeType?: 'distraction' | 'break' | 'goal' | 'streak';
+  nudgeType?: 'distraction' | 'break' | 'goal' | 'streak' | 'forecast';
   message?: string;
   reason?: string;
 }
@@ -30,6 +34,9 @@ export class Nudger {
   private db: LifeLogDatabase;
   private goalManager: GoalManager;
   private coach: Coach;
+  private taxonomy: Taxonomy;
+  private forecaster: Forecaster;
+  private days: DayBoundary;
   private stateFilePath: string;
   private state: NudgeState;
 
@@ -42,6 +49,9 @@ export class Nudger {
     this.db = db;
     this.goalManager = new GoalManager(config, db);
     this.coach = new Coach(config, db);
+    this.taxonomy = new Taxonomy(config);
+    this.forecaster = new Forecaster(config, db);
+    this.days = new DayBoundary(config);
     this.stateFilePath = path.join(process.cwd(), 'nudge-state.json');
     this.state = this.loadState();
   }
@@ -62,7 +72,7 @@ export class Nudger {
       lastNudgeTimestamp: null,
       lastNudgeType: null,
       nudgeCount: 0,
-      lastResetDate: format(new Date(), 'yyyy-MM-dd'),
+      lastResetDate: this.days.today(),
     };
   }
 
@@ -77,7 +87,7 @@ export class Nudger {
    * Check if enough time has passed since last nudge
    */
   private canNudge(): boolean {
-    const today = format(new Date(), 'yyyy-MM-dd');
+    const today = this.days.today();
     
     // Reset counter if new day
     if (this.state.lastResetDate !== today) {
@@ -120,8 +130,8 @@ export class Nudger {
       return { shouldNudge: false };
     }
 
-    const today = format(new Date(), 'yyyy-MM-dd');
-    const currentHour = new Date().getHours();
+    const today = this.days.today();
+    const currentHour = this.days.hourOf(new Date());
 
     // Don't nudge late at night or early morning
     if (currentHour < 7 || currentHour > 22) {
@@ -163,7 +173,17 @@ export class Nudger {
       }
     }
 
-    // 3. Check for goals at risk (afternoon check)
+    // 3. Warn once in the morning about goals the forecast puts at risk
+    if (currentHour >= 9 && currentHour < 14 && this.state.lastForecastWarning !== today) {
+      result = this.checkForForecastRisk(goalProgress);
+      if (result.shouldNudge) {
+        this.state.lastForecastWarning = today;
+        this.recordNudge('forecast');
+        return result;
+      }
+    }
+
+    // 4. Check for goals at risk (afternoon check)
     if (currentHour >= 14) {
       result = this.checkForGoalsAtRisk(goalProgress);
       if (result.shouldNudge) {
@@ -178,7 +198,7 @@ export class Nudger {
       }
     }
 
-    // 4. Check for streaks at risk (evening check)
+    // 5. Check for streaks at risk (evening check)
     if (currentHour >= 17) {
       result = this.checkForStreaksAtRisk(goalProgress);
       if (result.shouldNudge) {
@@ -198,7 +218,7 @@ export class Nudger {
     durationMinutes: number;
     description: string | null;
   }> {
-    const today = format(new Date(), 'yyyy-MM-dd');
+    const today = this.days.today();
     
     // Get recent media with analysis
     const media = this.db.getMediaByDate(today);
@@ -254,17 +274,15 @@ export class Nudger {
     durationMinutes: number;
     description: string | null;
   }): NudgeResult {
-    const distractingCategories = ['social', 'browsing'];
-    
     if (
       recentActivity.category && 
-      distractingCategories.includes(recentActivity.category) &&
+      this.taxonomy.isDistracting(recentActivity.category) &&
       recentActivity.durationMinutes >= 30
     ) {
       return {
         shouldNudge: true,
         nudgeType: 'distraction',
-        reason: `${recentActivity.durationMinutes}min on ${recentActivity.category}`,
+        reason: `${recentActivity.durationMinutes}min on ${this.taxonomy.label(recentActivity.category).toLowerCase()}`,
       };
     }
 
@@ -279,11 +297,9 @@ export class Nudger {
     durationMinutes: number;
     description: string | null;
   }): NudgeResult {
-    const workCategories = ['coding', 'meetings'];
-    
     if (
       recentActivity.category &&
-      workCategories.includes(recentActivity.category) &&
+      this.taxonomy.isDeepWork(recentActivity.category) &&
       recentActivity.durationMinutes >= 120
     ) {
       return {
@@ -319,6 +335,34 @@ export class Nudger {
     return { shouldNudge: false };
   }
 
+  /**
+   * Check if today's forecast gives goals that aren't met yet a low chance
+   */
+  private checkForForecastRisk(goalProgress: GoalProgress[]): NudgeResult {
+    const forecast = this.forecaster.forecast(this.days.today());
+    if (!forecast) {
+      return { shouldNudge: false };
+    }
+
+    const met = new Set(goalProgress.filter(p => p.met).map(p => p.goal.id));
+    const atRisk = forecast.goals.filter(g => g.atRisk && !met.has(g.goalId));
+
+    if (atRisk.length > 0) {
+      const goalInfo = atRisk.map(g =>
+        `${g.goalName} (${Math.round(g.probability * 100)}%${g.type === 'weekly' ? ' this week' : ''})`
+      ).join(', ');
+
+      return {
+        shouldNudge: true,
+        nudgeType: 'forecast',
+        reason: `Forecast puts goals at risk: ${goalInfo}`,
+        message: `📉 Going by your recent days, these goals look unlikely: ${goalInfo}. Block time for them early!`,
+      };
+    }
+
+    return { shouldNudge: false };
+  }
+
   /**
    * Check if any streaks are at risk of breaking
    */
@@ -362,6 +406,7 @@ If output is not "HEARTBEAT_OK", send the nudge message to the active channel.
 Nudge conditions checked:
 - Distraction: >30min on social media/browsing
 - Break needed: >2hrs of deep work without break  
+- Forecast risk: Goals today's forecast gives a low chance (once, 9am-2pm)
 - Goal at risk: Daily goals <50% complete after 2pm
 - Streak at risk: Active streaks that haven't been hit today (after 5pm)
 
@@ -5,9 +5,11 @@
 
 import fs from 'fs';
 import path from 'path';
-import { format, parseISO, differenceInDays, startOfWeek, endOfWeek, subDays, isWithinInterval } from 'date-fns';
+import { format, parseISO, differenceInDays, startOfWeek, endOfWeek, subDays, addDays, isWithinInterval } from 'date-fns';
 import { Config, DailySummaryContent, ActivityCategory } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
+import { DayBoundary } from '../storage/day-boundary.js';
+import { Taxonomy, FALLBACK_CATEGORY } from '../analysis/taxonomy.js';
 
 export type GoalType = 'daily' | 'weekly' | 'streak';
 
@@ -17,7 +19,7 @@ export interface Goal {
   type: GoalType;
   target: number; // minutes for time-based, count for frequency-based
   frequency: 'daily' | 'weekly';
-  category?: ActivityCategory; // optional: track specific category
+  category?: ActivityCategory; // optional: track a category, or a parent group of categories
   created: string;
   lastHit: string | null;
   currentStreak: number;
@@ -39,10 +41,14 @@ export class GoalManager {
   private db: LifeLogDatabase;
   private goalsPath: string;
   private goals: Goal[];
+  private taxonomy: Taxonomy;
+  private days: DayBoundary;
 
   constructor(config: Config, db: LifeLogDatabase) {
     this.config = config;
     this.db = db;
+    this.taxonomy = new Taxonomy(config);
+    this.days = new DayBoundary(config);
     this.goalsPath = path.join(process.cwd(), 'goals.json');
     this.goals = this.loadGoals();
   }
@@ -92,7 +98,7 @@ export class GoalManager {
       target,
       frequency: type === 'weekly' ? 'weekly' : 'daily',
       category,
-      created: format(new Date(), 'yyyy-MM-dd'),
+      created: this.days.today(),
       lastHit: null,
       currentStreak: 0,
       longestStreak: 0,
@@ -144,7 +150,7 @@ export class GoalManager {
   /**
    * Get progress for a specific goal on a date
    */
-  async getGoalProgress(goal: Goal, date: string = format(new Date(), 'yyyy-MM-dd')): Promise<GoalProgress> {
+  async getGoalProgress(goal: Goal, date: string = this.days.today()): Promise<GoalProgress> {
     const summary = this.getSummary(date);
     let current = 0;
     let daysRemaining: number | undefined;
@@ -164,7 +170,7 @@ export class GoalManager {
       daysRemaining = differenceInDays(weekEnd, today);
 
       // Aggregate from all days this week
-      for (let d = weekStart; d <= today; d = new Date(d.getTime() + 86400000)) {
+      for (let d = weekStart; d <= today; d = addDays(d, 1)) {
         const dayDate = format(d, 'yyyy-MM-dd');
         const daySummary = this.getSummary(dayDate);
         if (daySummary) {
@@ -195,7 +201,7 @@ export class GoalManager {
   /**
    * Get progress for all goals
    */
-  async getAllGoalsProgress(date: string = format(new Date(), 'yyyy-MM-dd')): Promise<GoalProgress[]> {
+  async getAllGoalsProgress(date: string = this.days.today()): Promise<GoalProgress[]> {
     const progressList: GoalProgress[] = [];
     for (const goal of this.goals) {
       const progress = await this.getGoalProgress(goal, date);
@@ -207,7 +213,7 @@ export class GoalManager {
   /**
    * Calculate progress from a daily summary based on goal type
    */
-  private calculateProgressFromSummary(summary: DailySummaryContent, goal: Goal): number {
+  calculateProgressFromSummary(summary: DailySummaryContent, goal: Goal): number {
     // Check goal name to determine what to track
     const nameLower = goal.name.toLowerCase();
 
@@ -218,12 +224,13 @@ export class GoalManager {
 
     // Category-specific goals
     if (goal.category) {
-      return summary.categoryBreakdown[goal.category] || 0;
+      return this.sumCategories(summary, goal.category);
     }
 
-    // Coding goals
-    if (nameLower.includes('coding') || nameLower.includes('code') || nameLower.includes('programming')) {
-      return summary.categoryBreakdown.coding || 0;
+    // Goals that name a deep-work category, e.g. "2h coding" (matched by its keywords)
+    const named = this.taxonomy.classifyText(nameLower);
+    if (named !== FALLBACK_CATEGORY && this.taxonomy.isDeepWork(named)) {
+      return summary.categoryBreakdown[named] || 0;
     }
 
     // Exercise/fitness goals (track as a count from check-ins)
@@ -250,6 +257,14 @@ export class GoalManager {
     return summary.totalTrackedMinutes;
   }
 
+  /**
+   * Minutes in a category, or in every category of a parent group
+   */
+  private sumCategories(summary: DailySummaryContent, categoryOrGroup: string): number {
+    return this.taxonomy.members(categoryOrGroup)
+      .reduce((sum, id) => sum + (summary.categoryBreakdown[id] || 0), 0);
+  }
+
   /**
    * Update streak for a goal
    */
@@ -276,7 +291,7 @@ export class GoalManager {
   /**
    * Check if a streak is at risk (would break tomorrow)
    */
-  isStreakAtRisk(goal: Goal, date: string = format(new Date(), 'yyyy-MM-dd')): boolean {
+  isStreakAtRisk(goal: Goal, date: string = this.days.today()): boolean {
     if (goal.type !== 'streak' && goal.currentStreak === 0) return false;
     
     const today = date;
@@ -314,7 +329,7 @@ export class GoalManager {
     output += '═'.repeat(60) + '\n\n';
 
     // Get today's progress for all goals
-    const today = format(new Date(), 'yyyy-MM-dd');
+    const today = this.days.today();
 
     for (const goal of this.goals) {
       const typeIcon = goal.type === 'daily' ? '📅' : goal.type === 'weekly' ? '📆' : '🔥';
@@ -332,7 +347,7 @@ export class GoalManager {
   /**
    * Format progress for CLI display
    */
-  async formatProgressForCLI(date: string = format(new Date(), 'yyyy-MM-dd')): Promise<string> {
+  async formatProgressForCLI(date: string = this.days.today()): Promise<string> {
     const progressList = await this.getAllGoalsProgress(date);
 
     if (progressList.length === 0) {
@@ -1,11 +1,28 @@
 // LifeLog Agent - Main Entry Point
 export { LifeLogDatabase } from './storage/database.js';
 export { MarkdownLogger } from './storage/markdown-logger.js';
+export { Encryptor, createEncryptor } from './storage/encryption.js';
 export { SessionManager } from './services/session-manager.js';
+export { SessionDaemon, SessionClient, getSocketPath } from './services/session-daemon.js';
+export type { DaemonCommand, DaemonRequest, DaemonResponse } from './services/session-daemon.js';
 export { ScreenRecorder } from './services/screen-recorder.js';
 export { CameraSnapshot } from './services/camera-snapshot.js';
+export { OpenClawBackend, FfmpegBackend, FixtureBackend, createCaptureBackend } from './services/capture-backends.js';
+export type { CaptureBackend, CameraFacing } from './services/capture-backends.js';
+export { CaptureBlocklist } from './services/capture-blocklist.js';
+export { WindowTracker, MacOSWindowProbe, LinuxWindowProbe, ScriptedWindowProbe, createWindowProbe } from './services/window-tracker.js';
+export type { WindowProbe } from './services/window-tracker.js';
+export { IdleDetector, MacOSIdleProbe, LinuxIdleProbe, ScriptedIdleProbe, createIdleProbe } from './services/idle-detector.js';
+export type { IdleProbe, IdleTransition } from './services/idle-detector.js';
 export { AudioRecorder } from './services/audio-recorder.js';
+export { SilenceSplitter } from './services/voice-activity.js';
+export type { VoiceActivity } from './services/voice-activity.js';
+export { OpenAITranscriptionProvider, LocalWhisperProvider, createTranscriptionProvider } from './services/transcription.js';
+export type { TranscriptionProvider } from './services/transcription.js';
 export { CheckInHandler } from './services/checkin-handler.js';
 export { Exporter } from './services/exporter.js';
+export { StorageManager } from './services/storage-manager.js';
+export { AnthropicProvider, OpenAIProvider, RecordedProvider, createLLMProvider, estimateCost, DEFAULT_MODELS } from './llm/index.js';
+export type { LLMProvider, LLMRequest, LLMResponse } from './llm/index.js';
 export { XPService, XPActivity, XP_REWARDS } from './services/xp.js';
 export * from './types/index.js';
@@ -0,0 +1,17 @@
+/**
+ * LLM Module Exports
+ */
+
+export {
+  AnthropicProvider,
+  OpenAIProvider,
+  RecordedProvider,
+  createLLMProvider,
+  estimateCost,
+  parseJSONReply,
+  DEFAULT_MODELS,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type ImageMediaType,
+} from './providers.js';
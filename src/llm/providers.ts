@@ -0,0 +1,300 @@
+/**
+ * LLM Providers
+ * One interface for text, vision and JSON calls, shared by Analyzer and Coach
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Config, LLMProviderName, LLMTask, ModelPricing, TokenUsage } from '../types/index.js';
+
+export type ImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export interface LLMRequest {
+  system?: string;
+  prompt: string;
+  images?: Array<{ data: string; mediaType: ImageMediaType }>; // base64
+  maxTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /** Text or vision (when images are given) completion */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /** Completion parsed as JSON; `data` is null if the reply wasn't valid JSON */
+  completeJSON<T>(request: LLMRequest): Promise<LLMResponse & { data: T | null }>;
+}
+
+export const DEFAULT_MODELS: Record<Exclude<LLMProviderName, 'recorded'>, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.2-vision',
+};
+
+// USD per million tokens, matched by model name prefix (longest first)
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku-4': { inputPerMTok: 1, outputPerMTok: 5 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  'gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10 },
+};
+
+/**
+ * Cost of a call; unknown models (e.g. local ones) cost nothing
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number, pricing: Record<string, ModelPricing> = {}): number {
+  const table = { ...DEFAULT_PRICING, ...pricing };
+  const prefix = Object.keys(table)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return 0;
+  return (inputTokens * table[prefix].inputPerMTok + outputTokens * table[prefix].outputPerMTok) / 1_000_000;
+}
+
+/**
+ * Parse a reply as JSON, tolerating markdown code fences
+ */
+export function parseJSONReply<T>(text: string): T | null {
+  let jsonText = text.trim();
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
+  }
+  try {
+    return JSON.parse(jsonText) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shared completeJSON on top of complete
+ */
+abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  abstract readonly model: string;
+  abstract complete(request: LLMRequest): Promise<LLMResponse>;
+
+  async completeJSON<T>(request: LLMRequest): Promise<LLMResponse & { data: T | null }> {
+    const response = await this.complete(request);
+    return { ...response, data: parseJSONReply<T>(response.text) };
+  }
+}
+
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private client: Anthropic;
+  private pricing?: Record<string, ModelPricing>;
+
+  constructor(model: string, apiKey?: string, pricing?: Record<string, ModelPricing>) {
+    super();
+    this.model = model;
+    this.pricing = pricing;
+    // Uses ANTHROPIC_API_KEY env var by default
+    this.client = new Anthropic({ apiKey: apiKey || process.env.ANTHROPIC_API_KEY });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [{
+        role: 'user',
+        content: [
+          ...(request.images || []).map(image => ({
+            type: 'image' as const,
+            source: { type: 'base64' as const, media_type: image.mediaType, data: image.data },
+          })),
+          { type: 'text' as const, text: request.prompt },
+        ],
+      }],
+    });
+
+    const textBlock = response.content.find(block => block.type === 'text');
+    const { input_tokens, output_tokens } = response.usage;
+    return {
+      text: textBlock?.type === 'text' ? textBlock.text : '',
+      usage: {
+        inputTokens: input_tokens,
+        outputTokens: output_tokens,
+        costUsd: estimateCost(this.model, input_tokens, output_tokens, this.pricing),
+      },
+    };
+  }
+}
+
+/**
+ * OpenAI chat completions; with a baseURL this also covers local
+ * OpenAI-compatible servers (Ollama, llama.cpp server, LM Studio, vLLM)
+ */
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name: 'openai' | 'local';
+  readonly model: string;
+  private client: OpenAI;
+  private pricing?: Record<string, ModelPricing>;
+
+  constructor(options: { name: 'openai' | 'local'; model: string; apiKey?: string; baseURL?: string; pricing?: Record<string, ModelPricing> }) {
+    super();
+    this.name = options.name;
+    this.model = options.model;
+    this.pricing = options.pricing;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || process.env.OPENAI_API_KEY || (options.name === 'local' ? 'local' : undefined),
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.create(request, false);
+  }
+
+  async completeJSON<T>(request: LLMRequest): Promise<LLMResponse & { data: T | null }> {
+    const response = await this.create(request, true);
+    return { ...response, data: parseJSONReply<T>(response.text) };
+  }
+
+  private async create(request: LLMRequest, json: boolean): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+      messages: [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        {
+          role: 'user' as const,
+          content: [
+            ...(request.images || []).map(image => ({
+              type: 'image_url' as const,
+              image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+            })),
+            { type: 'text' as const, text: request.prompt },
+          ],
+        },
+      ],
+    });
+
+    const inputTokens = response.usage?.prompt_tokens || 0;
+    const outputTokens = response.usage?.completion_tokens || 0;
+    return {
+      text: response.choices[0]?.message?.content || '',
+      usage: { inputTokens, outputTokens, costUsd: estimateCost(this.model, inputTokens, outputTokens, this.pricing) },
+    };
+  }
+}
+
+interface Recording {
+  text: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Replays recorded responses, keyed by a hash of the request, for
+ * deterministic tests. With a delegate, misses are sent to it and recorded.
+ */
+export class RecordedProvider extends BaseLLMProvider {
+  readonly name = 'recorded' as const;
+  readonly model: string;
+  private recordingsPath: string;
+  private recordings: Record<string, Recording>;
+  private delegate: LLMProvider | null;
+
+  constructor(recordingsPath: string, delegate: LLMProvider | null = null) {
+    super();
+    this.recordingsPath = recordingsPath;
+    this.delegate = delegate;
+    this.model = delegate?.model || 'recorded';
+    this.recordings = fs.existsSync(recordingsPath)
+      ? JSON.parse(fs.readFileSync(recordingsPath, 'utf-8'))
+      : {};
+  }
+
+  static keyFor(request: LLMRequest): string {
+    const images = (request.images || []).map(i => crypto.createHash('sha256').update(i.data).digest('hex'));
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ system: request.system || '', prompt: request.prompt, images }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.replay(request, delegate => delegate.complete(request));
+  }
+
+  async completeJSON<T>(request: LLMRequest): Promise<LLMResponse & { data: T | null }> {
+    // Misses go through the delegate's JSON mode; replays are parsed the same way
+    const response = await this.replay(request, delegate => delegate.completeJSON<T>(request));
+    return { ...response, data: parseJSONReply<T>(response.text) };
+  }
+
+  private async replay(request: LLMRequest, call: (delegate: LLMProvider) => Promise<LLMResponse>): Promise<LLMResponse> {
+    const key = RecordedProvider.keyFor(request);
+    const recorded = this.recordings[key];
+    if (recorded) {
+      return { text: recorded.text, usage: { ...recorded.usage } };
+    }
+
+    if (!this.delegate) {
+      throw new Error(`No recorded response for request ${key} in ${this.recordingsPath}`);
+    }
+
+    const response = await call(this.delegate);
+    this.recordings[key] = { text: response.text, usage: response.usage };
+    fs.mkdirSync(path.dirname(this.recordingsPath), { recursive: true });
+    fs.writeFileSync(this.recordingsPath, JSON.stringify(this.recordings, null, 2));
+    return { text: response.text, usage: response.usage };
+  }
+}
+
+/**
+ * Create the provider for a task: config.analysis.tasks[task] overrides the
+ * global provider/model. The global model only applies to the global provider.
+ */
+export function createLLMProvider(config: Config, task: LLMTask): LLMProvider {
+  const analysis = config.analysis || {};
+  const override = analysis.tasks?.[task] || {};
+  const name = override.provider || analysis.provider || 'anthropic';
+  const configuredModel = override.model || (name === (analysis.provider || 'anthropic') ? analysis.model : undefined);
+
+  return createNamedProvider(config, name, configuredModel);
+}
+
+function createNamedProvider(config: Config, name: LLMProviderName, model?: string): LLMProvider {
+  const analysis = config.analysis || {};
+
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider(model || DEFAULT_MODELS.anthropic, analysis.anthropicApiKey, analysis.pricing);
+    case 'openai':
+      return new OpenAIProvider({ name, model: model || DEFAULT_MODELS.openai, apiKey: analysis.openaiApiKey, pricing: analysis.pricing });
+    case 'local':
+      if (!analysis.baseUrl) {
+        throw new Error('The local LLM provider needs analysis.baseUrl');
+      }
+      return new OpenAIProvider({ name, model: model || DEFAULT_MODELS.local, baseURL: analysis.baseUrl, pricing: analysis.pricing });
+    case 'recorded': {
+      if (!analysis.recordingsPath) {
+        throw new Error('The recorded LLM provider needs analysis.recordingsPath');
+      }
+      const delegate = analysis.recordFrom && analysis.recordFrom !== 'recorded'
+        ? createNamedProvider(config, analysis.recordFrom, model)
+        : null;
+      return new RecordedProvider(analysis.recordingsPath, delegate);
+    }
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Listening Tests
+ *
+ * Run with: npx ts-node src/services/audio-recorder.test.ts
+ * Or: node --loader ts-node/esm src/services/audio-recorder.test.ts
+ */
+
+import fs from 'fs';
+import { PassThrough } from 'stream';
+import { AudioRecorder, AudioInput } from './audio-recorder.js';
+import { PCM_SAMPLE_RATE, SilenceSplitter, SpeechChunk } from './voice-activity.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { MarkdownLogger } from '../storage/markdown-logger.js';
+import { Config, MediaRecord } from '../types/index.js';
+import { test, assertEqual, createTestConfig, summary } from '../test-utils.js';
+
+// 16-bit mono PCM: a loud 440Hz tone stands in for speech
+function tone(seconds: number): Buffer {
+  const samples = Math.round(seconds * PCM_SAMPLE_RATE);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(10000 * Math.sin((2 * Math.PI * 440 * i) / PCM_SAMPLE_RATE)), i * 2);
+  }
+  return pcm;
+}
+
+function silence(seconds: number): Buffer {
+  return Buffer.alloc(Math.round(seconds * PCM_SAMPLE_RATE) * 2);
+}
+
+// Odd-sized pieces, like reads from a pipe
+function pieces(pcm: Buffer, size: number = 1234): Buffer[] {
+  const result: Buffer[] = [];
+  for (let i = 0; i < pcm.length; i += size) result.push(pcm.subarray(i, i + size));
+  return result;
+}
+
+function createConfig(): Config {
+  return createTestConfig({
+    audio: { chunkDurationMs: 1000, maxChunkMs: 3000, minSpeechMs: 500, conversationGapMs: 1000 },
+  });
+}
+
+function audioMedia(db: LifeLogDatabase): MediaRecord[] {
+  return db.getRawDb().prepare("SELECT * FROM media WHERE type = 'audio' ORDER BY timestamp").all() as MediaRecord[];
+}
+
+// ==================== SPLITTING TESTS ====================
+
+console.log('\n🧪 Listening Tests\n');
+
+await test('chunks are cut at pauses, or at the maximum length, without losing samples', async () => {
+  const splitter = new SilenceSplitter(createConfig());
+  const input = Buffer.concat([tone(1.5), silence(0.6), tone(4), silence(1)]);
+
+  const chunks: SpeechChunk[] = [];
+  for (const piece of pieces(input)) chunks.push(...splitter.push(piece));
+  const rest = splitter.flush();
+  if (rest) chunks.push(rest);
+
+  // Cut once the first pause reaches half a second
+  assertEqual(chunks[0].activity.durationSec, 2);
+  assertEqual(chunks[0].activity.speechSec, 1.5);
+  // Nobody pauses for the next 3 seconds
+  assertEqual(chunks[1].offsetSec, 2);
+  assertEqual(chunks[1].activity.durationSec, 3);
+  assertEqual(chunks[2].offsetSec, 5);
+  assertEqual(chunks[2].activity.durationSec, 1.6);
+  assertEqual(chunks[3].activity.speechSec, 0, 'trailing silence');
+  assertEqual(Buffer.concat(chunks.map(c => c.pcm)).equals(input), true, 'chunks add up to the input');
+});
+
+// ==================== LISTENING TESTS ====================
+
+await test('speech chunks are saved and grouped into conversations', async () => {
+  const config = createConfig();
+  const db = new LifeLogDatabase(config);
+  let current = true;
+  const stream = new PassThrough();
+  // Capture ends with the input, so listen() returns instead of reopening it
+  stream.on('end', () => { current = false; });
+  const openInput = (): AudioInput => ({ stream, stop: () => stream.end() });
+  const recorder = new AudioRecorder(config, db, new MarkdownLogger(config), undefined, openInput);
+
+  const listening = recorder.listen(() => current);
+  stream.end(Buffer.concat([tone(1.5), silence(0.6), tone(1), silence(0.6), silence(3), tone(1.5), silence(0.6)]));
+  await listening;
+
+  const media = audioMedia(db);
+  assertEqual(media.length, 3, 'the chunk of only silence is dropped');
+  assertEqual(media[1].parent_id, media[0].id, 'second chunk continues the conversation');
+  assertEqual(media[2].parent_id, null, 'three seconds of silence start a new one');
+  assertEqual(new Date(media[1].timestamp).getTime() - new Date(media[0].timestamp).getTime(), 2000);
+  assertEqual(fs.readFileSync(media[0].file_path).subarray(0, 4).toString(), 'RIFF');
+  db.close();
+});
+
+await test('the chunk in progress is dropped when capture stops', async () => {
+  const config = createConfig();
+  const db = new LifeLogDatabase(config);
+  let current = true;
+  let stopped = false;
+  const stream = new PassThrough();
+  const recorder = new AudioRecorder(config, db, new MarkdownLogger(config), undefined, () => ({
+    stream,
+    stop: () => { stopped = true; stream.end(); },
+  }));
+
+  const listening = recorder.listen(() => current);
+  stream.write(tone(1.5));
+  await new Promise(resolve => setImmediate(resolve));
+
+  // Paused mid-sentence: nothing heard from here on is kept
+  current = false;
+  stream.write(silence(0.6));
+  recorder.stopListening();
+  await listening;
+
+  assertEqual(stopped, true, 'input stopped');
+  assertEqual(audioMedia(db).length, 0);
+  assertEqual(fs.readdirSync(config.recordings.audioDir).length, 0);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
@@ -1,23 +1,66 @@
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
+import { Readable } from 'stream';
 import fs from 'fs';
 import path from 'path';
 import { format } from 'date-fns';
-import OpenAI from 'openai';
 import { Config, MediaRecord } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
 import { MarkdownLogger } from '../storage/markdown-logger.js';
+import { TranscriptionProvider, createTranscriptionProvider } from './transcription.js';
+import { PCM_SAMPLE_RATE, SilenceSplitter, SpeechChunk } from './voice-activity.js';
 
 const execAsync = promisify(exec);
 
+export const DEFAULT_CONVERSATION_GAP_MS = 60000;
+const DEFAULT_MIN_SPEECH_MS = 2000;
+// Keeps a broken recorder (no mic, missing sox) from spinning
+const FAILURE_BACKOFF_MS = 5000;
+
+interface Conversation {
+  headId: number; // first chunk; later chunks point at it via parent_id
+  chunks: number;
+  lastEnd: number;
+}
+
+/**
+ * Live microphone input as 16-bit signed mono PCM at PCM_SAMPLE_RATE
+ */
+export interface AudioInput {
+  stream: Readable;
+  stop(): void;
+}
+
+/**
+ * sox's rec, writing raw samples to stdout until stopped
+ */
+function openMicrophone(): AudioInput {
+  const child = spawn('rec', ['-q', '-t', 'raw', '-r', String(PCM_SAMPLE_RATE), '-c', '1', '-b', '16', '-e', 'signed-integer', '-'], {
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  child.on('error', error => {
+    console.error('❌ Could not open the microphone (is sox installed?):', error.message);
+    child.stdout.destroy();
+  });
+  return { stream: child.stdout, stop: () => child.kill() };
+}
+
 export class AudioRecorder {
   private config: Config;
   private db: LifeLogDatabase;
   private logger: MarkdownLogger;
   private audioDir: string;
-  private openai: OpenAI | null = null;
+  private transcriber: TranscriptionProvider | null;
+  private openInput: () => AudioInput;
+  private input: AudioInput | null = null;
 
-  constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger) {
+  constructor(
+    config: Config,
+    db: LifeLogDatabase,
+    logger: MarkdownLogger,
+    transcriber?: TranscriptionProvider,
+    openInput: () => AudioInput = openMicrophone
+  ) {
     this.config = config;
     this.db = db;
     this.logger = logger;
@@ -27,10 +70,8 @@ export class AudioRecorder {
       fs.mkdirSync(this.audioDir, { recursive: true });
     }
 
-    // Initialize OpenAI if API key is available
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    }
+    this.transcriber = transcriber || createTranscriptionProvider(config);
+    this.openInput = openInput;
   }
 
   async record(durationMs: number): Promise<MediaRecord | null> {
@@ -42,17 +83,13 @@ export class AudioRecorder {
     try {
       console.log(`🎤 Recording audio for ${durationSec}s...`);
       
-      // Use macOS built-in audio recording via afrecord or sox
-      // Using macOS screencapture with audio or afrecord
-      const command = `rec -q "${filePath}" trim 0 ${durationSec} 2>/dev/null || afrecord -d ${durationSec} -f 'm4af' "${filePath}" 2>/dev/null`;
-      
-      await execAsync(command, { timeout: durationMs + 10000 });
+      await this.captureAudio(filePath, durationMs);
 
       if (fs.existsSync(filePath)) {
         const media: MediaRecord = {
           timestamp,
           type: 'audio',
-          file_path: filePath,
+          file_path: this.db.getEncryptor().encryptFile(filePath),
         };
 
         const id = this.db.insertMedia(media);
@@ -71,9 +108,103 @@ export class AudioRecorder {
     }
   }
 
+  /**
+   * Record continuously while isCurrent() holds, from one unbroken input
+   * stream cut into chunks at pauses in speech. Chunks without enough speech
+   * are dropped; consecutive speech chunks (separated by less than
+   * conversationGapMs of silence) form one conversation, analyzed as a unit.
+   * The chunk in progress when isCurrent() turns false is dropped.
+   */
+  async listen(isCurrent: () => boolean): Promise<void> {
+    let conversation: Conversation | null = null;
+    console.log('🎤 Listening (speech only)...');
+
+    while (isCurrent()) {
+      const splitter = new SilenceSplitter(this.config);
+      const input = this.openInput();
+      this.input = input;
+      let inputStart: number | null = null;
+
+      await new Promise<void>(resolve => {
+        input.stream.on('data', (data: Buffer) => {
+          if (!isCurrent()) return;
+          // Samples already buffered when the first data arrives were recorded before it
+          inputStart ??= Date.now() - (data.length / 2 / PCM_SAMPLE_RATE) * 1000;
+          try {
+            for (const chunk of splitter.push(data)) {
+              conversation = this.saveChunk(chunk, inputStart, conversation);
+            }
+          } catch (error) {
+            console.error('❌ Audio chunk failed:', error);
+          }
+        });
+        input.stream.on('close', resolve);
+        input.stream.on('end', resolve);
+        input.stream.on('error', () => resolve());
+      });
+      if (this.input === input) this.input = null;
+
+      // The input ended on its own (device gone, recorder crashed): keep what it
+      // caught and try again shortly
+      if (isCurrent()) {
+        const rest = splitter.flush();
+        if (rest && inputStart !== null) conversation = this.saveChunk(rest, inputStart, conversation);
+        console.warn('⚠️ Audio input ended, reopening');
+        await new Promise(resolve => setTimeout(resolve, FAILURE_BACKOFF_MS));
+      }
+    }
+  }
+
+  /**
+   * End the input of a running listen() now instead of at its next chunk;
+   * call it once that listen()'s isCurrent() has turned false
+   */
+  stopListening(): void {
+    this.input?.stop();
+  }
+
+  /**
+   * Keep a chunk with enough speech, as part of the conversation when it
+   * follows closely enough; returns the conversation it belongs to
+   */
+  private saveChunk(chunk: SpeechChunk, inputStart: number, conversation: Conversation | null): Conversation | null {
+    const minSpeechSec = (this.config.audio?.minSpeechMs ?? DEFAULT_MIN_SPEECH_MS) / 1000;
+    const gapMs = this.config.audio?.conversationGapMs ?? DEFAULT_CONVERSATION_GAP_MS;
+    if (chunk.activity.speechSec < minSpeechSec) return conversation;
+
+    const start = inputStart + chunk.offsetSec * 1000;
+    if (conversation && start - conversation.lastEnd > gapMs) {
+      console.log(`💬 Conversation ended (${conversation.chunks} chunks)`);
+      conversation = null;
+    }
+
+    const filename = `audio_${format(start, 'yyyy-MM-dd_HH-mm-ss')}.wav`;
+    const filePath = path.join(this.audioDir, filename);
+    fs.writeFileSync(filePath, toWav(chunk.pcm));
+
+    const media: MediaRecord = {
+      timestamp: new Date(start).toISOString(),
+      type: 'audio',
+      file_path: this.db.getEncryptor().encryptFile(filePath),
+      parent_id: conversation?.headId ?? null,
+    };
+    media.id = this.db.insertMedia(media);
+
+    if (conversation) {
+      conversation.chunks++;
+    } else {
+      conversation = { headId: media.id, chunks: 1, lastEnd: 0 };
+      this.logger.logMedia(media);
+      console.log('💬 Conversation started');
+    }
+    conversation.lastEnd = start + chunk.activity.durationSec * 1000;
+    console.log(`✓ Speech chunk saved: ${filename} (${Math.round(chunk.activity.speechSec)}s speech)`);
+    return conversation;
+  }
+
   async transcribe(mediaId: number, filePath: string): Promise<string | null> {
-    if (!this.openai) {
-      console.warn('⚠️ OpenAI API key not configured for Whisper transcription');
+    if (!this.transcriber) {
+      console.warn('⚠️ No transcription provider: set OPENAI_API_KEY, or whisper.provider "local" with whisper.modelPath');
       return null;
     }
 
@@ -83,22 +214,26 @@ export class AudioRecorder {
     }
 
     try {
-      console.log(`🎯 Transcribing audio: ${path.basename(filePath)}...`);
+      console.log(`🎯 Transcribing audio (${this.transcriber.name}): ${path.basename(filePath)}...`);
       
-      const transcription = await this.openai.audio.transcriptions.create({
-        file: fs.createReadStream(filePath),
-        model: this.config.whisper.model,
-        response_format: 'text',
-      });
+      const transcriber = this.transcriber;
+      const transcript = await this.db.getEncryptor().withPlaintextFile(filePath, plainPath =>
+        transcriber.transcribe(plainPath)
+      );
 
-      // Update media record with transcription
-      const analysis = JSON.stringify({ transcription });
+      // Update media record with transcription; segment offsets let it be aligned with time blocks
+      const analysis = JSON.stringify({
+        transcription: transcript.text,
+        segments: transcript.segments,
+        provider: transcript.provider,
+        language: transcript.language,
+      });
       this.db.updateMediaAnalysis(mediaId, analysis);
 
-      console.log(`✓ Transcription complete`);
-      return transcription;
+      console.log(`✓ Transcription complete (${transcript.segments.length} segments)`);
+      return transcript.text;
     } catch (error) {
-      console.error('❌ Whisper transcription failed:', error);
+      console.error('❌ Transcription failed:', error);
       return null;
     }
   }
@@ -113,4 +248,33 @@ export class AudioRecorder {
 
     return { media: null, transcription: null };
   }
+
+  private async captureAudio(filePath: string, durationMs: number): Promise<void> {
+    const durationSec = Math.ceil(durationMs / 1000);
+    // Use macOS built-in audio recording via afrecord or sox
+    // Using macOS screencapture with audio or afrecord
+    const command = `rec -q "${filePath}" trim 0 ${durationSec} 2>/dev/null || afrecord -d ${durationSec} -f 'm4af' "${filePath}" 2>/dev/null`;
+    await execAsync(command, { timeout: durationMs + 10000 });
+  }
+}
+
+/**
+ * A WAV file around 16-bit mono PCM samples
+ */
+function toWav(pcm: Buffer): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(PCM_SAMPLE_RATE, 24);
+  header.writeUInt32LE(PCM_SAMPLE_RATE * 2, 28); // bytes per second
+  header.writeUInt16LE(2, 32); // bytes per sample frame
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
 }
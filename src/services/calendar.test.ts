@@ -0,0 +1,148 @@
+/**
+ * Calendar Import Tests
+ *
+ * Run with: npx ts-node src/services/calendar.test.ts
+ * Or: node --loader ts-node/esm src/services/calendar.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Calendar } from './calendar.js';
+import { test, assertEqual, quietly, createTestConfig, tempDir, summary } from '../test-utils.js';
+
+function calendarOf(events: string[], timezone: string = 'UTC'): Calendar {
+  const file = path.join(tempDir(), 'calendar.ics');
+  fs.writeFileSync(file, ['BEGIN:VCALENDAR', ...events, 'END:VCALENDAR'].join('\r\n'));
+  return new Calendar(createTestConfig({ calendar: { path: file }, day: { timezone } }));
+}
+
+function event(...lines: string[]): string {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+}
+
+// ==================== PARSING TESTS ====================
+
+console.log('\n🧪 Calendar Import Tests\n');
+
+await test('UTC, TZID and floating times', async () => {
+  const calendar = calendarOf([
+    event('SUMMARY:Standup', 'DTSTART:20261020T090000Z', 'DTEND:20261020T091500Z'),
+    event('SUMMARY:Planning', 'DTSTART;TZID=Europe/Berlin:20261020T140000', 'DTEND;TZID=Europe/Berlin:20261020T150000'),
+    event('SUMMARY:Lunch', 'DTSTART:20261020T120000', 'DTEND:20261020T130000'),
+  ], 'America/New_York');
+
+  const events = calendar.getEvents('2026-10-20');
+  assertEqual(events.length, 3);
+  // 14:00 in Berlin (summer time) is 12:00 UTC
+  assertEqual(events.find(e => e.summary === 'Planning')?.start, '2026-10-20T12:00:00.000Z');
+  // Floating times are on the user's clock
+  assertEqual(events.find(e => e.summary === 'Lunch')?.start, '2026-10-20T16:00:00.000Z');
+});
+
+await test('overlapping meetings count once', async () => {
+  const calendar = calendarOf([
+    event('DTSTART:20261020T090000Z', 'DTEND:20261020T110000Z'),
+    event('DTSTART:20261020T100000Z', 'DTEND:20261020T103000Z'),
+    event('DTSTART:20261020T103000Z', 'DTEND:20261020T113000Z'),
+  ]);
+
+  assertEqual(calendar.getMeetingMinutes('2026-10-20'), 150);
+  assertEqual(calendar.getMeetingMinutes('2026-10-21'), 0);
+});
+
+await test('all-day, free and cancelled events are skipped', async () => {
+  const calendar = calendarOf([
+    event('SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261021'),
+    event('SUMMARY:Focus block', 'TRANSP:TRANSPARENT', 'DTSTART:20261020T090000Z', 'DTEND:20261020T100000Z'),
+    event('SUMMARY:Moved', 'STATUS:CANCELLED', 'DTSTART:20261020T090000Z', 'DTEND:20261020T100000Z'),
+  ]);
+
+  assertEqual(calendar.getEvents('2026-10-20').length, 0);
+});
+
+await test('folded lines are joined', async () => {
+  const calendar = calendarOf([
+    event('SUMMARY:Quarterly planning with', '  the whole team', 'DTSTART:20261020T090000Z', 'DTEND:20261020T100000Z'),
+  ]);
+
+  assertEqual(calendar.getEvents('2026-10-20')[0]?.summary, 'Quarterly planning with the whole team');
+});
+
+await test('no calendar configured', async () => {
+  const calendar = new Calendar(createTestConfig());
+  assertEqual(calendar.isEnabled(), false);
+  assertEqual(calendar.getMeetingMinutes('2026-10-20'), null);
+});
+
+await test('a missing calendar file counts as no calendar', async () => {
+  const calendar = new Calendar(createTestConfig({ calendar: { path: path.join(tempDir(), 'missing.ics') } }));
+  assertEqual(await quietly(() => calendar.getMeetingMinutes('2026-10-20')), null);
+  assertEqual(calendar.isEnabled(), false);
+  assertEqual(calendar.getEvents('2026-10-20').length, 0);
+});
+
+// ==================== RECURRENCE TESTS ====================
+
+function starts(calendar: Calendar, ...dates: string[]): string {
+  return dates.flatMap(date => calendar.getEvents(date).map(e => e.start.slice(0, 16))).join(' ');
+}
+
+await test('weekly events on several days, up to a count', async () => {
+  const calendar = calendarOf([
+    event('SUMMARY:Sync', 'DTSTART:20261019T150000Z', 'DTEND:20261019T153000Z', 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=4'),
+  ]);
+
+  assertEqual(
+    starts(calendar, '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-23', '2026-10-26', '2026-10-28'),
+    '2026-10-19T15:00 2026-10-21T15:00 2026-10-23T15:00 2026-10-26T15:00'
+  );
+  assertEqual(calendar.getMeetingMinutes('2026-10-26'), 30);
+});
+
+await test('daily events until a date keep their local time across DST, less excluded days', async () => {
+  const calendar = calendarOf([
+    event(
+      'SUMMARY:Standup',
+      'DTSTART;TZID=Europe/Berlin:20261023T090000',
+      'DTEND;TZID=Europe/Berlin:20261023T091500',
+      'RRULE:FREQ=DAILY;UNTIL=20261027T080000Z',
+      'EXDATE;TZID=Europe/Berlin:20261024T090000',
+    ),
+  ]);
+
+  // Summer time in Berlin ends on the 25th
+  assertEqual(
+    starts(calendar, '2026-10-23', '2026-10-24', '2026-10-25', '2026-10-26', '2026-10-27', '2026-10-28'),
+    '2026-10-23T07:00 2026-10-25T08:00 2026-10-26T08:00 2026-10-27T08:00'
+  );
+});
+
+await test('every other week, without an end', async () => {
+  const calendar = calendarOf([
+    event('SUMMARY:1:1', 'DTSTART:20261020T100000Z', 'DTEND:20261020T103000Z', 'RRULE:FREQ=WEEKLY;INTERVAL=2'),
+  ]);
+
+  assertEqual(starts(calendar, '2026-10-20', '2026-10-27', '2026-11-03', '2026-11-10'), '2026-10-20T10:00 2026-11-03T10:00');
+});
+
+await test('moved and cancelled instances replace their occurrence', async () => {
+  const calendar = calendarOf([
+    event('UID:standup', 'SUMMARY:Standup', 'DTSTART:20261019T090000Z', 'DTEND:20261019T091500Z', 'RRULE:FREQ=DAILY;COUNT=3'),
+    event('UID:standup', 'RECURRENCE-ID:20261020T090000Z', 'SUMMARY:Standup', 'DTSTART:20261020T140000Z', 'DTEND:20261020T141500Z'),
+    event('UID:standup', 'RECURRENCE-ID:20261021T090000Z', 'STATUS:CANCELLED', 'DTSTART:20261021T090000Z', 'DTEND:20261021T091500Z'),
+  ]);
+
+  assertEqual(starts(calendar, '2026-10-19', '2026-10-20', '2026-10-21'), '2026-10-19T09:00 2026-10-20T14:00');
+});
+
+await test('other recurrences count on their first occurrence', async () => {
+  const calendar = calendarOf([
+    event('SUMMARY:Review', 'DTSTART:20261020T100000Z', 'DTEND:20261020T110000Z', 'RRULE:FREQ=MONTHLY;BYDAY=3TU'),
+  ]);
+
+  assertEqual(starts(calendar, '2026-10-20', '2026-11-17'), '2026-10-20T10:00');
+});
+
+// ==================== SUMMARY ====================
+
+summary();
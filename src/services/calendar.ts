@@ -0,0 +1,332 @@
+/**
+ * Calendar Import
+ * Scheduled meetings from an iCalendar (.ics) file (config.calendar.path).
+ * Daily and weekly recurring events (RRULE with INTERVAL, COUNT, UNTIL and
+ * BYDAY, less EXDATE and moved or cancelled instances) count on every
+ * occurrence; other recurrences count on their first occurrence only.
+ * All-day, free (TRANSP:TRANSPARENT) and cancelled events don't count.
+ */
+
+import fs from 'fs';
+import { Config } from '../types/index.js';
+import { DayBoundary } from '../storage/day-boundary.js';
+
+export interface CalendarEvent {
+  summary: string;
+  start: string; // ISO timestamp
+  end: string;
+}
+
+// DTSTART;TZID=Europe/Berlin:20261020T090000 -> name, params, value
+const PROPERTY_PATTERN = /^([A-Z-]+)((?:;[^:]*)?):(.*)$/;
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Open-ended series are expanded this far past today
+const HORIZON_DAYS = 366;
+
+interface Property {
+  params: string;
+  value: string;
+}
+
+// Properties of a VEVENT by name; EXDATE can appear more than once
+type EventProperties = Record<string, Property[]>;
+
+interface Recurrence {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  count?: number;
+  until?: number; // last possible start, ms
+  byDay?: number[]; // 0 = Sunday
+  weekStart: number;
+}
+
+export class Calendar {
+  private path: string | undefined;
+  private days: DayBoundary;
+  private events: CalendarEvent[] | null = null;
+
+  constructor(config: Config) {
+    this.path = config.calendar?.path;
+    this.days = new DayBoundary(config);
+  }
+
+  /**
+   * Whether a calendar is configured and its file exists
+   */
+  isEnabled(): boolean {
+    this.load();
+    return Boolean(this.path);
+  }
+
+  /**
+   * Events that start on a day
+   */
+  getEvents(date: string): CalendarEvent[] {
+    return this.load().filter(e => this.days.dateOf(e.start) === date);
+  }
+
+  /**
+   * Minutes of a day taken up by events, counting overlapping ones once;
+   * null without a calendar
+   */
+  getMeetingMinutes(date: string): number | null {
+    if (!this.isEnabled()) return null;
+
+    const spans = this.getEvents(date)
+      .map(e => [new Date(e.start).getTime(), new Date(e.end).getTime()])
+      .sort((a, b) => a[0] - b[0]);
+
+    let minutes = 0;
+    let coveredUntil = -Infinity;
+    for (const [start, end] of spans) {
+      const from = Math.max(start, coveredUntil);
+      if (end > from) minutes += (end - from) / 60000;
+      coveredUntil = Math.max(coveredUntil, end);
+    }
+    return Math.round(minutes);
+  }
+
+  private load(): CalendarEvent[] {
+    if (this.events) return this.events;
+    if (!this.path) return (this.events = []);
+
+    // A missing file is treated as no calendar rather than failing forecasts
+    if (!fs.existsSync(this.path)) {
+      console.warn(`⚠️ Calendar not found, ignoring it: ${this.path}`);
+      this.path = undefined;
+      return (this.events = []);
+    }
+
+    // Long lines are folded onto continuation lines starting with a space or tab
+    const lines = fs.readFileSync(this.path, 'utf-8').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const parsed: EventProperties[] = [];
+    let current: EventProperties | null = null;
+
+    for (const line of lines) {
+      if (line === 'BEGIN:VEVENT') {
+        current = {};
+      } else if (line === 'END:VEVENT' && current) {
+        parsed.push(current);
+        current = null;
+      } else if (current) {
+        const match = line.match(PROPERTY_PATTERN);
+        if (match) (current[match[1]] ||= []).push({ params: match[2], value: match[3] });
+      }
+    }
+
+    // Instances of a series that were moved or cancelled, by UID; their own
+    // VEVENTs (with RECURRENCE-ID) stand in for them
+    const overridden = new Map<string, Set<number>>();
+    for (const props of parsed) {
+      const uid = props.UID?.[0].value;
+      const recurrenceId = props['RECURRENCE-ID']?.[0];
+      const time = recurrenceId && this.parseTime(recurrenceId.params, recurrenceId.value);
+      if (uid && time) {
+        if (!overridden.has(uid)) overridden.set(uid, new Set());
+        overridden.get(uid)!.add(time.getTime());
+      }
+    }
+
+    const events = parsed.flatMap(props => this.toEvents(props, overridden));
+    return (this.events = events);
+  }
+
+  private toEvents(props: EventProperties, overridden: Map<string, Set<number>>): CalendarEvent[] {
+    const dtStart = props.DTSTART?.[0];
+    const dtEnd = props.DTEND?.[0];
+    if (!dtStart || !dtEnd) return [];
+    if (props.TRANSP?.[0].value === 'TRANSPARENT' || props.STATUS?.[0].value === 'CANCELLED') return [];
+
+    const start = this.parseTime(dtStart.params, dtStart.value);
+    const end = this.parseTime(dtEnd.params, dtEnd.value);
+    if (!start || !end || end <= start) return [];
+
+    const duration = end.getTime() - start.getTime();
+    const rule = !props['RECURRENCE-ID'] && props.RRULE ? this.parseRecurrence(props.RRULE[0].value, dtStart) : null;
+    const starts = rule ? this.expand(rule, dtStart, props.EXDATE || []) : [start];
+    const skipped = (props.UID && !props['RECURRENCE-ID'] && overridden.get(props.UID[0].value)) || new Set<number>();
+
+    return starts
+      .filter(time => !skipped.has(time.getTime()))
+      .map(time => ({
+        summary: props.SUMMARY?.[0].value || '',
+        start: time.toISOString(),
+        end: new Date(time.getTime() + duration).toISOString(),
+      }));
+  }
+
+  /**
+   * FREQ=DAILY or WEEKLY rules; null for anything else, which then counts
+   * on its first occurrence only
+   */
+  private parseRecurrence(value: string, dtStart: Property): Recurrence | null {
+    const parts = Object.fromEntries(value.split(';').map(part => part.split('=') as [string, string]));
+    if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') return null;
+
+    // Ordinals ("1MO") only mean something in monthly and yearly rules
+    const byDay = parts.BYDAY?.split(',').map(day => WEEKDAYS.indexOf(day));
+    if (byDay?.some(day => day < 0)) return null;
+
+    let until: number | undefined;
+    if (parts.UNTIL) {
+      const date = parts.UNTIL.match(DATE_PATTERN);
+      // A date UNTIL includes that whole day on the event's clock
+      const time = date
+        ? this.fromWallClock(Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]) + 1), this.timezoneOf(dtStart))
+        : this.parseTime(dtStart.value.endsWith('Z') ? '' : dtStart.params, parts.UNTIL);
+      if (!time) return null;
+      until = date ? time.getTime() - 1 : time.getTime();
+    }
+
+    const interval = parts.INTERVAL ? parseInt(parts.INTERVAL) : 1;
+    const count = parts.COUNT ? parseInt(parts.COUNT) : undefined;
+    if (!(interval > 0) || (count !== undefined && !(count >= 0))) return null;
+
+    return {
+      freq: parts.FREQ,
+      interval,
+      count,
+      until,
+      byDay,
+      weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+    };
+  }
+
+  /**
+   * Start times of a series, in order. Occurrences keep their time on the
+   * event's clock across DST changes; COUNT includes excluded dates.
+   */
+  private expand(rule: Recurrence, dtStart: Property, exdates: Property[]): Date[] {
+    const first = wallClockOf(dtStart.value)!;
+    const timezone = this.timezoneOf(dtStart);
+    const horizon = Date.now() + HORIZON_DAYS * DAY_MS;
+
+    const excluded = new Set<number>();
+    const excludedDays = new Set<string>();
+    for (const exdate of exdates) {
+      for (const value of exdate.value.split(',')) {
+        if (DATE_PATTERN.test(value)) {
+          excludedDays.add(value);
+        } else {
+          const time = this.parseTime(exdate.params, value);
+          if (time) excluded.add(time.getTime());
+        }
+      }
+    }
+
+    const starts: Date[] = [];
+    let count = 0;
+    // Wall clocks run ahead of UTC by at most 14 hours
+    for (const wallClock of occurrences(rule, first, horizon + DAY_MS)) {
+      const time = this.fromWallClock(wallClock, timezone);
+      if (!time) continue;
+      if (time.getTime() > Math.min(rule.until ?? Infinity, horizon)) break;
+      if (rule.count !== undefined && count >= rule.count) break;
+      count++;
+
+      const day = new Date(wallClock).toISOString().slice(0, 10).replace(/-/g, '');
+      if (!excluded.has(time.getTime()) && !excludedDays.has(day)) starts.push(time);
+    }
+    return starts;
+  }
+
+  /**
+   * UTC ("...Z"), with a TZID, or floating (taken as the user's timezone);
+   * null for all-day dates and anything unreadable
+   */
+  private parseTime(params: string, value: string): Date | null {
+    const wallClock = wallClockOf(value);
+    if (wallClock === null) return null;
+    if (value.endsWith('Z')) return new Date(wallClock);
+    return this.fromWallClock(wallClock, this.timezoneOf({ params, value }));
+  }
+
+  /**
+   * The zone a date-time is on the clock of: UTC, its TZID or the user's
+   */
+  private timezoneOf(property: Property): string {
+    if (property.value.endsWith('Z')) return 'UTC';
+    return property.params.match(/TZID=([^;]+)/)?.[1].replace(/^"|"$/g, '') || this.days.timezone;
+  }
+
+  /**
+   * The moment a time on a timezone's clock (as if it were UTC) happens
+   */
+  private fromWallClock(wallClock: number, timezone: string): Date | null {
+    try {
+      // The zone's offset at that moment; a second pass settles times near DST changes
+      let time = wallClock - zoneOffset(timezone, wallClock);
+      time = wallClock - zoneOffset(timezone, time);
+      return new Date(time);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * A date-time's fields as if it were UTC; null for dates and anything unreadable
+ */
+function wallClockOf(value: string): number | null {
+  const match = value.match(DATE_TIME_PATTERN);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Wall clock times a rule generates from its first one, in order, up to a limit
+ */
+function* occurrences(rule: Recurrence, first: number, limit: number): Generator<number> {
+  if (rule.freq === 'DAILY') {
+    for (let time = first; time <= limit; time += rule.interval * DAY_MS) {
+      if (!rule.byDay || rule.byDay.includes(new Date(time).getUTCDay())) yield time;
+    }
+    return;
+  }
+
+  // Weekly: the rule's days of each interval-th week, starting from DTSTART's
+  const days = (rule.byDay || [new Date(first).getUTCDay()])
+    .map(day => (day - rule.weekStart + 7) % 7)
+    .sort((a, b) => a - b);
+  const weekStart = first - ((new Date(first).getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS;
+  for (let week = weekStart; week <= limit; week += rule.interval * 7 * DAY_MS) {
+    for (const offset of days) {
+      const time = week + offset * DAY_MS;
+      if (time >= first && time <= limit) yield time;
+    }
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Milliseconds a timezone's clock is ahead of UTC at a moment
+ */
+function zoneOffset(timezone: string, time: number): number {
+  const parts: Record<string, number> = {};
+  // Series expand to many occurrences, so formatters are made once per zone
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  for (const part of formatter.formatToParts(new Date(time))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - time;
+}
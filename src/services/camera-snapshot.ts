@@ -1,24 +1,23 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs';
 import path from 'path';
 import { format } from 'date-fns';
 import { Config, MediaRecord } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
 import { MarkdownLogger } from '../storage/markdown-logger.js';
-
-const execAsync = promisify(exec);
+import { CaptureBackend, CameraFacing, createCaptureBackend } from './capture-backends.js';
 
 export class CameraSnapshot {
   private config: Config;
   private db: LifeLogDatabase;
   private logger: MarkdownLogger;
+  private backend: CaptureBackend;
   private snapshotDir: string;
 
-  constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger) {
+  constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger, backend?: CaptureBackend) {
     this.config = config;
     this.db = db;
     this.logger = logger;
+    this.backend = backend || createCaptureBackend(config);
     this.snapshotDir = config.recordings.snapshotDir;
     
     if (!fs.existsSync(this.snapshotDir)) {
@@ -26,31 +25,37 @@ export class CameraSnapshot {
     }
   }
 
-  async capture(facing: 'front' | 'back' | 'both' = 'front'): Promise<MediaRecord | null> {
+  /**
+   * Take a snapshot. `isCurrent` is asked once it's taken; when it says the
+   * capture no longer counts (e.g. capture was paused meanwhile) the image is deleted.
+   */
+  async capture(facing: CameraFacing = 'front', isCurrent?: () => boolean): Promise<MediaRecord | null> {
     const timestamp = new Date().toISOString();
     const filename = `camera_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.jpg`;
     const filePath = path.join(this.snapshotDir, filename);
 
     try {
-      console.log(`📷 Taking camera snapshot (${facing})...`);
-      
-      // Use OpenClaw nodes camera snap command
-      const command = `openclaw nodes camera snap --facing ${facing}`;
-      
-      const { stdout } = await execAsync(command, { timeout: 60000 });
-      
-      // Parse output to find the image path (MEDIA:<path> format)
-      const mediaMatch = stdout.match(/MEDIA:([^\s\n]+)/i);
+      console.log(`📷 Taking camera snapshot (${facing}, ${this.backend.name})...`);
       
-      let savedPath = filePath;
-      if (mediaMatch && mediaMatch[1]) {
-        savedPath = mediaMatch[1].trim();
+      const savedPath = await this.backend.snapCamera(facing, filePath);
+
+      if (!savedPath) {
+        console.warn('⚠️ Camera snapshot not found after capture');
+        return null;
+      }
+
+      if (isCurrent && !isCurrent()) {
+        if (fs.existsSync(savedPath)) {
+          fs.unlinkSync(savedPath);
+        }
+        console.log('⏸️ Camera snapshot discarded (capture stopped while taking it)');
+        return null;
       }
 
       const media: MediaRecord = {
         timestamp,
         type: 'camera',
-        file_path: savedPath,
+        file_path: this.db.getEncryptor().encryptFile(savedPath),
       };
 
       const id = this.db.insertMedia(media);
@@ -0,0 +1,166 @@
+/**
+ * Capture Backends
+ * Pluggable implementations for screen recording and camera snapshots
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import { Config, CaptureBackendName } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+export type CameraFacing = 'front' | 'back' | 'both';
+
+export interface CaptureBackend {
+  readonly name: CaptureBackendName;
+
+  /**
+   * Record the screen into outPath. Returns the path actually written
+   * (a backend may change the extension), or null if nothing was captured.
+   */
+  recordScreen(durationMs: number, outPath: string): Promise<string | null>;
+
+  /**
+   * Take a camera snapshot. Returns the path of the saved image, or null.
+   */
+  snapCamera(facing: CameraFacing, outPath: string): Promise<string | null>;
+}
+
+/**
+ * OpenClaw nodes (macOS / paired devices)
+ */
+export class OpenClawBackend implements CaptureBackend {
+  readonly name = 'openclaw' as const;
+
+  async recordScreen(durationMs: number, outPath: string): Promise<string | null> {
+    const command = `openclaw nodes screen record --duration ${durationMs} --out "${outPath}"`;
+    await execAsync(command, { timeout: durationMs + 60000 });
+    return fs.existsSync(outPath) ? outPath : null;
+  }
+
+  async snapCamera(facing: CameraFacing, outPath: string): Promise<string | null> {
+    const command = `openclaw nodes camera snap --facing ${facing}`;
+    const { stdout } = await execAsync(command, { timeout: 60000 });
+
+    // Parse output to find the image path (MEDIA:<path> format)
+    const mediaMatch = stdout.match(/MEDIA:([^\s\n]+)/i);
+    if (mediaMatch && mediaMatch[1]) {
+      return mediaMatch[1].trim();
+    }
+    return fs.existsSync(outPath) ? outPath : null;
+  }
+}
+
+/**
+ * ffmpeg on Linux: x11grab for the screen, v4l2 for the camera
+ */
+export class FfmpegBackend implements CaptureBackend {
+  readonly name = 'ffmpeg' as const;
+  private binary: string;
+  private display: string;
+  private videoDevice: string;
+  private frameRate: number;
+
+  constructor(config: Config) {
+    const ffmpeg = config.recordings.ffmpeg || {};
+    this.binary = ffmpeg.binary || 'ffmpeg';
+    this.display = ffmpeg.display || process.env.DISPLAY || ':0.0';
+    this.videoDevice = ffmpeg.videoDevice || '/dev/video0';
+    this.frameRate = ffmpeg.frameRate || 5;
+  }
+
+  async recordScreen(durationMs: number, outPath: string): Promise<string | null> {
+    const durationSec = Math.ceil(durationMs / 1000);
+    const command = `${this.binary} -loglevel error -y -f x11grab -framerate ${this.frameRate} ` +
+      `-i "${this.display}" -t ${durationSec} -pix_fmt yuv420p "${outPath}"`;
+    await execAsync(command, { timeout: durationMs + 60000 });
+    return fs.existsSync(outPath) ? outPath : null;
+  }
+
+  async snapCamera(_facing: CameraFacing, outPath: string): Promise<string | null> {
+    // v4l2 devices have no notion of facing; the configured device is used
+    const command = `${this.binary} -loglevel error -y -f v4l2 -i "${this.videoDevice}" -frames:v 1 "${outPath}"`;
+    await execAsync(command, { timeout: 60000 });
+    return fs.existsSync(outPath) ? outPath : null;
+  }
+}
+
+const SCREEN_FIXTURE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.mp4', '.mov', '.webm'];
+const CAMERA_FIXTURE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+/**
+ * Deterministic fixture backend: copies files from a folder in sorted order.
+ * Screen captures come from <fixtureDir>/screen and camera snapshots from
+ * <fixtureDir>/camera; files in <fixtureDir> itself are used for both when
+ * those subfolders don't exist. Cycles back to the first file when exhausted.
+ */
+export class FixtureBackend implements CaptureBackend {
+  readonly name = 'fixture' as const;
+  private fixtureDir: string;
+  private cursors: Record<'screen' | 'camera', number> = { screen: 0, camera: 0 };
+
+  constructor(config: Config) {
+    if (!config.recordings.fixtureDir) {
+      throw new Error('recordings.fixtureDir is required for the fixture capture backend');
+    }
+    this.fixtureDir = config.recordings.fixtureDir;
+  }
+
+  async recordScreen(_durationMs: number, outPath: string): Promise<string | null> {
+    return this.copyNext('screen', SCREEN_FIXTURE_EXTENSIONS, outPath);
+  }
+
+  async snapCamera(_facing: CameraFacing, outPath: string): Promise<string | null> {
+    return this.copyNext('camera', CAMERA_FIXTURE_EXTENSIONS, outPath);
+  }
+
+  private copyNext(kind: 'screen' | 'camera', extensions: string[], outPath: string): string | null {
+    const files = this.listFixtures(kind, extensions);
+    if (files.length === 0) {
+      console.warn(`⚠️ No ${kind} fixtures found in ${this.fixtureDir}`);
+      return null;
+    }
+
+    const source = files[this.cursors[kind] % files.length];
+    this.cursors[kind]++;
+
+    // Keep the fixture's extension so the analyzer treats it correctly
+    const target = path.join(
+      path.dirname(outPath),
+      path.basename(outPath, path.extname(outPath)) + path.extname(source).toLowerCase()
+    );
+    fs.copyFileSync(source, target);
+    return target;
+  }
+
+  private listFixtures(kind: 'screen' | 'camera', extensions: string[]): string[] {
+    const kindDir = path.join(this.fixtureDir, kind);
+    const dir = fs.existsSync(kindDir) ? kindDir : this.fixtureDir;
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(f => extensions.includes(path.extname(f).toLowerCase()))
+      .sort()
+      .map(f => path.join(dir, f));
+  }
+}
+
+/**
+ * Create the capture backend selected by config.recordings.backend (default: openclaw)
+ */
+export function createCaptureBackend(config: Config): CaptureBackend {
+  const name = config.recordings.backend || 'openclaw';
+
+  switch (name) {
+    case 'openclaw':
+      return new OpenClawBackend();
+    case 'ffmpeg':
+      return new FfmpegBackend(config);
+    case 'fixture':
+      return new FixtureBackend(config);
+    default:
+      throw new Error(`Unknown capture backend: ${name}`);
+  }
+}
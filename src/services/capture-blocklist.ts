@@ -0,0 +1,52 @@
+/**
+ * Capture Blocklist
+ * Keeps password managers, banking tabs and other sensitive screens out of recordings
+ */
+
+import { Config, ActiveWindow } from '../types/index.js';
+import { WindowProbe, createWindowProbe } from './window-tracker.js';
+
+export class CaptureBlocklist {
+  private apps: string[];
+  private titlePatterns: RegExp[];
+  private probe: WindowProbe | null;
+
+  constructor(config: Config, probe?: WindowProbe) {
+    this.apps = (config.privacy?.blockedApps || []).map(app => app.toLowerCase());
+    this.titlePatterns = (config.privacy?.blockedTitlePatterns || []).map(pattern => new RegExp(pattern, 'i'));
+
+    // Only probe the window when there is something to block
+    this.probe = this.isEnabled() ? (probe || createWindowProbe(config)) : null;
+  }
+
+  isEnabled(): boolean {
+    return this.apps.length > 0 || this.titlePatterns.length > 0;
+  }
+
+  /**
+   * True if the window's app or title is on the blocklist
+   */
+  matches(window: ActiveWindow): boolean {
+    const app = window.app.toLowerCase();
+    if (this.apps.some(blocked => app.includes(blocked))) {
+      return true;
+    }
+    return this.titlePatterns.some(pattern => pattern.test(window.title));
+  }
+
+  /**
+   * Check the focused window. Fails closed: if the window can't be read,
+   * capture is treated as blocked.
+   */
+  async isForegroundBlocked(): Promise<boolean> {
+    if (!this.probe) return false;
+
+    try {
+      const window = await this.probe.getActiveWindow();
+      return window ? this.matches(window) : false;
+    } catch (error: any) {
+      console.warn(`⚠️ Could not read focused window, suppressing capture: ${error?.message || error}`);
+      return true;
+    }
+  }
+}
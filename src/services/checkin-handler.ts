@@ -1,23 +1,31 @@
 import { Config, CheckIn } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
 import { MarkdownLogger } from '../storage/markdown-logger.js';
+import { DayBoundary } from '../storage/day-boundary.js';
 
 export class CheckInHandler {
   private db: LifeLogDatabase;
   private logger: MarkdownLogger;
+  private days: DayBoundary;
 
   constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger) {
     this.db = db;
     this.logger = logger;
+    this.days = new DayBoundary(config);
   }
 
-  async addCheckIn(message: string, source: 'cli' | 'api' | 'auto' = 'cli'): Promise<CheckIn> {
+  async addCheckIn(
+    message: string,
+    source: 'cli' | 'api' | 'auto' = 'cli',
+    feelings: Pick<CheckIn, 'mood' | 'energy'> = {}
+  ): Promise<CheckIn> {
     const timestamp = new Date().toISOString();
 
     const checkIn: CheckIn = {
       timestamp,
       message,
       source,
+      ...feelings,
     };
 
     const id = this.db.insertCheckIn(checkIn);
@@ -30,8 +38,7 @@ export class CheckInHandler {
   }
 
   getCheckInsForToday(): CheckIn[] {
-    const today = new Date().toISOString().split('T')[0];
-    return this.db.getCheckInsByDate(today);
+    return this.db.getCheckInsByDate(this.days.today());
   }
 
   getCheckInsForDate(date: string): CheckIn[] {
@@ -15,7 +15,8 @@ export class Exporter {
   exportDay(date: string): ExportData {
     const activities = this.db.getActivitiesByDate(date);
     const checkIns = this.db.getCheckInsByDate(date);
-    const media = this.db.getMediaByDate(date);
+    // Everything stored, keyframes and conversation chunks included
+    const media = this.db.getMediaByDate(date, true);
     const summary = this.db.getSummary(date);
 
     const exportData: ExportData = {
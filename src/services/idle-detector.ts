@@ -0,0 +1,176 @@
+/**
+ * Idle Detector
+ * Notices when nobody is at the machine so capture loops can pause
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Config, Activity, IdleProbeName } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { MarkdownLogger } from '../storage/markdown-logger.js';
+
+const execAsync = promisify(exec);
+
+const DEFAULT_IDLE_THRESHOLD_MS = 5 * 60000;
+
+export interface IdleProbe {
+  readonly name: IdleProbeName;
+  /** Seconds since the last keyboard/mouse input */
+  getIdleSeconds(): Promise<number>;
+}
+
+/**
+ * macOS: HIDIdleTime from IOHIDSystem (nanoseconds)
+ */
+export class MacOSIdleProbe implements IdleProbe {
+  readonly name = 'macos' as const;
+
+  async getIdleSeconds(): Promise<number> {
+    const { stdout } = await execAsync('ioreg -c IOHIDSystem', { timeout: 5000 });
+    const match = stdout.match(/"HIDIdleTime"\s*=\s*(\d+)/);
+    if (!match) {
+      throw new Error('HIDIdleTime not found in ioreg output');
+    }
+    return parseInt(match[1]) / 1e9;
+  }
+}
+
+/**
+ * Linux (X11): xprintidle (milliseconds)
+ */
+export class LinuxIdleProbe implements IdleProbe {
+  readonly name = 'linux' as const;
+
+  async getIdleSeconds(): Promise<number> {
+    const { stdout } = await execAsync('xprintidle', { timeout: 5000 });
+    const ms = parseInt(stdout.trim());
+    if (isNaN(ms)) {
+      throw new Error(`Unexpected xprintidle output: ${stdout.trim()}`);
+    }
+    return ms / 1000;
+  }
+}
+
+/**
+ * Scripted probe for tests and demos: returns the given idle times in order,
+ * then keeps returning the last one
+ */
+export class ScriptedIdleProbe implements IdleProbe {
+  readonly name = 'scripted' as const;
+  private samples: number[];
+  private index = 0;
+
+  constructor(samples: number[]) {
+    this.samples = samples;
+  }
+
+  async getIdleSeconds(): Promise<number> {
+    if (this.samples.length === 0) return 0;
+    const sample = this.samples[Math.min(this.index, this.samples.length - 1)];
+    this.index++;
+    return sample;
+  }
+}
+
+/**
+ * Create the probe selected by config.idle.probe (default: auto by platform)
+ */
+export function createIdleProbe(config: Config): IdleProbe {
+  const name = config.idle?.probe || 'auto';
+
+  switch (name) {
+    case 'macos':
+      return new MacOSIdleProbe();
+    case 'linux':
+      return new LinuxIdleProbe();
+    case 'scripted':
+      return new ScriptedIdleProbe(config.idle?.scriptedIdleSeconds || []);
+    case 'auto':
+      return process.platform === 'darwin' ? new MacOSIdleProbe() : new LinuxIdleProbe();
+    default:
+      throw new Error(`Unknown idle probe: ${name}`);
+  }
+}
+
+export type IdleTransition = 'idle_start' | 'idle_end';
+
+/**
+ * Tracks idle/active state and logs `idle_start` / `idle_end` activities.
+ * The caller decides what to pause; this only reports transitions.
+ */
+export class IdleDetector {
+  private db: LifeLogDatabase;
+  private logger: MarkdownLogger;
+  private probe: IdleProbe;
+  private thresholdMs: number;
+  private idleSince: Date | null = null;
+
+  constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger, probe?: IdleProbe) {
+    this.db = db;
+    this.logger = logger;
+    this.probe = probe || createIdleProbe(config);
+    this.thresholdMs = config.idle?.thresholdMs || DEFAULT_IDLE_THRESHOLD_MS;
+  }
+
+  /**
+   * Poll the probe once; returns the transition that happened, if any
+   */
+  async check(now: Date = new Date()): Promise<IdleTransition | null> {
+    let idleMs: number;
+    try {
+      idleMs = (await this.probe.getIdleSeconds()) * 1000;
+    } catch (error: any) {
+      // Without a reading we can't tell, so keep the current state
+      console.warn(`⚠️ Idle probe failed: ${error?.message || error}`);
+      return null;
+    }
+
+    if (!this.idleSince && idleMs >= this.thresholdMs) {
+      // Idle started with the last input, not when we noticed it
+      this.idleSince = new Date(now.getTime() - idleMs);
+      this.record({
+        timestamp: this.idleSince.toISOString(),
+        type: 'idle_start',
+        metadata_json: JSON.stringify({ thresholdMs: this.thresholdMs }),
+      });
+      return 'idle_start';
+    }
+
+    if (this.idleSince && idleMs < this.thresholdMs) {
+      this.end(new Date(now.getTime() - idleMs));
+      return 'idle_end';
+    }
+
+    return null;
+  }
+
+  /**
+   * Close the current idle span (e.g. when the session stops while away)
+   */
+  end(now: Date = new Date()): Activity | null {
+    if (!this.idleSince) return null;
+
+    const activity: Activity = {
+      timestamp: now.toISOString(),
+      type: 'idle_end',
+      duration: Math.max(0, now.getTime() - this.idleSince.getTime()),
+      metadata_json: JSON.stringify({ idleSince: this.idleSince.toISOString() }),
+    };
+    this.idleSince = null;
+    this.record(activity);
+    return activity;
+  }
+
+  isIdle(): boolean {
+    return this.idleSince !== null;
+  }
+
+  getIdleSince(): Date | null {
+    return this.idleSince;
+  }
+
+  private record(activity: Activity): void {
+    activity.id = this.db.insertActivity(activity);
+    this.logger.logActivity(activity);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Screen Recorder Blocklist Tests
+ *
+ * Run with: npx ts-node src/services/screen-recorder.test.ts
+ * Or: node --loader ts-node/esm src/services/screen-recorder.test.ts
+ */
+
+import fs from 'fs';
+import { ScreenRecorder } from './screen-recorder.js';
+import { CaptureBackend } from './capture-backends.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { MarkdownLogger } from '../storage/markdown-logger.js';
+import { ActiveWindow } from '../types/index.js';
+import { test, assertEqual, createTestConfig, summary } from '../test-utils.js';
+
+const EDITOR: ActiveWindow = { app: 'Code', title: 'index.ts' };
+const PASSWORDS: ActiveWindow = { app: '1Password', title: 'Vault' };
+
+// Writes an empty clip after `durationMs`, like a real recording would
+const slowBackend: CaptureBackend = {
+  name: 'fixture',
+  async recordScreen(durationMs: number, outPath: string): Promise<string | null> {
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    fs.writeFileSync(outPath, '');
+    return outPath;
+  },
+  async snapCamera(): Promise<string | null> {
+    return null;
+  },
+};
+
+function createRecorder(samples: ActiveWindow[]): { recorder: ScreenRecorder; db: LifeLogDatabase; screenDir: string } {
+  const config = createTestConfig({
+    windowTracking: { enabled: false, probe: 'scripted', scriptedSamples: samples },
+    privacy: { blockedApps: ['1password'], checkIntervalMs: 10 },
+  });
+  config.intervals.screenRecordDurationMs = 100;
+
+  const db = new LifeLogDatabase(config);
+  const recorder = new ScreenRecorder(config, db, new MarkdownLogger(config), slowBackend);
+  return { recorder, db, screenDir: config.recordings.screenDir };
+}
+
+function suppressedCount(db: LifeLogDatabase): number {
+  return (db.getRawDb().prepare("SELECT COUNT(*) as count FROM activities WHERE type = 'capture_suppressed'").get() as { count: number }).count;
+}
+
+// ==================== BLOCKLIST TESTS ====================
+
+console.log('\n🧪 Screen Recorder Blocklist Tests\n');
+
+await test('clip is kept when nothing blocked was in front', async () => {
+  const { recorder, db, screenDir } = createRecorder([EDITOR]);
+
+  const media = await recorder.record();
+
+  assertEqual(media !== null, true, 'media saved');
+  assertEqual(fs.readdirSync(screenDir).length, 1);
+  assertEqual(suppressedCount(db), 0);
+  db.close();
+});
+
+await test('clip is dropped when a blocked app was in front mid-recording', async () => {
+  // Editor before and after; the password manager only during the clip
+  const { recorder, db, screenDir } = createRecorder([EDITOR, EDITOR, PASSWORDS, EDITOR]);
+
+  const media = await recorder.record();
+
+  assertEqual(media, null);
+  assertEqual(fs.readdirSync(screenDir).length, 0, 'clip deleted');
+  assertEqual(suppressedCount(db), 1);
+  assertEqual((db.getRawDb().prepare('SELECT COUNT(*) as count FROM media').get() as { count: number }).count, 0, 'no media row');
+  db.close();
+});
+
+await test('nothing is recorded when a blocked app is in front at the start', async () => {
+  const { recorder, db, screenDir } = createRecorder([PASSWORDS, EDITOR]);
+
+  assertEqual(await recorder.record(), null);
+  assertEqual(fs.readdirSync(screenDir).length, 0);
+  assertEqual(suppressedCount(db), 1);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
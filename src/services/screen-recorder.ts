@@ -1,24 +1,28 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs';
 import path from 'path';
 import { format } from 'date-fns';
-import { Config, MediaRecord } from '../types/index.js';
+import { Config, MediaRecord, Activity } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
 import { MarkdownLogger } from '../storage/markdown-logger.js';
+import { CaptureBackend, createCaptureBackend } from './capture-backends.js';
+import { CaptureBlocklist } from './capture-blocklist.js';
 
-const execAsync = promisify(exec);
+const DEFAULT_BLOCKLIST_CHECK_INTERVAL_MS = 2000;
 
 export class ScreenRecorder {
   private config: Config;
   private db: LifeLogDatabase;
   private logger: MarkdownLogger;
+  private backend: CaptureBackend;
+  private blocklist: CaptureBlocklist;
   private recordingDir: string;
 
-  constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger) {
+  constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger, backend?: CaptureBackend) {
     this.config = config;
     this.db = db;
     this.logger = logger;
+    this.backend = backend || createCaptureBackend(config);
+    this.blocklist = new CaptureBlocklist(config);
     this.recordingDir = config.recordings.screenDir;
     
     if (!fs.existsSync(this.recordingDir)) {
@@ -26,7 +30,11 @@ export class ScreenRecorder {
     }
   }
 
-  async record(durationMs?: number): Promise<MediaRecord | null> {
+  /**
+   * Record a clip. `isCurrent` is asked once it's done; when it says the
+   * capture no longer counts (e.g. capture was paused meanwhile) the clip is deleted.
+   */
+  async record(durationMs?: number, isCurrent?: () => boolean): Promise<MediaRecord | null> {
     const timestamp = new Date().toISOString();
     const filename = `screen_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.mov`;
     const filePath = path.join(this.recordingDir, filename);
@@ -34,28 +42,47 @@ export class ScreenRecorder {
     const durationSec = Math.ceil(duration / 1000);
 
     try {
-      console.log(`📹 Recording screen for ${durationSec}s...`);
-      
-      // Use OpenClaw nodes screen record command
-      const command = `openclaw nodes screen record --duration ${duration} --out "${filePath}"`;
+      if (await this.blocklist.isForegroundBlocked()) {
+        this.recordSuppressed(timestamp);
+        return null;
+      }
+
+      console.log(`📹 Recording screen for ${durationSec}s (${this.backend.name})...`);
       
-      await execAsync(command, { timeout: duration + 60000 });
+      const { savedPath, blocked } = await this.recordWatched(duration, filePath);
+
+      if (savedPath && isCurrent && !isCurrent()) {
+        if (fs.existsSync(savedPath)) {
+          fs.unlinkSync(savedPath);
+        }
+        console.log('⏸️ Screen recording discarded (capture stopped while recording)');
+        return null;
+      }
+
+      // A blocked app may have come to the front at any point while recording
+      if (savedPath && (blocked || await this.blocklist.isForegroundBlocked())) {
+        if (fs.existsSync(savedPath)) {
+          fs.unlinkSync(savedPath);
+        }
+        this.recordSuppressed(timestamp);
+        return null;
+      }
 
-      if (fs.existsSync(filePath)) {
+      if (savedPath && fs.existsSync(savedPath)) {
         const media: MediaRecord = {
           timestamp,
           type: 'screen',
-          file_path: filePath,
+          file_path: this.db.getEncryptor().encryptFile(savedPath),
         };
 
         const id = this.db.insertMedia(media);
         media.id = id;
         this.logger.logMedia(media);
 
-        console.log(`✓ Screen recording saved: ${filename}`);
+        console.log(`✓ Screen recording saved: ${path.basename(savedPath)}`);
         return media;
       } else {
-        console.warn('⚠️ Screen recording file not found after command');
+        console.warn('⚠️ Screen recording file not found after capture');
         return null;
       }
     } catch (error) {
@@ -63,4 +90,48 @@ export class ScreenRecorder {
       return null;
     }
   }
+
+  /**
+   * Record while checking the focused window every privacy.checkIntervalMs;
+   * `blocked` is set if a blocklisted window was in front at any check
+   */
+  private async recordWatched(duration: number, filePath: string): Promise<{ savedPath: string | null; blocked: boolean }> {
+    if (!this.blocklist.isEnabled()) {
+      return { savedPath: await this.backend.recordScreen(duration, filePath), blocked: false };
+    }
+
+    let blocked = false;
+    let checking = false;
+    const timer = setInterval(async () => {
+      // A slow probe shouldn't pile up checks
+      if (checking || blocked) return;
+      checking = true;
+      try {
+        blocked = await this.blocklist.isForegroundBlocked();
+      } finally {
+        checking = false;
+      }
+    }, this.config.privacy?.checkIntervalMs || DEFAULT_BLOCKLIST_CHECK_INTERVAL_MS);
+
+    try {
+      const savedPath = await this.backend.recordScreen(duration, filePath);
+      return { savedPath, blocked };
+    } finally {
+      clearInterval(timer);
+    }
+  }
+
+  /**
+   * Audit that a capture was suppressed, without saying what was on screen
+   */
+  private recordSuppressed(timestamp: string): void {
+    const activity: Activity = {
+      timestamp,
+      type: 'capture_suppressed',
+      metadata_json: JSON.stringify({ mediaType: 'screen' }),
+    };
+    activity.id = this.db.insertActivity(activity);
+    this.logger.logActivity(activity);
+    console.log('🔒 Screen capture suppressed (blocklisted window in foreground)');
+  }
 }
@@ -0,0 +1,256 @@
+/**
+ * Session Daemon
+ * Owns the running session and exposes a Unix-domain-socket control API,
+ * so `lifelog stop` / `pause` / `status` and the dashboard's review page talk
+ * to the live agent
+ */
+
+import net from 'net';
+import fs from 'fs';
+import path from 'path';
+import { Config, SessionStatus } from '../types/index.js';
+import { SessionManager } from './session-manager.js';
+
+const SOCKET_FILE = 'lifelog.sock';
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+export type DaemonCommand = 'status' | 'stop' | 'pause' | 'resume' | 'checkin' | 'review';
+
+export interface DaemonRequest {
+  command: DaemonCommand;
+  args?: Record<string, unknown>;
+}
+
+export interface DaemonResponse {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Socket path for a data directory (absolute, so every process agrees)
+ */
+export function getSocketPath(config: Config): string {
+  return path.resolve(config.dataDir, SOCKET_FILE);
+}
+
+export class SessionDaemon {
+  private sessionManager: SessionManager;
+  private socketPath: string;
+  private server: net.Server | null = null;
+  private onStopped: () => void;
+
+  constructor(config: Config, sessionManager: SessionManager, onStopped: () => void = () => {}) {
+    this.sessionManager = sessionManager;
+    this.socketPath = getSocketPath(config);
+    this.onStopped = onStopped;
+  }
+
+  /**
+   * Listen on the control socket, then start the session
+   */
+  async start(sessionName: string, options: { listen?: boolean } = {}): Promise<boolean> {
+    await this.listen();
+
+    const started = await this.sessionManager.start(sessionName, options);
+    if (!started) {
+      await this.close();
+    }
+    return started;
+  }
+
+  /**
+   * Stop the session and shut the control socket down
+   */
+  async shutdown(): Promise<{ sessionName: string; duration: number } | null> {
+    const result = await this.sessionManager.stop();
+    await this.close();
+    this.onStopped();
+    return result;
+  }
+
+  private async listen(): Promise<void> {
+    // A socket file left behind by a crashed daemon blocks listen()
+    if (fs.existsSync(this.socketPath)) {
+      if (await new SessionClient(this.socketPath).isRunning()) {
+        throw new Error(`Another session daemon is listening on ${this.socketPath}`);
+      }
+      fs.unlinkSync(this.socketPath);
+    }
+
+    this.server = net.createServer(socket => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.socketPath, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Only the owner may control the session
+    fs.chmodSync(this.socketPath, 0o600);
+  }
+
+  private async close(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+
+    if (fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let buffer = '';
+
+    socket.setEncoding('utf-8');
+    socket.on('data', async chunk => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) return;
+
+      const line = buffer.slice(0, newline);
+      buffer = '';
+
+      let request: DaemonRequest | null = null;
+      let response: DaemonResponse;
+      try {
+        request = JSON.parse(line) as DaemonRequest;
+        response = { ok: true, result: await this.dispatch(request) };
+      } catch (error: any) {
+        response = { ok: false, error: error?.message || String(error) };
+      }
+
+      socket.end(JSON.stringify(response) + '\n');
+
+      if (response.ok && request?.command === 'stop') {
+        // Reply first, then tear down so the client isn't left hanging
+        await this.close();
+        this.onStopped();
+      }
+    });
+    socket.on('error', () => {
+      // Client went away; nothing to clean up
+    });
+  }
+
+  private async dispatch(request: DaemonRequest): Promise<unknown> {
+    switch (request.command) {
+      case 'status':
+        return this.sessionManager.getStatus();
+      case 'stop':
+        return this.sessionManager.stop();
+      case 'pause': {
+        const durationMs = request.args?.durationMs;
+        const reason = request.args?.reason;
+        return {
+          paused: await this.sessionManager.pause(
+            typeof durationMs === 'number' ? durationMs : undefined,
+            typeof reason === 'string' ? reason : undefined
+          ),
+        };
+      }
+      case 'resume':
+        return { resumed: await this.sessionManager.resume() };
+      case 'checkin': {
+        const message = request.args?.message;
+        if (typeof message !== 'string' || message.trim() === '') {
+          throw new Error('checkin requires a message');
+        }
+        const { mood, energy } = request.args ?? {};
+        for (const [feeling, value] of Object.entries({ mood, energy })) {
+          if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1 || (value as number) > 5)) {
+            throw new Error(`checkin ${feeling} must be a whole number from 1 to 5`);
+          }
+        }
+        await this.sessionManager.checkIn(message, { mood: mood as number | undefined, energy: energy as number | undefined });
+        return { recorded: true };
+      }
+      case 'review': {
+        const mediaIds = request.args?.mediaIds;
+        const category = request.args?.category;
+        if (!Array.isArray(mediaIds) || mediaIds.length === 0 || !mediaIds.every(id => Number.isInteger(id) && id > 0)) {
+          throw new Error('review requires mediaIds');
+        }
+        if (category !== undefined && typeof category !== 'string') {
+          throw new Error('review category must be a string');
+        }
+        return this.sessionManager.review(mediaIds, category);
+      }
+      default:
+        throw new Error(`Unknown command: ${(request as DaemonRequest).command}`);
+    }
+  }
+}
+
+/**
+ * Client side of the control socket, used by the CLI
+ */
+export class SessionClient {
+  private socketPath: string;
+  private timeoutMs: number;
+
+  constructor(socketPathOrConfig: string | Config, timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS) {
+    this.socketPath = typeof socketPathOrConfig === 'string'
+      ? socketPathOrConfig
+      : getSocketPath(socketPathOrConfig);
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Send one command and wait for the reply
+   */
+  async send<T = unknown>(command: DaemonCommand, args?: Record<string, unknown>): Promise<T> {
+    const raw = await new Promise<string>((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      let data = '';
+
+      socket.setEncoding('utf-8');
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy();
+        reject(new Error(`Session daemon did not respond within ${this.timeoutMs}ms`));
+      });
+      socket.on('connect', () => {
+        socket.write(JSON.stringify({ command, args } satisfies DaemonRequest) + '\n');
+      });
+      socket.on('data', chunk => { data += chunk; });
+      socket.on('end', () => resolve(data));
+      socket.on('error', reject);
+    });
+
+    const response = JSON.parse(raw) as DaemonResponse;
+    if (!response.ok) {
+      throw new Error(response.error || `Daemon command failed: ${command}`);
+    }
+    return response.result as T;
+  }
+
+  /**
+   * True when a daemon answers on the socket (a leftover socket file doesn't count)
+   */
+  async isRunning(): Promise<boolean> {
+    if (!fs.existsSync(this.socketPath)) return false;
+    try {
+      await this.send<SessionStatus>('status');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Poll until the daemon answers, e.g. right after spawning it
+   */
+  async waitForReady(timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (await this.isRunning()) return true;
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    return false;
+  }
+}
@@ -1,13 +1,20 @@
 import fs from 'fs';
 import path from 'path';
-import { Config, SessionState, Activity } from '../types/index.js';
+import { Config, SessionState, SessionStatus, Activity, ActivityCategory, CheckIn } from '../types/index.js';
 import { LifeLogDatabase } from '../storage/database.js';
 import { MarkdownLogger } from '../storage/markdown-logger.js';
 import { ScreenRecorder } from './screen-recorder.js';
 import { CameraSnapshot } from './camera-snapshot.js';
+import { AudioRecorder } from './audio-recorder.js';
 import { CheckInHandler } from './checkin-handler.js';
+import { createCaptureBackend } from './capture-backends.js';
+import { WindowTracker } from './window-tracker.js';
+import { IdleDetector } from './idle-detector.js';
+import { ReviewQueue } from '../analysis/review.js';
 
 const STATE_FILE = '.lifelog-session.json';
+const DEFAULT_WINDOW_SAMPLE_INTERVAL_MS = 10000;
+const DEFAULT_IDLE_CHECK_INTERVAL_MS = 30000;
 
 export class SessionManager {
   private config: Config;
@@ -15,17 +22,30 @@ export class SessionManager {
   private logger: MarkdownLogger;
   private screenRecorder: ScreenRecorder;
   private cameraSnapshot: CameraSnapshot;
+  private audioRecorder: AudioRecorder;
   private checkInHandler: CheckInHandler;
+  private windowTracker: WindowTracker | null;
+  private idleDetector: IdleDetector | null;
+  private reviewQueue: ReviewQueue;
   private state: SessionState;
   private stateFile: string;
+  // Bumped whenever capture stops, so captures started before it can tell
+  private captureGeneration = 0;
+  private listen = false;
+  private listening: Promise<void> | null = null;
 
   constructor(config: Config, db: LifeLogDatabase, logger: MarkdownLogger) {
     this.config = config;
     this.db = db;
     this.logger = logger;
-    this.screenRecorder = new ScreenRecorder(config, db, logger);
-    this.cameraSnapshot = new CameraSnapshot(config, db, logger);
+    const captureBackend = createCaptureBackend(config);
+    this.screenRecorder = new ScreenRecorder(config, db, logger, captureBackend);
+    this.cameraSnapshot = new CameraSnapshot(config, db, logger, captureBackend);
+    this.audioRecorder = new AudioRecorder(config, db, logger);
     this.checkInHandler = new CheckInHandler(config, db, logger);
+    this.windowTracker = config.windowTracking?.enabled ? new WindowTracker(config, db) : null;
+    this.idleDetector = config.idle?.enabled ? new IdleDetector(config, db, logger) : null;
+    this.reviewQueue = new ReviewQueue(config, db);
     this.stateFile = path.join(config.dataDir, STATE_FILE);
     this.state = this.loadState();
   }
@@ -39,6 +59,11 @@ export class SessionManager {
           active: saved.active || false,
           sessionName: saved.sessionName || null,
           startTime: saved.startTime || null,
+          pid: saved.pid,
+          paused: saved.paused || false,
+          pausedAt: saved.pausedAt || null,
+          pausedUntil: saved.pausedUntil || null,
+          pauseReason: saved.pauseReason || null,
         };
       }
     } catch (error) {
@@ -52,21 +77,32 @@ export class SessionManager {
       active: this.state.active,
       sessionName: this.state.sessionName,
       startTime: this.state.startTime,
+      pid: this.state.pid,
+      paused: this.state.paused,
+      pausedAt: this.state.pausedAt,
+      pausedUntil: this.state.pausedUntil,
+      pauseReason: this.state.pauseReason,
     };
     fs.writeFileSync(this.stateFile, JSON.stringify(data, null, 2));
   }
 
-  async start(sessionName: string): Promise<boolean> {
+  /**
+   * Start a session; with `listen` (or config.audio.listen) it also records conversations
+   */
+  async start(sessionName: string, options: { listen?: boolean } = {}): Promise<boolean> {
     if (this.state.active) {
       console.log(`⚠️ Session already active: ${this.state.sessionName}`);
       return false;
     }
+    this.listen = options.listen ?? this.config.audio?.listen ?? false;
 
     const timestamp = new Date().toISOString();
     this.state = {
       active: true,
       sessionName,
       startTime: timestamp,
+      pid: process.pid,
+      paused: false,
     };
 
     // Log session start
@@ -80,32 +116,117 @@ export class SessionManager {
 
     console.log(`🚀 Session started: ${sessionName}`);
 
+    // Save before the first (slow) capture so other processes see the session
+    this.saveState();
+
     // Start recording intervals
     await this.startRecordingLoops();
 
-    this.saveState();
     return true;
   }
 
   private async startRecordingLoops(): Promise<void> {
+    await this.startCaptureLoops();
+    if (!this.state.active) return;
+
+    // Idle checks keep running while capture is paused, so they can resume it
+    if (this.idleDetector) {
+      const detector = this.idleDetector;
+      this.state.idleCheckInterval = setInterval(async () => {
+        if (!this.state.active) return;
+
+        const transition = await detector.check();
+        if (transition === 'idle_start' && !this.state.paused) {
+          console.log('💤 Away from keyboard, pausing capture');
+          this.stopCaptureLoops(detector.getIdleSince() || new Date());
+        } else if (transition === 'idle_end' && !this.state.paused) {
+          console.log('👋 Welcome back, resuming capture');
+          await this.startCaptureLoops();
+        }
+      }, this.config.idle?.checkIntervalMs || DEFAULT_IDLE_CHECK_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Capture runs only in an active session that isn't paused and whose user is at the keyboard
+   */
+  private isCapturing(): boolean {
+    return this.state.active && !this.state.paused && !this.idleDetector?.isIdle();
+  }
+
+  /**
+   * For a capture starting now: whether capture has kept running since, so a
+   * clip that finishes after a pause, idle or stop is dropped
+   */
+  private captureGuard(): () => boolean {
+    const generation = this.captureGeneration;
+    return () => generation === this.captureGeneration && this.isCapturing();
+  }
+
+  private async startCaptureLoops(): Promise<void> {
+    // Window sampling is cheap, so start it before the slower captures
+    if (this.windowTracker && !this.state.windowSampleInterval) {
+      const tracker = this.windowTracker;
+      await tracker.sample();
+      this.state.windowSampleInterval = setInterval(async () => {
+        if (this.isCapturing()) {
+          await tracker.sample();
+        }
+      }, this.config.intervals.windowSampleIntervalMs || DEFAULT_WINDOW_SAMPLE_INTERVAL_MS);
+    }
+
+    // Listening runs until capture stops, which also drops the chunk in progress
+    if (this.listen && !this.listening) {
+      this.listening = this.audioRecorder.listen(this.captureGuard())
+        .catch(error => console.error('❌ Listening failed:', error));
+    }
+
     // Initial capture
-    await this.screenRecorder.record();
-    await this.cameraSnapshot.capture('front');
+    await this.screenRecorder.record(undefined, this.captureGuard());
+    await this.cameraSnapshot.capture('front', this.captureGuard());
+
+    // The session may have been stopped, paused or gone idle while capturing,
+    // and an idle_end during it may already have started the loops again
+    if (!this.isCapturing() || this.state.screenRecordInterval) return;
 
     // Set up intervals
     this.state.screenRecordInterval = setInterval(async () => {
-      if (this.state.active) {
-        await this.screenRecorder.record();
+      if (this.isCapturing()) {
+        await this.screenRecorder.record(undefined, this.captureGuard());
       }
     }, this.config.intervals.screenRecordIntervalMs);
 
     this.state.cameraSnapInterval = setInterval(async () => {
-      if (this.state.active) {
-        await this.cameraSnapshot.capture('front');
+      if (this.isCapturing()) {
+        await this.cameraSnapshot.capture('front', this.captureGuard());
       }
     }, this.config.intervals.cameraSnapshotIntervalMs);
   }
 
+  /**
+   * Clear capture intervals; the window span is closed at `until`
+   */
+  private stopCaptureLoops(until: Date = new Date()): void {
+    this.captureGeneration++;
+    if (this.listening) {
+      this.audioRecorder.stopListening();
+      this.listening = null;
+    }
+    if (this.state.screenRecordInterval) {
+      clearInterval(this.state.screenRecordInterval);
+      this.state.screenRecordInterval = undefined;
+    }
+    if (this.state.cameraSnapInterval) {
+      clearInterval(this.state.cameraSnapInterval);
+      this.state.cameraSnapInterval = undefined;
+    }
+    if (this.state.windowSampleInterval) {
+      clearInterval(this.state.windowSampleInterval);
+      this.state.windowSampleInterval = undefined;
+    }
+    this.windowTracker?.flush(until);
+  }
+
   async stop(): Promise<{ sessionName: string; duration: number } | null> {
     if (!this.state.active) {
       console.log('⚠️ No active session');
@@ -113,12 +234,14 @@ export class SessionManager {
     }
 
     // Clear intervals
-    if (this.state.screenRecordInterval) {
-      clearInterval(this.state.screenRecordInterval);
+    this.stopCaptureLoops();
+    if (this.state.paused) {
+      this.endPause('session_stop');
     }
-    if (this.state.cameraSnapInterval) {
-      clearInterval(this.state.cameraSnapInterval);
+    if (this.state.idleCheckInterval) {
+      clearInterval(this.state.idleCheckInterval);
     }
+    this.idleDetector?.end();
 
     const timestamp = new Date().toISOString();
     const duration = this.state.startTime 
@@ -146,11 +269,161 @@ export class SessionManager {
     return { sessionName, duration };
   }
 
-  async checkIn(message: string): Promise<void> {
-    await this.checkInHandler.addCheckIn(message, 'cli');
+  /**
+   * Suspend capture without ending the session. With a duration, capture
+   * resumes on its own when the privacy window ends.
+   */
+  async pause(durationMs?: number, reason?: string): Promise<boolean> {
+    if (!this.state.active || this.state.paused) {
+      return false;
+    }
+
+    const now = new Date();
+    this.stopCaptureLoops(now);
+    this.state.paused = true;
+    this.state.pausedAt = now.toISOString();
+    this.state.pausedUntil = durationMs ? new Date(now.getTime() + durationMs).toISOString() : null;
+    this.state.pauseReason = reason || null;
+
+    if (durationMs) {
+      this.state.resumeTimeout = setTimeout(() => {
+        this.resume().catch(error => console.error('❌ Auto-resume failed:', error));
+      }, durationMs);
+    }
+
+    const activity: Activity = {
+      timestamp: this.state.pausedAt,
+      type: 'capture_paused',
+      duration: durationMs,
+      metadata_json: JSON.stringify({
+        sessionName: this.state.sessionName,
+        until: this.state.pausedUntil,
+        reason: this.state.pauseReason,
+      }),
+    };
+    this.db.insertActivity(activity);
+    this.logger.logCapturePaused(this.state.pausedUntil, this.state.pauseReason);
+    this.saveState();
+
+    const untilText = this.state.pausedUntil ? ` until ${new Date(this.state.pausedUntil).toLocaleTimeString()}` : '';
+    console.log(`⏸️ Capture paused${untilText}`);
+    return true;
+  }
+
+  /**
+   * Resume capture after a pause
+   */
+  async resume(): Promise<boolean> {
+    if (!this.state.active || !this.state.paused) {
+      return false;
+    }
+
+    this.endPause();
+    console.log('▶️ Capture resumed');
+
+    // Stay quiet if the user walked away during the pause
+    if (!this.idleDetector?.isIdle()) {
+      await this.startCaptureLoops();
+    }
+    return true;
+  }
+
+  /**
+   * Record the end of the current pause and clear pause state
+   */
+  private endPause(endedBy: 'resume' | 'session_stop' = 'resume'): void {
+    if (this.state.resumeTimeout) {
+      clearTimeout(this.state.resumeTimeout);
+      this.state.resumeTimeout = undefined;
+    }
+
+    const now = new Date();
+    const pausedAt = this.state.pausedAt || now.toISOString();
+    const duration = now.getTime() - new Date(pausedAt).getTime();
+
+    const activity: Activity = {
+      timestamp: now.toISOString(),
+      type: 'capture_resumed',
+      duration,
+      metadata_json: JSON.stringify({
+        sessionName: this.state.sessionName,
+        pausedAt,
+        reason: this.state.pauseReason,
+        endedBy,
+      }),
+    };
+    this.db.insertActivity(activity);
+    this.logger.logCaptureResumed(duration);
+
+    this.state.paused = false;
+    this.state.pausedAt = null;
+    this.state.pausedUntil = null;
+    this.state.pauseReason = null;
+    this.saveState();
+  }
+
+  /**
+   * A session is stale when its state says active but the owning process is gone
+   */
+  isStale(): boolean {
+    if (!this.state.active) return false;
+    if (!this.state.pid) return true;
+    if (this.state.pid === process.pid) return false;
+
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(this.state.pid, 0);
+      return false;
+    } catch (error: any) {
+      return error?.code !== 'EPERM';
+    }
+  }
+
+  /**
+   * Close out a session whose process died without stopping it
+   */
+  recoverStaleSession(): { sessionName: string; duration: number } | null {
+    if (!this.isStale()) return null;
+
+    const timestamp = new Date().toISOString();
+    const duration = this.state.startTime
+      ? new Date(timestamp).getTime() - new Date(this.state.startTime).getTime()
+      : 0;
+    const sessionName = this.state.sessionName || 'unnamed';
+
+    const activity: Activity = {
+      timestamp,
+      type: 'session_stop',
+      duration,
+      metadata_json: JSON.stringify({ sessionName, stale: true, pid: this.state.pid }),
+    };
+    this.db.insertActivity(activity);
+    this.logger.logSessionStop(sessionName, duration);
+
+    console.log(`🧹 Cleared stale session: ${sessionName} (process ${this.state.pid ?? 'unknown'} is gone)`);
+
+    this.state = { active: false, sessionName: null, startTime: null };
+    this.saveState();
+
+    return { sessionName, duration };
+  }
+
+  async checkIn(message: string, feelings: Pick<CheckIn, 'mood' | 'energy'> = {}): Promise<void> {
+    await this.checkInHandler.addCheckIn(message, 'cli', feelings);
+  }
+
+  /**
+   * Confirm classifications, or relabel them when a category is given (for
+   * the dashboard's review page, which can't reach the database the agent writes)
+   */
+  async review(mediaIds: number[], category?: ActivityCategory): Promise<{ updated: number; resummarized: string[] }> {
+    if (category === undefined) {
+      return { updated: this.reviewQueue.confirm(mediaIds), resummarized: [] };
+    }
+    return this.reviewQueue.relabel(mediaIds, category);
   }
 
-  getStatus(): { active: boolean; sessionName: string | null; startTime: string | null; durationMin: number } {
+  getStatus(): SessionStatus {
     const durationMin = this.state.startTime
       ? Math.round((Date.now() - new Date(this.state.startTime).getTime()) / 60000)
       : 0;
@@ -160,6 +433,10 @@ export class SessionManager {
       sessionName: this.state.sessionName,
       startTime: this.state.startTime,
       durationMin,
+      paused: this.state.paused || false,
+      pausedUntil: this.state.pausedUntil ?? null,
+      idle: this.idleDetector?.isIdle() || false,
+      pid: this.state.pid ?? null,
     };
   }
 
@@ -0,0 +1,286 @@
+/**
+ * Storage Manager
+ * Retention, disk quota, compression and in-place encryption for recorded media
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import { Config, MediaRecord, StorageUsage, PruneResult, CompressResult } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { Encryptor, ENCRYPTED_FILE_SUFFIX } from '../storage/encryption.js';
+
+const execAsync = promisify(exec);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS: Record<MediaRecord['type'], number> = {
+  screen: 7,
+  frame: 30,
+  camera: 30,
+  audio: 30,
+};
+const DEFAULT_COMPRESS_AFTER_DAYS = 2;
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.webm'];
+
+export class StorageManager {
+  private config: Config;
+  private db: LifeLogDatabase;
+  private encryptor: Encryptor;
+  private ffmpeg: string;
+
+  constructor(config: Config, db: LifeLogDatabase) {
+    this.config = config;
+    this.db = db;
+    this.encryptor = db.getEncryptor();
+    this.ffmpeg = config.frames?.ffmpegBinary || 'ffmpeg';
+  }
+
+  /**
+   * Disk usage of tracked media, by type
+   */
+  getUsage(): StorageUsage {
+    const byType: StorageUsage['byType'] = {
+      screen: { files: 0, bytes: 0 },
+      frame: { files: 0, bytes: 0 },
+      camera: { files: 0, bytes: 0 },
+      audio: { files: 0, bytes: 0 },
+    };
+    let missing = 0;
+
+    for (const media of this.db.getStoredMedia()) {
+      const size = this.getFileSize(media);
+      if (size === null) {
+        missing++;
+        continue;
+      }
+      byType[media.type].files++;
+      byType[media.type].bytes += size;
+    }
+
+    return {
+      byType,
+      totalBytes: Object.values(byType).reduce((sum, t) => sum + t.bytes, 0),
+      purged: this.db.getPurgedMediaCount(),
+      missing,
+      quotaBytes: this.getQuotaBytes(),
+    };
+  }
+
+  /**
+   * Delete files past their retention period, then the oldest files until
+   * usage is under quota. Rows and their analyses are kept, marked purged.
+   */
+  prune(options: { dryRun?: boolean; now?: Date } = {}): PruneResult {
+    const now = options.now || new Date();
+    const dryRun = options.dryRun ?? false;
+    const result: PruneResult = { purged: [], freedBytes: 0, skippedUnanalyzed: 0, dryRun };
+
+    const remaining: Array<{ media: MediaRecord; size: number }> = [];
+
+    for (const media of this.db.getStoredMedia()) {
+      const size = this.getFileSize(media);
+      if (size === null) {
+        this.purge(media, 0, 'missing', result, now);
+        continue;
+      }
+
+      const retentionDays = this.getRetentionDays(media.type);
+      const expired = retentionDays > 0 && now.getTime() - new Date(media.timestamp).getTime() > retentionDays * DAY_MS;
+      if (!expired) {
+        remaining.push({ media, size });
+      } else if (this.isAwaitingAnalysis(media)) {
+        // Keep it until analysis has had a chance to run; the quota can still take it
+        result.skippedUnanalyzed++;
+        remaining.push({ media, size });
+      } else {
+        this.purge(media, size, 'age', result, now);
+      }
+    }
+
+    const quotaBytes = this.getQuotaBytes();
+    if (quotaBytes !== null) {
+      let usage = remaining.reduce((sum, r) => sum + r.size, 0);
+      // getStoredMedia is oldest first
+      for (const { media, size } of remaining) {
+        if (usage <= quotaBytes) break;
+        this.purge(media, size, 'quota', result, now);
+        usage -= size;
+      }
+    }
+
+    if (!dryRun && result.purged.length > 0) {
+      const counts: Record<string, number> = {};
+      for (const p of result.purged) {
+        counts[p.reason] = (counts[p.reason] || 0) + 1;
+      }
+      this.db.insertActivity({
+        timestamp: now.toISOString(),
+        type: 'storage_pruned',
+        metadata_json: JSON.stringify({ files: result.purged.length, freedBytes: result.freedBytes, reasons: counts }),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-encode older recordings, screenshots and audio to smaller formats
+   * (H.264 video, JPEG images, Opus audio)
+   */
+  async compress(options: { dryRun?: boolean; now?: Date; olderThanDays?: number } = {}): Promise<CompressResult> {
+    const now = options.now || new Date();
+    const dryRun = options.dryRun ?? false;
+    const olderThanDays = options.olderThanDays ?? this.config.retention?.compressAfterDays ?? DEFAULT_COMPRESS_AFTER_DAYS;
+    const cutoff = now.getTime() - olderThanDays * DAY_MS;
+    const result: CompressResult = { compressed: 0, skipped: 0, failed: 0, savedBytes: 0, dryRun };
+
+    for (const media of this.db.getStoredMedia()) {
+      if (media.compressed_at || new Date(media.timestamp).getTime() > cutoff) continue;
+
+      const target = this.getCompressedPath(this.encryptor.getPlainPath(media.file_path));
+      const size = this.getFileSize(media);
+      if (!target || size === null) continue;
+
+      if (dryRun) {
+        result.compressed++;
+        continue;
+      }
+
+      const source = this.resolvePath(media.file_path);
+      let output = this.resolvePath(target.filePath);
+      let outputPath = target.filePath;
+      try {
+        await this.encryptor.withPlaintextFile(source, plainSource =>
+          execAsync(`${this.ffmpeg} -loglevel error -y -i "${plainSource}" ${target.args} "${output}"`, { timeout: 300000 })
+        );
+      } catch (error: any) {
+        console.warn(`⚠️ Could not compress ${path.basename(source)}: ${error?.message || error}`);
+        if (fs.existsSync(output)) fs.unlinkSync(output);
+        result.failed++;
+        continue;
+      }
+
+      // Compressed copies stay encrypted like the originals
+      if (this.encryptor.isEncryptedFile(source)) {
+        output = this.encryptor.encryptFile(output);
+        outputPath += this.encryptor.isEncryptedFile(output) ? ENCRYPTED_FILE_SUFFIX : '';
+      }
+
+      const newSize = fs.statSync(output).size;
+      if (newSize >= size) {
+        // Already compact; keep the original and don't try again
+        fs.unlinkSync(output);
+        this.db.updateMediaFile(media.id!, media.file_path, now.toISOString());
+        result.skipped++;
+        continue;
+      }
+
+      fs.unlinkSync(source);
+      this.db.updateMediaFile(media.id!, outputPath, now.toISOString());
+      result.compressed++;
+      result.savedBytes += size - newSize;
+    }
+
+    return result;
+  }
+
+  /**
+   * Encrypt media files still stored as plaintext, plus plaintext check-ins,
+   * activities, analyses and summaries, in place (after turning encryption on
+   * for existing data)
+   */
+  encryptExisting(): { files: number; checkIns: number; activities: number; analyses: number; summaries: number } {
+    const columns = this.db.encryptPlaintextColumns();
+    let files = 0;
+
+    for (const media of this.db.getStoredMedia()) {
+      if (this.encryptor.isEncryptedFile(media.file_path)) continue;
+
+      const filePath = this.resolvePath(media.file_path);
+      if (!fs.existsSync(filePath)) continue;
+
+      this.encryptor.encryptFile(filePath);
+      this.db.updateMediaFile(media.id!, media.file_path + ENCRYPTED_FILE_SUFFIX);
+      files++;
+    }
+
+    return { files, ...columns };
+  }
+
+  private purge(
+    media: MediaRecord,
+    bytes: number,
+    reason: PruneResult['purged'][number]['reason'],
+    result: PruneResult,
+    now: Date
+  ): void {
+    result.purged.push({ id: media.id!, type: media.type, bytes, reason });
+    result.freedBytes += bytes;
+    if (result.dryRun) return;
+
+    const filePath = this.resolvePath(media.file_path);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+    this.db.markMediaPurged(media.id!, now.toISOString());
+  }
+
+  /**
+   * Frames and later conversation chunks carry no analysis of their own
+   * (it lives on the parent row)
+   */
+  private isAwaitingAnalysis(media: MediaRecord): boolean {
+    return !media.parent_id && !media.analysis_json;
+  }
+
+  private getRetentionDays(type: MediaRecord['type']): number {
+    const retention = this.config.retention;
+    const configured = {
+      screen: retention?.screenDays,
+      frame: retention?.frameDays,
+      camera: retention?.cameraDays,
+      audio: retention?.audioDays,
+    }[type];
+    return configured ?? DEFAULT_RETENTION_DAYS[type];
+  }
+
+  private getQuotaBytes(): number | null {
+    const quotaMb = this.config.retention?.quotaMb;
+    return quotaMb ? quotaMb * 1024 * 1024 : null;
+  }
+
+  /**
+   * Where a file would go after compression, or null if it has no smaller format
+   */
+  private getCompressedPath(filePath: string): { filePath: string; args: string } | null {
+    const ext = path.extname(filePath).toLowerCase();
+    const base = filePath.slice(0, -ext.length);
+
+    if (VIDEO_EXTENSIONS.includes(ext)) {
+      // Screen content compresses well at a high CRF; recordings carry no audio we analyze
+      return { filePath: `${base}${ext === '.mp4' ? '_c' : ''}.mp4`, args: '-c:v libx264 -preset veryfast -crf 32 -an' };
+    }
+    if (ext === '.png') {
+      return { filePath: `${base}.jpg`, args: '-q:v 4' };
+    }
+    if (ext === '.wav') {
+      return { filePath: `${base}.ogg`, args: '-c:a libopus -b:a 24k' };
+    }
+    return null;
+  }
+
+  private getFileSize(media: MediaRecord): number | null {
+    try {
+      return fs.statSync(this.resolvePath(media.file_path)).size;
+    } catch {
+      return null;
+    }
+  }
+
+  private resolvePath(filePath: string): string {
+    return path.resolve(this.config.dataDir, '..', filePath);
+  }
+}
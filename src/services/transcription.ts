@@ -0,0 +1,147 @@
+/**
+ * Speech-to-Text Providers
+ * OpenAI Whisper API, or a local whisper.cpp binary so audio never leaves the machine
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import { Config, Transcript, TranscriptSegment, TranscriptionProviderName } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  /** Transcribe a plaintext audio file */
+  transcribe(filePath: string): Promise<Transcript>;
+}
+
+/**
+ * OpenAI Whisper API (verbose JSON for segment timestamps)
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai' as const;
+  private openai: OpenAI;
+  private model: string;
+  private language?: string;
+
+  constructor(apiKey: string, model: string, language?: string) {
+    this.openai = new OpenAI({ apiKey });
+    this.model = model;
+    this.language = language;
+  }
+
+  async transcribe(filePath: string): Promise<Transcript> {
+    const result = await this.openai.audio.transcriptions.create({
+      file: fs.createReadStream(filePath),
+      model: this.model,
+      language: this.language,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment'],
+    });
+
+    return {
+      text: result.text.trim(),
+      segments: (result.segments || []).map(s => ({ start: s.start, end: s.end, text: s.text.trim() })),
+      provider: this.name,
+      language: result.language,
+    };
+  }
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription: Array<{ offsets: { from: number; to: number }; text: string }>;
+}
+
+/**
+ * Local whisper.cpp CLI. Audio is converted to the 16 kHz mono WAV it
+ * expects, and its JSON output (-oj) is read back for segments.
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = 'local' as const;
+  private binary: string;
+  private modelPath: string;
+  private ffmpeg: string;
+  private language?: string;
+  private threads?: number;
+
+  constructor(options: { binary: string; modelPath: string; ffmpeg: string; language?: string; threads?: number }) {
+    this.binary = options.binary;
+    this.modelPath = options.modelPath;
+    this.ffmpeg = options.ffmpeg;
+    this.language = options.language;
+    this.threads = options.threads;
+  }
+
+  async transcribe(filePath: string): Promise<Transcript> {
+    if (!fs.existsSync(this.modelPath)) {
+      throw new Error(`Whisper model not found: ${this.modelPath}`);
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lifelog-whisper-'));
+    try {
+      const wavPath = path.join(workDir, 'input.wav');
+      const outputBase = path.join(workDir, 'output');
+
+      await execAsync(
+        `${this.ffmpeg} -loglevel error -y -i "${filePath}" -ar 16000 -ac 1 -c:a pcm_s16le "${wavPath}"`,
+        { timeout: 120000 }
+      );
+
+      const args = [
+        `-m "${this.modelPath}"`,
+        `-f "${wavPath}"`,
+        '-oj',
+        `-of "${outputBase}"`,
+        '-np',
+        `-l ${this.language || 'auto'}`,
+        this.threads ? `-t ${this.threads}` : '',
+      ].filter(Boolean).join(' ');
+      await execAsync(`${this.binary} ${args}`, { timeout: 30 * 60 * 1000, maxBuffer: 16 * 1024 * 1024 });
+
+      const output = JSON.parse(fs.readFileSync(`${outputBase}.json`, 'utf-8')) as WhisperCppOutput;
+      const segments: TranscriptSegment[] = output.transcription
+        .map(s => ({ start: s.offsets.from / 1000, end: s.offsets.to / 1000, text: s.text.trim() }))
+        .filter(s => s.text.length > 0);
+
+      return {
+        text: segments.map(s => s.text).join(' '),
+        segments,
+        provider: this.name,
+        language: output.result?.language,
+      };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Create the provider selected by config.whisper.provider (default: openai).
+ * Returns null when the selected provider isn't usable (no API key / no model).
+ */
+export function createTranscriptionProvider(config: Config): TranscriptionProvider | null {
+  const name = config.whisper.provider || 'openai';
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      return apiKey ? new OpenAITranscriptionProvider(apiKey, config.whisper.model, config.whisper.language) : null;
+    }
+    case 'local':
+      if (!config.whisper.modelPath) return null;
+      return new LocalWhisperProvider({
+        binary: config.whisper.binary || 'whisper-cli',
+        modelPath: config.whisper.modelPath,
+        ffmpeg: config.frames?.ffmpegBinary || 'ffmpeg',
+        language: config.whisper.language,
+        threads: config.whisper.threads,
+      });
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Voice Activity Detection
+ * Splits live microphone input into chunks at pauses in speech, measuring how
+ * much of each chunk is speech
+ */
+
+import { Config } from '../types/index.js';
+
+const DEFAULT_SILENCE_THRESHOLD_DB = -35;
+const MIN_SILENCE_SEC = 0.5;
+
+// Live input is 16-bit signed mono PCM, measured in 20ms frames
+export const PCM_SAMPLE_RATE = 16000;
+const PCM_FRAME_BYTES = (PCM_SAMPLE_RATE / 50) * 2;
+const MIN_SILENCE_FRAMES = MIN_SILENCE_SEC * 50;
+
+export const DEFAULT_AUDIO_CHUNK_MS = 30000;
+
+export interface VoiceActivity {
+  durationSec: number;
+  speechSec: number;
+}
+
+export interface SpeechChunk {
+  offsetSec: number; // from the start of the input
+  pcm: Buffer;
+  activity: VoiceActivity;
+}
+
+/**
+ * Cuts a continuous PCM stream into chunks without dropping any of it: a
+ * chunk ends at the first pause once it is chunkDurationMs long, or at
+ * maxChunkMs when nobody pauses. Speech time is counted like ffmpeg's
+ * silencedetect: only quiet stretches of MIN_SILENCE_SEC or more are silence.
+ */
+export class SilenceSplitter {
+  private thresholdDb: number;
+  private chunkFrames: number;
+  private maxChunkFrames: number;
+  private pending = Buffer.alloc(0);
+  private frames: Buffer[] = [];
+  private startFrame = 0;
+  private quietRun = 0;
+  private silentFrames = 0;
+
+  constructor(config: Config) {
+    const chunkMs = config.audio?.chunkDurationMs || DEFAULT_AUDIO_CHUNK_MS;
+    this.thresholdDb = config.audio?.silenceThresholdDb ?? DEFAULT_SILENCE_THRESHOLD_DB;
+    this.chunkFrames = Math.round(chunkMs / 20);
+    this.maxChunkFrames = Math.max(this.chunkFrames, Math.round(getMaxChunkMs(config) / 20));
+  }
+
+  /**
+   * Feed input; returns the chunks it completed
+   */
+  push(data: Buffer): SpeechChunk[] {
+    const chunks: SpeechChunk[] = [];
+    this.pending = Buffer.concat([this.pending, data]);
+
+    let offset = 0;
+    for (; offset + PCM_FRAME_BYTES <= this.pending.length; offset += PCM_FRAME_BYTES) {
+      const frame = this.pending.subarray(offset, offset + PCM_FRAME_BYTES);
+      this.frames.push(frame);
+
+      if (frameDb(frame) < this.thresholdDb) {
+        this.quietRun++;
+        // A quiet run turns into silence once it is long enough, then grows frame by frame
+        if (this.quietRun === MIN_SILENCE_FRAMES) this.silentFrames += MIN_SILENCE_FRAMES;
+        else if (this.quietRun > MIN_SILENCE_FRAMES) this.silentFrames++;
+      } else {
+        this.quietRun = 0;
+      }
+
+      const paused = this.quietRun >= MIN_SILENCE_FRAMES;
+      if ((this.frames.length >= this.chunkFrames && paused) || this.frames.length >= this.maxChunkFrames) {
+        chunks.push(this.cut());
+      }
+    }
+    this.pending = Buffer.from(this.pending.subarray(offset));
+
+    return chunks;
+  }
+
+  /**
+   * The partial chunk at the end of the input, if any
+   */
+  flush(): SpeechChunk | null {
+    return this.frames.length > 0 ? this.cut() : null;
+  }
+
+  private cut(): SpeechChunk {
+    const durationSec = this.frames.length / 50;
+    const chunk: SpeechChunk = {
+      offsetSec: this.startFrame / 50,
+      pcm: Buffer.concat(this.frames),
+      activity: { durationSec, speechSec: durationSec - this.silentFrames / 50 },
+    };
+
+    this.startFrame += this.frames.length;
+    this.frames = [];
+    this.silentFrames = 0;
+    // A pause that carries on belongs to the next chunk from here
+    this.quietRun = 0;
+    return chunk;
+  }
+}
+
+/**
+ * Longest chunk the splitter makes when nobody pauses (default: twice chunkDurationMs)
+ */
+export function getMaxChunkMs(config: Config): number {
+  return config.audio?.maxChunkMs || 2 * (config.audio?.chunkDurationMs || DEFAULT_AUDIO_CHUNK_MS);
+}
+
+/**
+ * Loudness of a frame in dBFS
+ */
+function frameDb(frame: Buffer): number {
+  let sumSquares = 0;
+  for (let i = 0; i < frame.length; i += 2) {
+    const sample = frame.readInt16LE(i);
+    sumSquares += sample * sample;
+  }
+  const rms = Math.sqrt(sumSquares / (frame.length / 2));
+  return rms > 0 ? 20 * Math.log10(rms / 32768) : -Infinity;
+}
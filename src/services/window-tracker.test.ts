@@ -0,0 +1,69 @@
+/**
+ * Window Tracker Tests
+ *
+ * Run with: npx ts-node src/services/window-tracker.test.ts
+ * Or: node --loader ts-node/esm src/services/window-tracker.test.ts
+ */
+
+import { WindowTracker, ScriptedWindowProbe } from './window-tracker.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { test, assertEqual, createTestConfig, summary } from '../test-utils.js';
+
+function createTestDb(): LifeLogDatabase {
+  return new LifeLogDatabase(createTestConfig());
+}
+
+const EDITOR = { app: 'Code', title: 'analyzer.ts — lifelog' };
+const BROWSER = { app: 'Firefox', title: 'Hacker News' };
+
+// ==================== SPAN COALESCING TESTS ====================
+
+console.log('\n🪟 Window Tracker Tests\n');
+
+await test('consecutive samples of one window become one activity', async () => {
+  const db = createTestDb();
+  const tracker = new WindowTracker(createTestConfig(), db, new ScriptedWindowProbe([EDITOR, EDITOR, EDITOR, BROWSER]));
+  const start = new Date('2026-03-02T09:00:00Z');
+
+  for (let i = 0; i < 4; i++) {
+    await tracker.sample(new Date(start.getTime() + i * 10000));
+  }
+
+  const activities = db.getActivitiesByDate('2026-03-02');
+  assertEqual(activities.length, 1);
+  assertEqual(activities[0].type, 'app_usage');
+  assertEqual(activities[0].duration, 30000, 'span ends when the browser takes focus');
+  assertEqual(JSON.parse(activities[0].metadata_json).app, 'Code');
+  db.close();
+});
+
+await test('flush writes the in-progress span', async () => {
+  const db = createTestDb();
+  const tracker = new WindowTracker(createTestConfig(), db, new ScriptedWindowProbe([BROWSER]));
+  const start = new Date('2026-03-02T10:00:00Z');
+
+  await tracker.sample(start);
+  const activity = tracker.flush(new Date(start.getTime() + 120000));
+
+  assertEqual(activity?.duration, 120000);
+  assertEqual(tracker.getCurrentWindow(), null);
+  assertEqual(db.getActivitiesByDate('2026-03-02').length, 1);
+  db.close();
+});
+
+await test('no focused window closes the span without starting a new one', async () => {
+  const db = createTestDb();
+  const tracker = new WindowTracker(createTestConfig(), db, new ScriptedWindowProbe([EDITOR, null]));
+  const start = new Date('2026-03-02T11:00:00Z');
+
+  await tracker.sample(start);
+  await tracker.sample(new Date(start.getTime() + 60000));
+
+  assertEqual(db.getActivitiesByDate('2026-03-02').length, 1);
+  assertEqual(tracker.flush(), null);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
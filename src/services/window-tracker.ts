@@ -0,0 +1,176 @@
+/**
+ * Active Window Tracker
+ * Samples the focused application and window title as a lightweight activity source
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Config, Activity, ActiveWindow, WindowProbeName } from '../types/index.js';
+import { LifeLogDatabase } from '../storage/database.js';
+import { CaptureBlocklist } from './capture-blocklist.js';
+
+const execAsync = promisify(exec);
+
+export interface WindowProbe {
+  readonly name: WindowProbeName;
+  /** Returns the focused window, or null if nothing is focused / it can't be determined */
+  getActiveWindow(): Promise<ActiveWindow | null>;
+}
+
+/**
+ * macOS: System Events via osascript
+ */
+export class MacOSWindowProbe implements WindowProbe {
+  readonly name = 'macos' as const;
+
+  async getActiveWindow(): Promise<ActiveWindow | null> {
+    const script = `tell application "System Events"
+  set frontApp to first application process whose frontmost is true
+  set appName to name of frontApp
+  set windowTitle to ""
+  try
+    set windowTitle to name of front window of frontApp
+  end try
+  return appName & "\\n" & windowTitle
+end tell`;
+    const { stdout } = await execAsync(`osascript -e '${script.replace(/'/g, "'\\''")}'`, { timeout: 5000 });
+    const [app, ...titleParts] = stdout.trim().split('\n');
+    return app ? { app: app.trim(), title: titleParts.join('\n').trim() } : null;
+  }
+}
+
+/**
+ * Linux (X11): xdotool for the window, ps for the owning process name
+ */
+export class LinuxWindowProbe implements WindowProbe {
+  readonly name = 'linux' as const;
+
+  async getActiveWindow(): Promise<ActiveWindow | null> {
+    const { stdout: title } = await execAsync('xdotool getactivewindow getwindowname', { timeout: 5000 });
+    const { stdout: pid } = await execAsync('xdotool getactivewindow getwindowpid', { timeout: 5000 });
+    const { stdout: app } = await execAsync(`ps -p ${parseInt(pid.trim())} -o comm=`, { timeout: 5000 });
+    return app.trim() ? { app: app.trim(), title: title.trim() } : null;
+  }
+}
+
+/**
+ * Scripted probe for tests and demos: returns the given samples in order,
+ * then keeps returning the last one
+ */
+export class ScriptedWindowProbe implements WindowProbe {
+  readonly name = 'scripted' as const;
+  private samples: Array<ActiveWindow | null>;
+  private index = 0;
+
+  constructor(samples: Array<ActiveWindow | null>) {
+    this.samples = samples;
+  }
+
+  async getActiveWindow(): Promise<ActiveWindow | null> {
+    if (this.samples.length === 0) return null;
+    const sample = this.samples[Math.min(this.index, this.samples.length - 1)];
+    this.index++;
+    return sample;
+  }
+}
+
+/**
+ * Create the probe selected by config.windowTracking.probe (default: auto by platform)
+ */
+export function createWindowProbe(config: Config): WindowProbe {
+  const name = config.windowTracking?.probe || 'auto';
+
+  switch (name) {
+    case 'macos':
+      return new MacOSWindowProbe();
+    case 'linux':
+      return new LinuxWindowProbe();
+    case 'scripted':
+      return new ScriptedWindowProbe(config.windowTracking?.scriptedSamples || []);
+    case 'auto':
+      return process.platform === 'darwin' ? new MacOSWindowProbe() : new LinuxWindowProbe();
+    default:
+      throw new Error(`Unknown window probe: ${name}`);
+  }
+}
+
+interface WindowSpan {
+  window: ActiveWindow;
+  startTime: string;
+  lastSeen: string;
+}
+
+/**
+ * Coalesces consecutive samples of the same window into one `app_usage`
+ * activity, written when focus moves elsewhere (or on flush).
+ */
+export class WindowTracker {
+  private db: LifeLogDatabase;
+  private probe: WindowProbe;
+  private blocklist: CaptureBlocklist;
+  private current: WindowSpan | null = null;
+
+  constructor(config: Config, db: LifeLogDatabase, probe?: WindowProbe) {
+    this.db = db;
+    this.probe = probe || createWindowProbe(config);
+    this.blocklist = new CaptureBlocklist(config, this.probe);
+  }
+
+  /**
+   * Take one sample; writes the previous span if the focused window changed
+   */
+  async sample(now: Date = new Date()): Promise<void> {
+    let window: ActiveWindow | null = null;
+    try {
+      window = await this.probe.getActiveWindow();
+    } catch (error: any) {
+      // Probe failures (locked screen, missing xdotool) count as "no window"
+      console.warn(`⚠️ Window probe failed: ${error?.message || error}`);
+    }
+
+    const timestamp = now.toISOString();
+
+    if (this.current && window && this.isSameWindow(this.current.window, window)) {
+      this.current.lastSeen = timestamp;
+      return;
+    }
+
+    this.flush(now);
+    if (window) {
+      this.current = { window, startTime: timestamp, lastSeen: timestamp };
+    }
+  }
+
+  /**
+   * Write the in-progress span (if any) as an activity
+   */
+  flush(now: Date = new Date()): Activity | null {
+    if (!this.current) return null;
+
+    const span = this.current;
+    this.current = null;
+
+    const duration = now.getTime() - new Date(span.startTime).getTime();
+    if (duration <= 0) return null;
+
+    const activity: Activity = {
+      timestamp: span.startTime,
+      type: 'app_usage',
+      duration,
+      // Blocklisted windows are recorded as time spent, never by name
+      metadata_json: JSON.stringify(this.blocklist.matches(span.window)
+        ? { blocked: true, probe: this.probe.name }
+        : { app: span.window.app, title: span.window.title, probe: this.probe.name }),
+    };
+    activity.id = this.db.insertActivity(activity);
+    return activity;
+  }
+
+  getCurrentWindow(): ActiveWindow | null {
+    return this.current?.window || null;
+  }
+
+  private isSameWindow(a: ActiveWindow, b: ActiveWindow): boolean {
+    return a.app === b.app && a.title === b.title;
+  }
+}
@@ -1,10 +1,14 @@
 import Database from 'better-sqlite3';
-import { Activity, CheckIn, MediaRecord, Summary, Config } from '../types/index.js';
+import { Activity, CheckIn, MediaRecord, Summary, Config, AnalysisJob, AnalysisJobKind, QueueSummary, TokenUsage, ClassificationExample, AnalysisVersion, AnalysisVersionSummary, HourlyFocusStats } from '../types/index.js';
 import fs from 'fs';
 import path from 'path';
+import { Encryptor, createEncryptor } from './encryption.js';
+import { DayBoundary } from './day-boundary.js';
 
 export class LifeLogDatabase {
   private db: Database.Database;
+  private encryptor: Encryptor;
+  private days: DayBoundary;
 
   constructor(config: Config) {
     // Ensure data directory exists
@@ -16,6 +20,14 @@ export class LifeLogDatabase {
     this.db = new Database(config.database);
     this.db.pragma('journal_mode = WAL');
     this.migrate();
+
+    // Rows are bucketed into days in the user's timezone (config.day)
+    this.days = new DayBoundary(config);
+    this.syncLocalDates();
+
+    // Check-in messages, media analyses (incl. transcripts) and summaries are
+    // encrypted on write and decrypted on read; media files are encrypted by the recorders
+    this.encryptor = createEncryptor(config);
   }
 
   private migrate(): void {
@@ -107,6 +119,123 @@ export class LifeLogDatabase {
       CREATE INDEX IF NOT EXISTS idx_xp_transactions_activity ON xp_transactions(activity);
       CREATE INDEX IF NOT EXISTS idx_xp_redemptions_userId ON xp_redemptions(userId);
     `);
+
+    this.runMigration('003_media_frames', `
+      -- Frames extracted from screen recordings reference their recording
+      ALTER TABLE media ADD COLUMN parent_id INTEGER REFERENCES media(id);
+      CREATE INDEX IF NOT EXISTS idx_media_parent_id ON media(parent_id);
+    `);
+
+    this.runMigration('004_media_phash', `
+      -- Perceptual hash used to skip analysis of near-identical captures
+      ALTER TABLE media ADD COLUMN phash TEXT;
+    `);
+
+    this.runMigration('005_media_retention', `
+      -- Retention deletes files but keeps rows (and their analyses)
+      ALTER TABLE media ADD COLUMN purged_at TEXT;
+      ALTER TABLE media ADD COLUMN compressed_at TEXT;
+    `);
+
+    this.runMigration('006_analysis_jobs', `
+      -- One analysis job per media item; usage accumulates across attempts
+      CREATE TABLE IF NOT EXISTS analysis_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        media_id INTEGER NOT NULL UNIQUE REFERENCES media(id),
+        kind TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT NOT NULL,
+        last_error TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        started_at TEXT,
+        finished_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status, next_attempt_at);
+    `);
+
+    this.runMigration('007_classification_examples', `
+      -- Reviewed classifications; used as few-shot examples in classifier prompts
+      CREATE TABLE IF NOT EXISTS classification_examples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        media_id INTEGER NOT NULL UNIQUE REFERENCES media(id),
+        description TEXT NOT NULL,
+        applications_json TEXT NOT NULL DEFAULT '[]',
+        predicted_category TEXT NOT NULL,
+        category TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+
+    this.runMigration('008_analysis_versions', `
+      -- Every model analysis of a media item, so re-analysis never loses a result
+      CREATE TABLE IF NOT EXISTS media_analyses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        media_id INTEGER NOT NULL REFERENCES media(id),
+        model TEXT NOT NULL,
+        prompt_hash TEXT NOT NULL,
+        analysis_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_media_analyses_version ON media_analyses(model, prompt_hash, media_id);
+
+      -- Summaries can be pinned to one analysis version
+      ALTER TABLE summaries ADD COLUMN analysis_version TEXT;
+    `);
+
+    this.runMigration('009_local_dates', `
+      -- Day each row counts toward in the user's timezone, so date queries
+      -- don't bucket by UTC; filled in by syncLocalDates()
+      ALTER TABLE activities ADD COLUMN local_date TEXT;
+      ALTER TABLE check_ins ADD COLUMN local_date TEXT;
+      ALTER TABLE media ADD COLUMN local_date TEXT;
+
+      CREATE INDEX IF NOT EXISTS idx_activities_local_date ON activities(local_date, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_checkins_local_date ON check_ins(local_date, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_media_local_date ON media(local_date, timestamp);
+
+      -- The day boundary local dates were computed with
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+
+    this.runMigration('010_hourly_focus', `
+      -- Focus per hour of each finished day, aggregated into the hour-of-week focus curve
+      CREATE TABLE IF NOT EXISTS hourly_focus (
+        date TEXT NOT NULL,
+        weekday INTEGER NOT NULL, -- 0 = Monday
+        hour INTEGER NOT NULL,
+        minutes REAL NOT NULL,
+        focus_score REAL NOT NULL,
+        PRIMARY KEY (date, hour)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_hourly_focus_cell ON hourly_focus(weekday, hour, date);
+
+      -- Days already folded in, including ones without tracked time
+      CREATE TABLE IF NOT EXISTS hourly_focus_days (
+        date TEXT PRIMARY KEY,
+        computed_at TEXT NOT NULL
+      );
+    `);
+
+    this.runMigration('011_analysis_job_leases', `
+      -- A running job belongs to its worker until the lease runs out
+      ALTER TABLE analysis_jobs ADD COLUMN lease_until TEXT;
+    `);
+
+    this.runMigration('012_checkin_feelings', `
+      -- Self-reported mood and energy (1-5), when given with the check-in
+      ALTER TABLE check_ins ADD COLUMN mood INTEGER;
+      ALTER TABLE check_ins ADD COLUMN energy INTEGER;
+    `);
   }
 
   private runMigration(name: string, sql: string): void {
@@ -118,17 +247,58 @@ export class LifeLogDatabase {
     }
   }
 
+  /**
+   * Fill in missing local dates (rows from before 009_local_dates), or
+   * recompute them all when the timezone or day start changed
+   */
+  private syncLocalDates(): void {
+    const stored = this.db.prepare(`SELECT value FROM settings WHERE key = 'day_boundary'`).get() as { value: string } | undefined;
+    const changed = stored?.value !== this.days.toString();
+
+    this.db.function('lifelog_local_date', { deterministic: true }, (timestamp: unknown) => {
+      try {
+        return this.days.dateOf(String(timestamp));
+      } catch {
+        return null; // Unparseable timestamps stay out of every day
+      }
+    });
+
+    let updated = 0;
+    this.db.transaction(() => {
+      for (const table of ['activities', 'check_ins', 'media']) {
+        updated += this.db.prepare(`
+          UPDATE ${table} SET local_date = lifelog_local_date(timestamp)
+          ${changed ? '' : 'WHERE local_date IS NULL'}
+        `).run().changes;
+      }
+      this.db.prepare(`
+        INSERT INTO settings (key, value) VALUES ('day_boundary', ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value
+      `).run(this.days.toString());
+      // Hours were measured against the old days
+      if (stored && changed) {
+        this.clearHourlyFocus();
+      }
+    })();
+
+    if (stored && changed) {
+      console.log(`✓ Day boundary changed to ${this.days}: re-bucketed ${updated} rows (regenerate summaries of affected days)`);
+    }
+  }
+
   // Activities
   insertActivity(activity: Activity): number {
     const stmt = this.db.prepare(`
-      INSERT INTO activities (timestamp, type, duration, metadata_json)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO activities (timestamp, type, duration, metadata_json, local_date)
+      VALUES (?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       activity.timestamp,
       activity.type,
       activity.duration || null,
-      activity.metadata_json
+      // Window titles name files, pages and people
+      this.encryptor.encryptString(activity.metadata_json),
+      this.days.dateOf(activity.timestamp)
     );
     return result.lastInsertRowid as number;
   }
@@ -138,20 +308,27 @@ export class LifeLogDatabase {
     if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       throw new Error('Invalid date format. Expected YYYY-MM-DD');
     }
-    return this.db.prepare(`
+    return (this.db.prepare(`
       SELECT * FROM activities 
-      WHERE DATE(timestamp) = ? 
+      WHERE local_date = ? 
       ORDER BY timestamp ASC
-    `).all(date) as Activity[];
+    `).all(date) as Activity[]).map(a => ({ ...a, metadata_json: this.encryptor.decryptString(a.metadata_json) }));
   }
 
   // Check-ins
   insertCheckIn(checkIn: CheckIn): number {
     const stmt = this.db.prepare(`
-      INSERT INTO check_ins (timestamp, message, source)
-      VALUES (?, ?, ?)
+      INSERT INTO check_ins (timestamp, message, source, mood, energy, local_date)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
-    const result = stmt.run(checkIn.timestamp, checkIn.message, checkIn.source);
+    const result = stmt.run(
+      checkIn.timestamp,
+      this.encryptor.encryptString(checkIn.message),
+      checkIn.source,
+      checkIn.mood ?? null,
+      checkIn.energy ?? null,
+      this.days.dateOf(checkIn.timestamp)
+    );
     return result.lastInsertRowid as number;
   }
 
@@ -160,56 +337,407 @@ export class LifeLogDatabase {
     if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       throw new Error('Invalid date format. Expected YYYY-MM-DD');
     }
-    return this.db.prepare(`
+    return (this.db.prepare(`
       SELECT * FROM check_ins 
-      WHERE DATE(timestamp) = ? 
+      WHERE local_date = ? 
       ORDER BY timestamp ASC
-    `).all(date) as CheckIn[];
+    `).all(date) as CheckIn[]).map(ci => ({ ...ci, message: this.encryptor.decryptString(ci.message) }));
   }
 
   // Media
   insertMedia(media: MediaRecord): number {
     const stmt = this.db.prepare(`
-      INSERT INTO media (timestamp, type, file_path, analysis_json)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO media (timestamp, type, file_path, analysis_json, parent_id, phash, local_date)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     const result = stmt.run(
       media.timestamp,
       media.type,
       media.file_path,
-      media.analysis_json || null
+      media.analysis_json ? this.encryptor.encryptString(media.analysis_json) : null,
+      media.parent_id || null,
+      media.phash || null,
+      this.days.dateOf(media.timestamp)
     );
     return result.lastInsertRowid as number;
   }
 
-  getMediaByDate(date: string): MediaRecord[] {
+  /**
+   * Captures on a local day. Keyframes and later chunks of a conversation
+   * belong to their parent (see getChildMedia) and are left out unless asked for.
+   */
+  getMediaByDate(date: string, includeChildren: boolean = false): MediaRecord[] {
     // Validate date format to prevent SQL injection
     if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       throw new Error('Invalid date format. Expected YYYY-MM-DD');
     }
-    return this.db.prepare(`
+    return this.decryptMedia(this.db.prepare(`
       SELECT * FROM media 
-      WHERE DATE(timestamp) = ? 
+      WHERE local_date = ? ${includeChildren ? '' : 'AND parent_id IS NULL'}
       ORDER BY timestamp ASC
-    `).all(date) as MediaRecord[];
+    `).all(date) as MediaRecord[]);
+  }
+
+  getChildMedia(parentId: number): MediaRecord[] {
+    return this.decryptMedia(this.db.prepare(`
+      SELECT * FROM media 
+      WHERE parent_id = ? 
+      ORDER BY timestamp ASC
+    `).all(parentId) as MediaRecord[]);
+  }
+
+  /**
+   * Replace a media item's current analysis; with a version, the result is
+   * also kept in the analysis history
+   */
+  updateMediaAnalysis(id: number, analysis: string, version?: AnalysisVersion): void {
+    this.db.transaction(() => {
+      this.db.prepare(`UPDATE media SET analysis_json = ? WHERE id = ?`).run(this.encryptor.encryptString(analysis), id);
+      this.db.prepare(`
+        DELETE FROM hourly_focus_days WHERE date = (SELECT local_date FROM media WHERE id = ?)
+      `).run(id);
+      if (version) {
+        this.insertMediaAnalysisVersion(id, analysis, version, new Date().toISOString());
+      }
+    })();
   }
 
-  updateMediaAnalysis(id: number, analysis: string): void {
-    this.db.prepare(`UPDATE media SET analysis_json = ? WHERE id = ?`).run(analysis, id);
+  /**
+   * Add an analysis to the history without making it current
+   */
+  insertMediaAnalysisVersion(mediaId: number, analysis: string, version: AnalysisVersion, createdAt: string): void {
+    this.db.prepare(`
+      INSERT INTO media_analyses (media_id, model, prompt_hash, analysis_json, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(mediaId, version.model, version.promptHash, this.encryptor.encryptString(analysis), createdAt);
+  }
+
+  /**
+   * Latest analysis of the given version for each media item on a date, by media id
+   */
+  getMediaAnalysesByVersion(date: string, version: AnalysisVersion): Map<number, string> {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error('Invalid date format. Expected YYYY-MM-DD');
+    }
+    const rows = this.db.prepare(`
+      SELECT a.media_id, a.analysis_json FROM media_analyses a
+      JOIN media m ON m.id = a.media_id
+      WHERE m.local_date = ? AND a.model = ? AND a.prompt_hash = ?
+      ORDER BY a.id ASC
+    `).all(date, version.model, version.promptHash) as Array<{ media_id: number; analysis_json: string }>;
+
+    // Later rows replace earlier ones
+    return new Map(rows.map(r => [r.media_id, this.encryptor.decryptString(r.analysis_json)]));
+  }
+
+  /**
+   * Versions with analyses of media captured between two dates (inclusive), newest first
+   */
+  getAnalysisVersions(from: string, to: string): AnalysisVersionSummary[] {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      throw new Error('Invalid date format. Expected YYYY-MM-DD');
+    }
+    const rows = this.db.prepare(`
+      SELECT a.model, a.prompt_hash, COUNT(DISTINCT a.media_id) as media,
+             MIN(a.created_at) as firstCreatedAt, MAX(a.created_at) as lastCreatedAt
+      FROM media_analyses a JOIN media m ON m.id = a.media_id
+      WHERE m.local_date BETWEEN ? AND ?
+      GROUP BY a.model, a.prompt_hash
+      ORDER BY lastCreatedAt DESC
+    `).all(from, to) as Array<Omit<AnalysisVersionSummary, 'version' | 'promptHash'> & { prompt_hash: string }>;
+
+    return rows.map(({ prompt_hash, ...row }) => ({
+      ...row,
+      version: `${row.model}@${prompt_hash}`,
+      promptHash: prompt_hash,
+    }));
+  }
+
+  private decryptMedia(rows: MediaRecord[]): MediaRecord[] {
+    return rows.map(m => m.analysis_json ? { ...m, analysis_json: this.encryptor.decryptString(m.analysis_json) } : m);
+  }
+
+  /**
+   * Media whose file is still on disk, oldest first
+   */
+  getStoredMedia(): MediaRecord[] {
+    return this.decryptMedia(this.db.prepare(`
+      SELECT * FROM media 
+      WHERE purged_at IS NULL 
+      ORDER BY timestamp ASC
+    `).all() as MediaRecord[]);
+  }
+
+  getPurgedMediaCount(): number {
+    return (this.db.prepare('SELECT COUNT(*) as count FROM media WHERE purged_at IS NOT NULL').get() as { count: number }).count;
+  }
+
+  markMediaPurged(id: number, purgedAt: string): void {
+    this.db.prepare(`UPDATE media SET purged_at = ? WHERE id = ?`).run(purgedAt, id);
+  }
+
+  updateMediaFile(id: number, filePath: string, compressedAt?: string): void {
+    if (compressedAt) {
+      this.db.prepare(`UPDATE media SET file_path = ?, compressed_at = ? WHERE id = ?`).run(filePath, compressedAt, id);
+    } else {
+      this.db.prepare(`UPDATE media SET file_path = ? WHERE id = ?`).run(filePath, id);
+    }
+  }
+
+  updateMediaHash(id: number, phash: string): void {
+    this.db.prepare(`UPDATE media SET phash = ? WHERE id = ?`).run(phash, id);
+  }
+
+  getMediaById(id: number): MediaRecord | undefined {
+    const media = this.db.prepare('SELECT * FROM media WHERE id = ?').get(id) as MediaRecord | undefined;
+    return media ? this.decryptMedia([media])[0] : undefined;
+  }
+
+  // Analysis jobs
+
+  /**
+   * Queue a media item for analysis; returns the existing job if there is one
+   */
+  enqueueAnalysisJob(mediaId: number, kind: AnalysisJobKind, now: string): AnalysisJob {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO analysis_jobs (media_id, kind, next_attempt_at)
+      VALUES (?, ?, ?)
+    `).run(mediaId, kind, now);
+    return this.db.prepare('SELECT * FROM analysis_jobs WHERE media_id = ?').get(mediaId) as AnalysisJob;
+  }
+
+  /**
+   * Take the next due job and mark it running (one attempt), leased until
+   * leaseUntil. Atomic, so concurrent workers and processes never share a job.
+   */
+  claimNextAnalysisJob(now: string, leaseUntil: string): AnalysisJob | undefined {
+    const claim = this.db.prepare(`
+      UPDATE analysis_jobs SET status = 'running', attempts = attempts + 1, started_at = ?, lease_until = ?
+      WHERE id = (
+        SELECT id FROM analysis_jobs
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY next_attempt_at ASC, id ASC
+        LIMIT 1
+      )
+      RETURNING *
+    `);
+    // IMMEDIATE takes the write lock up front, so another process can't pick between select and update
+    return this.db.transaction(() => claim.get(now, leaseUntil, now) as AnalysisJob | undefined).immediate();
+  }
+
+  /**
+   * Extend the lease of a job that is still being worked on
+   */
+  renewAnalysisJobLease(id: number, leaseUntil: string): void {
+    this.db.prepare(`UPDATE analysis_jobs SET lease_until = ? WHERE id = ? AND status = 'running'`).run(leaseUntil, id);
+  }
+
+  completeAnalysisJob(id: number, usage: TokenUsage, now: string): void {
+    this.db.prepare(`
+      UPDATE analysis_jobs 
+      SET status = 'done', last_error = NULL, finished_at = ?, lease_until = NULL,
+          input_tokens = input_tokens + ?, output_tokens = output_tokens + ?, cost_usd = cost_usd + ?
+      WHERE id = ?
+    `).run(now, usage.inputTokens, usage.outputTokens, usage.costUsd, id);
+  }
+
+  /**
+   * Record a failed attempt: back to pending at nextAttemptAt, or dead if null
+   */
+  failAnalysisJob(id: number, error: string, nextAttemptAt: string | null, usage: TokenUsage, now: string): void {
+    this.db.prepare(`
+      UPDATE analysis_jobs 
+      SET status = ?, last_error = ?, next_attempt_at = COALESCE(?, next_attempt_at), finished_at = ?, lease_until = NULL,
+          input_tokens = input_tokens + ?, output_tokens = output_tokens + ?, cost_usd = cost_usd + ?
+      WHERE id = ?
+    `).run(nextAttemptAt ? 'pending' : 'dead', error, nextAttemptAt, nextAttemptAt ? null : now,
+      usage.inputTokens, usage.outputTokens, usage.costUsd, id);
+  }
+
+  /**
+   * Running jobs whose lease ran out (their process crashed) go back to the
+   * queue; jobs still leased by a live worker are left alone
+   */
+  resetStaleAnalysisJobs(now: string): number {
+    return this.db.prepare(`
+      UPDATE analysis_jobs SET status = 'pending', lease_until = NULL
+      WHERE status = 'running' AND (lease_until IS NULL OR lease_until < ?)
+    `).run(now).changes;
+  }
+
+  countPendingAnalysisJobs(): number {
+    return (this.db.prepare(`SELECT COUNT(*) as count FROM analysis_jobs WHERE status = 'pending'`).get() as { count: number }).count;
+  }
+
+  getNextAnalysisAttemptTime(): string | null {
+    const row = this.db.prepare(`
+      SELECT MIN(next_attempt_at) as next FROM analysis_jobs WHERE status = 'pending'
+    `).get() as { next: string | null };
+    return row.next;
+  }
+
+  /**
+   * Put dead jobs for a date back in the queue with a fresh set of attempts
+   */
+  requeueDeadAnalysisJobs(date: string, now: string): number {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error('Invalid date format. Expected YYYY-MM-DD');
+    }
+    return this.db.prepare(`
+      UPDATE analysis_jobs SET status = 'pending', attempts = 0, next_attempt_at = ?, finished_at = NULL
+      WHERE status = 'dead' AND media_id IN (SELECT id FROM media WHERE local_date = ?)
+    `).run(now, date).changes;
+  }
+
+  getAnalysisQueueSummary(date: string): QueueSummary {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error('Invalid date format. Expected YYYY-MM-DD');
+    }
+    const row = this.db.prepare(`
+      SELECT COUNT(*) as total,
+             SUM(status = 'done') as done,
+             SUM(status IN ('pending', 'running')) as pending,
+             SUM(status = 'dead') as dead,
+             SUM(j.input_tokens) as inputTokens,
+             SUM(j.output_tokens) as outputTokens,
+             SUM(j.cost_usd) as costUsd
+      FROM analysis_jobs j JOIN media m ON m.id = j.media_id
+      WHERE m.local_date = ?
+    `).get(date) as Record<keyof QueueSummary, number | null>;
+    return {
+      total: row.total || 0,
+      done: row.done || 0,
+      pending: row.pending || 0,
+      dead: row.dead || 0,
+      inputTokens: row.inputTokens || 0,
+      outputTokens: row.outputTokens || 0,
+      costUsd: row.costUsd || 0,
+    };
+  }
+
+  // Hourly focus
+
+  /**
+   * Days before a date with tracked activity or media that aren't in hourly_focus
+   * yet, or whose analyses or summary changed since they were folded in
+   */
+  getDatesWithoutHourlyFocus(before: string): string[] {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(before)) {
+      throw new Error('Invalid date format. Expected YYYY-MM-DD');
+    }
+    return (this.db.prepare(`
+      SELECT local_date FROM activities WHERE local_date < ?
+      UNION
+      SELECT local_date FROM media WHERE local_date < ?
+      EXCEPT
+      SELECT date FROM hourly_focus_days
+      ORDER BY 1 ASC
+    `).all(before, before) as Array<{ local_date: string }>).map(r => r.local_date);
+  }
+
+  /**
+   * Replace a day's hours and mark it folded in
+   */
+  replaceHourlyFocus(date: string, weekday: number, hours: Array<{ hour: number; minutes: number; focusScore: number }>, now: string): void {
+    const insert = this.db.prepare(`
+      INSERT INTO hourly_focus (date, weekday, hour, minutes, focus_score) VALUES (?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM hourly_focus WHERE date = ?').run(date);
+      for (const h of hours) {
+        insert.run(date, weekday, h.hour, h.minutes, h.focusScore);
+      }
+      this.db.prepare(`
+        INSERT INTO hourly_focus_days (date, computed_at) VALUES (?, ?)
+        ON CONFLICT(date) DO UPDATE SET computed_at = excluded.computed_at
+      `).run(date, now);
+    })();
+  }
+
+  clearHourlyFocus(): void {
+    this.db.exec('DELETE FROM hourly_focus; DELETE FROM hourly_focus_days;');
+  }
+
+  /**
+   * Per hour of the week since a date: days with at least `minMinutes` tracked,
+   * and the mean and mean square of their focus
+   */
+  getHourlyFocusStats(since: string, minMinutes: number): HourlyFocusStats[] {
+    return this.db.prepare(`
+      SELECT weekday, hour, COUNT(*) as days,
+             AVG(focus_score) as meanFocus, AVG(focus_score * focus_score) as meanSquareFocus,
+             AVG(minutes) as avgMinutes
+      FROM hourly_focus
+      WHERE date >= ? AND minutes >= ?
+      GROUP BY weekday, hour
+    `).all(since, minMinutes) as HourlyFocusStats[];
+  }
+
+  /**
+   * Number of days folded into hourly_focus since a date
+   */
+  countHourlyFocusDays(since: string): number {
+    return (this.db.prepare('SELECT COUNT(*) as count FROM hourly_focus_days WHERE date >= ?').get(since) as { count: number }).count;
+  }
+
+  // Classification examples
+
+  /**
+   * Save the user's label for a media item; a later review replaces it
+   */
+  upsertClassificationExample(example: ClassificationExample): void {
+    this.db.prepare(`
+      INSERT INTO classification_examples (media_id, description, applications_json, predicted_category, category, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(media_id) DO UPDATE SET
+        description = excluded.description,
+        applications_json = excluded.applications_json,
+        category = excluded.category,
+        created_at = excluded.created_at
+    `).run(
+      example.media_id,
+      this.encryptor.encryptString(example.description),
+      JSON.stringify(example.applications || []),
+      example.predicted_category,
+      example.category,
+      example.created_at
+    );
+  }
+
+  /**
+   * Most useful examples first: corrections, then confirmations, newest first
+   */
+  getClassificationExamples(limit: number): ClassificationExample[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM classification_examples
+      ORDER BY (predicted_category != category) DESC, created_at DESC
+      LIMIT ?
+    `).all(limit) as Array<Omit<ClassificationExample, 'applications'> & { applications_json: string }>;
+
+    return rows.map(({ applications_json, ...row }) => ({
+      ...row,
+      description: this.encryptor.decryptString(row.description),
+      applications: JSON.parse(applications_json),
+    }));
   }
 
   // Summaries
   upsertSummary(summary: Summary): void {
     const stmt = this.db.prepare(`
-      INSERT INTO summaries (date, content_json)
-      VALUES (?, ?)
-      ON CONFLICT(date) DO UPDATE SET content_json = excluded.content_json
+      INSERT INTO summaries (date, content_json, analysis_version)
+      VALUES (?, ?, ?)
+      ON CONFLICT(date) DO UPDATE SET content_json = excluded.content_json, analysis_version = excluded.analysis_version
     `);
-    stmt.run(summary.date, summary.content_json);
+    this.db.transaction(() => {
+      stmt.run(summary.date, this.encryptor.encryptString(summary.content_json), summary.analysis_version || null);
+      // The day was re-summarized, so its hours may have changed too
+      this.db.prepare('DELETE FROM hourly_focus_days WHERE date = ?').run(summary.date);
+    })();
   }
 
   getSummary(date: string): Summary | undefined {
-    return this.db.prepare('SELECT * FROM summaries WHERE date = ?').get(date) as Summary | undefined;
+    const summary = this.db.prepare('SELECT * FROM summaries WHERE date = ?').get(date) as Summary | undefined;
+    return summary ? { ...summary, content_json: this.encryptor.decryptString(summary.content_json) } : undefined;
   }
 
   // Utility
@@ -217,6 +745,65 @@ export class LifeLogDatabase {
     this.db.close();
   }
 
+  /**
+   * Encrypt check-ins, activities, analyses and summaries still stored as
+   * plaintext (after turning encryption on for an existing data directory)
+   */
+  encryptPlaintextColumns(): { checkIns: number; activities: number; analyses: number; summaries: number } {
+    if (!this.encryptor.isEnabled()) {
+      throw new Error('Encryption is not enabled in config');
+    }
+
+    const checkIns = this.db.prepare('SELECT id, message FROM check_ins').all() as Array<{ id: number; message: string }>;
+    const media = this.db.prepare('SELECT id, analysis_json FROM media WHERE analysis_json IS NOT NULL').all() as Array<{ id: number; analysis_json: string }>;
+    const updateCheckIn = this.db.prepare('UPDATE check_ins SET message = ? WHERE id = ?');
+    const activities = this.db.prepare('SELECT id, metadata_json FROM activities').all() as Array<{ id: number; metadata_json: string }>;
+    const updateActivity = this.db.prepare('UPDATE activities SET metadata_json = ? WHERE id = ?');
+    const updateAnalysis = this.db.prepare('UPDATE media SET analysis_json = ? WHERE id = ?');
+    const versions = this.db.prepare('SELECT id, analysis_json FROM media_analyses').all() as Array<{ id: number; analysis_json: string }>;
+    const updateVersion = this.db.prepare('UPDATE media_analyses SET analysis_json = ? WHERE id = ?');
+    const examples = this.db.prepare('SELECT id, description FROM classification_examples').all() as Array<{ id: number; description: string }>;
+    const updateExample = this.db.prepare('UPDATE classification_examples SET description = ? WHERE id = ?');
+    const summaries = this.db.prepare('SELECT id, content_json FROM summaries').all() as Array<{ id: number; content_json: string }>;
+    const updateSummary = this.db.prepare('UPDATE summaries SET content_json = ? WHERE id = ?');
+    const counts = { checkIns: 0, activities: 0, analyses: 0, summaries: 0 };
+
+    this.db.transaction(() => {
+      for (const ci of checkIns.filter(ci => !this.encryptor.isEncryptedString(ci.message))) {
+        updateCheckIn.run(this.encryptor.encryptString(ci.message), ci.id);
+        counts.checkIns++;
+      }
+      for (const a of activities.filter(a => !this.encryptor.isEncryptedString(a.metadata_json))) {
+        updateActivity.run(this.encryptor.encryptString(a.metadata_json), a.id);
+        counts.activities++;
+      }
+      for (const m of media.filter(m => !this.encryptor.isEncryptedString(m.analysis_json))) {
+        updateAnalysis.run(this.encryptor.encryptString(m.analysis_json), m.id);
+        counts.analyses++;
+      }
+      for (const v of versions.filter(v => !this.encryptor.isEncryptedString(v.analysis_json))) {
+        updateVersion.run(this.encryptor.encryptString(v.analysis_json), v.id);
+        counts.analyses++;
+      }
+      // Example descriptions are copied from analyses, so they count as analyses
+      for (const e of examples.filter(e => !this.encryptor.isEncryptedString(e.description))) {
+        updateExample.run(this.encryptor.encryptString(e.description), e.id);
+        counts.analyses++;
+      }
+      // Summaries carry the day's check-in messages
+      for (const s of summaries.filter(s => !this.encryptor.isEncryptedString(s.content_json))) {
+        updateSummary.run(this.encryptor.encryptString(s.content_json), s.id);
+        counts.summaries++;
+      }
+    })();
+
+    return counts;
+  }
+
+  getEncryptor(): Encryptor {
+    return this.encryptor;
+  }
+
   // Get raw database instance (for XP service)
   getRawDb(): Database.Database {
     return this.db;
@@ -225,7 +812,7 @@ export class LifeLogDatabase {
   getStats(): { activities: number; checkIns: number; media: number; summaries: number } {
     const activities = (this.db.prepare('SELECT COUNT(*) as count FROM activities').get() as { count: number }).count;
     const checkIns = (this.db.prepare('SELECT COUNT(*) as count FROM check_ins').get() as { count: number }).count;
-    const media = (this.db.prepare('SELECT COUNT(*) as count FROM media').get() as { count: number }).count;
+    const media = (this.db.prepare('SELECT COUNT(*) as count FROM media WHERE parent_id IS NULL').get() as { count: number }).count;
     const summaries = (this.db.prepare('SELECT COUNT(*) as count FROM summaries').get() as { count: number }).count;
     return { activities, checkIns, media, summaries };
   }
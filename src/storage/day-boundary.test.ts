@@ -0,0 +1,99 @@
+/**
+ * Day Boundary Tests
+ *
+ * Run with: npx ts-node src/storage/day-boundary.test.ts
+ * Or: node --loader ts-node/esm src/storage/day-boundary.test.ts
+ */
+
+import fs from 'fs';
+import { DayBoundary } from './day-boundary.js';
+import { LifeLogDatabase } from './database.js';
+import { MarkdownLogger } from './markdown-logger.js';
+import { CheckInHandler } from '../services/checkin-handler.js';
+import { Config } from '../types/index.js';
+import { test, assertEqual, assertThrows, createTestConfig, summary } from '../test-utils.js';
+
+function boundary(day: Config['day']): DayBoundary {
+  return new DayBoundary(createTestConfig({ day }));
+}
+
+// ==================== BUCKETING TESTS ====================
+
+console.log('\n🧪 Day Boundary Tests\n');
+
+await test('evening west of UTC stays on the local day', async () => {
+  const days = boundary({ timezone: 'America/Los_Angeles' });
+  // 21:30 on the 14th in Los Angeles
+  assertEqual(days.dateOf('2024-03-15T04:30:00.000Z'), '2024-03-14');
+  assertEqual(days.hourOf('2024-03-15T04:30:00.000Z'), 21);
+  assertEqual(days.formatTime('2024-03-15T04:30:00.000Z'), '21:30');
+  assertEqual(days.formatTime('2024-03-15T04:30:07.000Z', true), '21:30:07');
+});
+
+await test('hours before the day start count as the day before', async () => {
+  const days = boundary({ timezone: 'Europe/Berlin', startHour: 4 });
+  assertEqual(days.dateOf('2024-03-15T01:30:00.000Z'), '2024-03-14', '02:30 local');
+  assertEqual(days.dateOf('2024-03-15T03:00:00.000Z'), '2024-03-15', '04:00 local');
+  assertEqual(days.dateOf('2024-03-01T00:30:00.000Z'), '2024-02-29', 'across a month end');
+});
+
+await test('day start follows the wall clock across DST', async () => {
+  const days = boundary({ timezone: 'America/New_York', startHour: 4 });
+  // DST began 2024-03-10: 03:59 and 04:00 local are 07:59Z and 08:00Z
+  assertEqual(days.dateOf('2024-03-10T07:59:00.000Z'), '2024-03-09');
+  assertEqual(days.dateOf('2024-03-10T08:00:00.000Z'), '2024-03-10');
+});
+
+await test('spans are split at the hours of the user\'s clock', async () => {
+  // India is UTC+5:30, so 04:10Z to 05:50Z is 09:40 to 11:20
+  const split = boundary({ timezone: 'Asia/Kolkata' }).splitByHour('2024-03-15T04:10:00.000Z', '2024-03-15T05:50:00.000Z');
+  assertEqual(split.map(s => `${s.hour}:${s.minutes}`).join(' '), '9:20 10:60 11:20');
+  assertEqual(boundary({ timezone: 'UTC' }).splitByHour('2024-03-15T09:10:30.000Z', '2024-03-15T09:10:30.000Z').length, 0);
+});
+
+await test('invalid settings are rejected', async () => {
+  await assertThrows(() => boundary({ timezone: 'Mars/Olympus_Mons' }), /Invalid day.timezone/);
+  await assertThrows(() => boundary({ startHour: 24 }), /Invalid day.startHour/);
+  await assertThrows(() => boundary({ startHour: 4.5 }), /Invalid day.startHour/);
+});
+
+// ==================== DATABASE TESTS ====================
+
+await test('date queries use the local day', async () => {
+  const db = new LifeLogDatabase(createTestConfig({ day: { timezone: 'America/Los_Angeles' } }));
+  db.insertCheckIn({ timestamp: '2024-03-15T04:30:00.000Z', message: 'late push', source: 'cli' });
+
+  assertEqual(db.getCheckInsByDate('2024-03-14').length, 1);
+  assertEqual(db.getCheckInsByDate('2024-03-15').length, 0);
+  db.close();
+});
+
+await test('changing the timezone re-buckets stored rows', async () => {
+  const config = createTestConfig({ day: { timezone: 'America/Los_Angeles' } });
+  let db = new LifeLogDatabase(config);
+  db.insertMedia({ timestamp: '2024-03-15T04:30:00.000Z', type: 'screen', file_path: 'a.png' });
+  db.close();
+
+  db = new LifeLogDatabase({ ...config, day: { timezone: 'UTC' } });
+  assertEqual(db.getMediaByDate('2024-03-14').length, 0);
+  assertEqual(db.getMediaByDate('2024-03-15').length, 1);
+  db.close();
+});
+
+await test('check-ins and markdown logs use the local day', async () => {
+  // Fourteen hours ahead of UTC, so the local day differs for most of it
+  const config = createTestConfig({ day: { timezone: 'Pacific/Kiritimati', startHour: 4 } });
+  const db = new LifeLogDatabase(config);
+  const logger = new MarkdownLogger(config);
+  const handler = new CheckInHandler(config, db, logger);
+  const checkIn = await handler.addCheckIn('on the local day');
+
+  const today = boundary(config.day).dateOf(checkIn.timestamp);
+  assertEqual(handler.getCheckInsForToday().length, 1);
+  assertEqual(fs.readdirSync(config.logsDir).join(), `${today}.md`);
+  db.close();
+});
+
+// ==================== SUMMARY ====================
+
+summary();
@@ -0,0 +1,119 @@
+/**
+ * Day Boundary
+ * Which day a timestamp belongs to in the user's timezone. Days can start
+ * after midnight (config.day.startHour), so a late night counts as the day before.
+ */
+
+import { Config } from '../types/index.js';
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export class DayBoundary {
+  readonly timezone: string;
+  readonly startHour: number;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(config: Config) {
+    this.timezone = config.day?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.startHour = config.day?.startHour ?? 0;
+
+    if (!Number.isInteger(this.startHour) || this.startHour < 0 || this.startHour > 23) {
+      throw new Error(`Invalid day.startHour: ${config.day?.startHour}. Expected a whole hour from 0 to 23`);
+    }
+
+    try {
+      this.formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: this.timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23',
+      });
+    } catch {
+      throw new Error(`Invalid day.timezone: ${this.timezone}. Expected an IANA name, e.g. America/New_York`);
+    }
+  }
+
+  /**
+   * The day (YYYY-MM-DD) a timestamp is bucketed into
+   */
+  dateOf(timestamp: string | Date): string {
+    const clock = this.wallClock(timestamp);
+    // Before the day starts is still the previous day
+    const offset = clock.hour < this.startHour ? -1 : 0;
+    return new Date(Date.UTC(clock.year, clock.month - 1, clock.day + offset)).toISOString().slice(0, 10);
+  }
+
+  /**
+   * The day it is now
+   */
+  today(now: Date = new Date()): string {
+    return this.dateOf(now);
+  }
+
+  /**
+   * Hour of the day (0-23) on the user's clock
+   */
+  hourOf(timestamp: string | Date): number {
+    return this.wallClock(timestamp).hour;
+  }
+
+  /**
+   * Minutes of a span in each hour of the user's clock it overlaps, in order
+   */
+  splitByHour(start: string | Date, end: string | Date): Array<{ hour: number; minutes: number }> {
+    const spans: Array<{ hour: number; minutes: number }> = [];
+    const stop = new Date(end).getTime();
+    let cursor = new Date(start).getTime();
+
+    while (cursor < stop) {
+      const time = new Date(cursor);
+      const clock = this.wallClock(time);
+      // Offsets are whole minutes, so seconds on the user's clock match UTC's
+      const hourEnd = cursor + ((60 - clock.minute) * 60 - time.getUTCSeconds()) * 1000 - time.getUTCMilliseconds();
+      const next = Math.min(hourEnd, stop);
+      spans.push({ hour: clock.hour, minutes: (next - cursor) / 60000 });
+      cursor = next;
+    }
+
+    return spans;
+  }
+
+  /**
+   * "HH:mm" (or "HH:mm:ss" with seconds) on the user's clock
+   */
+  formatTime(timestamp: string | Date, seconds: boolean = false): string {
+    const clock = this.wallClock(timestamp);
+    const fields = seconds ? [clock.hour, clock.minute, clock.second] : [clock.hour, clock.minute];
+    return fields.map(n => String(n).padStart(2, '0')).join(':');
+  }
+
+  /**
+   * Identifies the bucketing, so stored days can be recomputed when it changes
+   */
+  toString(): string {
+    return `${this.timezone}@${this.startHour}`;
+  }
+
+  private wallClock(timestamp: string | Date): WallClock {
+    const time = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+    if (isNaN(time.getTime())) {
+      throw new Error(`Invalid timestamp: ${timestamp}`);
+    }
+    const parts: Record<string, number> = {};
+    for (const part of this.formatter.formatToParts(time)) {
+      if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+    }
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Encryption at Rest Tests
+ *
+ * Run with: npx ts-node src/storage/encryption.test.ts
+ * Or: node --loader ts-node/esm src/storage/encryption.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createEncryptor, ENCRYPTED_FILE_SUFFIX } from './encryption.js';
+import { LifeLogDatabase } from './database.js';
+import { StorageManager } from '../services/storage-manager.js';
+import { Config } from '../types/index.js';
+import { test, assertEqual, assertThrows, createTestConfig, summary } from '../test-utils.js';
+
+const PASSPHRASE_ENV = 'LIFELOG_TEST_PASSPHRASE';
+
+function encryptedConfig(passphrase: string = 'correct horse'): Config {
+  process.env[PASSPHRASE_ENV] = passphrase;
+  return createTestConfig({ encryption: { enabled: true, passphraseEnv: PASSPHRASE_ENV } });
+}
+
+// ==================== ROUND TRIP TESTS ====================
+
+console.log('\n🧪 Encryption at Rest Tests\n');
+
+await test('strings round-trip and are only encrypted once', async () => {
+  const encryptor = createEncryptor(encryptedConfig());
+  const sealed = encryptor.encryptString('feeling great');
+
+  assertEqual(encryptor.isEncryptedString(sealed), true);
+  assertEqual(sealed.includes('great'), false);
+  assertEqual(encryptor.encryptString(sealed), sealed);
+  assertEqual(encryptor.decryptString(sealed), 'feeling great');
+  assertEqual(encryptor.decryptString('plain'), 'plain', 'plaintext passes through');
+});
+
+await test('files are replaced by an encrypted copy that reads back', async () => {
+  const config = encryptedConfig();
+  const encryptor = createEncryptor(config);
+  const file = path.join(config.dataDir, 'shot.png');
+  fs.writeFileSync(file, 'not really a png');
+
+  const sealed = encryptor.encryptFile(file);
+
+  assertEqual(sealed, file + ENCRYPTED_FILE_SUFFIX);
+  assertEqual(fs.existsSync(file), false, 'plaintext removed');
+  assertEqual(fs.readFileSync(sealed).includes('png'), false);
+  assertEqual(encryptor.readFile(sealed).toString(), 'not really a png');
+  assertEqual(encryptor.encryptFile(sealed), sealed, 'already encrypted');
+});
+
+await test('a wrong passphrase is rejected', async () => {
+  const config = encryptedConfig();
+  createEncryptor(config);
+
+  process.env[PASSPHRASE_ENV] = 'wrong horse';
+  await assertThrows(() => createEncryptor(config), /Wrong passphrase in LIFELOG_TEST_PASSPHRASE/);
+});
+
+// ==================== EXISTING DATA TESTS ====================
+
+await test('existing plaintext data is encrypted in place', async () => {
+  const config = encryptedConfig();
+  const plaintext = { ...config, encryption: undefined };
+  const timestamp = '2026-10-20T10:00:00.000Z';
+  const file = path.join(config.dataDir, 'shot.png');
+  fs.writeFileSync(file, 'screen');
+
+  let db = new LifeLogDatabase(plaintext);
+  db.insertCheckIn({ timestamp, message: 'tired', source: 'cli' });
+  db.insertActivity({ timestamp, type: 'app_usage', metadata_json: JSON.stringify({ app: 'Mail', title: 'Offer letter' }) });
+  db.insertMedia({ timestamp, type: 'screen', file_path: file, analysis_json: '{"category":"email"}' });
+  db.upsertSummary({ date: '2026-10-20', content_json: '{}' });
+  db.close();
+
+  db = new LifeLogDatabase(config);
+  const result = new StorageManager(config, db).encryptExisting();
+
+  assertEqual(JSON.stringify(result), JSON.stringify({ files: 1, checkIns: 1, activities: 1, analyses: 1, summaries: 1 }));
+  const raw = db.getRawDb().prepare('SELECT metadata_json FROM activities').get() as { metadata_json: string };
+  assertEqual(raw.metadata_json.includes('Offer letter'), false, 'window title encrypted');
+  assertEqual(JSON.parse(db.getActivitiesByDate('2026-10-20')[0].metadata_json).title, 'Offer letter');
+  assertEqual(db.getCheckInsByDate('2026-10-20')[0].message, 'tired');
+  assertEqual(db.getMediaByDate('2026-10-20')[0].file_path, file + ENCRYPTED_FILE_SUFFIX);
+  assertEqual(fs.existsSync(file), false);
+  assertEqual(JSON.stringify(new StorageManager(config, db).encryptExisting()),
+    JSON.stringify({ files: 0, checkIns: 0, activities: 0, analyses: 0, summaries: 0 }), 'nothing left to encrypt');
+  db.close();
+});
+
+delete process.env[PASSPHRASE_ENV];
+
+// ==================== SUMMARY ====================
+
+summary();
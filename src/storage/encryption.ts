@@ -0,0 +1,210 @@
+/**
+ * Encryption at Rest
+ * AES-256-GCM with a key derived from a passphrase (scrypt), for media files
+ * and sensitive database columns
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Config } from '../types/index.js';
+
+const DEFAULT_PASSPHRASE_ENV = 'LIFELOG_PASSPHRASE';
+const KEY_FILE = 'encryption.json';
+
+// Encrypted files get this suffix and start with FILE_MAGIC; strings start with STRING_PREFIX
+export const ENCRYPTED_FILE_SUFFIX = '.enc';
+const FILE_MAGIC = Buffer.from('LLENC1');
+const STRING_PREFIX = 'enc:v1:';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_CHECK = 'lifelog';
+
+// scrypt cost: ~100ms per derivation, once per process
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface KeyFile {
+  version: 1;
+  salt: string;
+  check: string; // KEY_CHECK encrypted with the key, to detect a wrong passphrase
+}
+
+export class Encryptor {
+  private key: Buffer | null;
+  private enabled: boolean;
+
+  /**
+   * @param key  null when no passphrase is available; plaintext still passes through
+   * @param enabled  whether new data gets encrypted
+   */
+  constructor(key: Buffer | null, enabled: boolean) {
+    if (enabled && !key) {
+      throw new Error('Encryption is enabled but no key is available');
+    }
+    this.key = key;
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // ===== Strings (database columns) =====
+
+  /**
+   * Encrypt a column value; passes through when encryption is off or the value is already encrypted
+   */
+  encryptString(value: string): string {
+    if (!this.enabled || this.isEncryptedString(value)) return value;
+    return STRING_PREFIX + this.seal(Buffer.from(value, 'utf-8')).toString('base64');
+  }
+
+  /**
+   * Decrypt a column value; plaintext passes through unchanged
+   */
+  decryptString(value: string): string {
+    if (!this.isEncryptedString(value)) return value;
+    return this.open(Buffer.from(value.slice(STRING_PREFIX.length), 'base64')).toString('utf-8');
+  }
+
+  isEncryptedString(value: string): boolean {
+    return value.startsWith(STRING_PREFIX);
+  }
+
+  // ===== Files (recorded media) =====
+
+  /**
+   * Encrypt a file in place, replacing it with `<file>.enc`.
+   * Returns the path to store (unchanged when encryption is off).
+   */
+  encryptFile(filePath: string): string {
+    if (!this.enabled || this.isEncryptedFile(filePath)) return filePath;
+
+    const encryptedPath = filePath + ENCRYPTED_FILE_SUFFIX;
+    const sealed = this.seal(fs.readFileSync(filePath));
+    fs.writeFileSync(encryptedPath, Buffer.concat([FILE_MAGIC, sealed]), { mode: 0o600 });
+    fs.unlinkSync(filePath);
+    return encryptedPath;
+  }
+
+  /**
+   * Read a media file, decrypting it if needed
+   */
+  readFile(filePath: string): Buffer {
+    const data = fs.readFileSync(filePath);
+    if (!this.isEncryptedFile(filePath)) return data;
+
+    if (!data.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC)) {
+      throw new Error(`Not an encrypted LifeLog file: ${path.basename(filePath)}`);
+    }
+    return this.open(data.subarray(FILE_MAGIC.length));
+  }
+
+  /**
+   * Run a tool that needs a real file (ffmpeg, ffprobe, Whisper upload) against
+   * a media file. Encrypted files are decrypted to a private temp file that is
+   * removed afterwards.
+   */
+  async withPlaintextFile<T>(filePath: string, fn: (plainPath: string) => Promise<T>): Promise<T> {
+    if (!this.isEncryptedFile(filePath)) {
+      return fn(filePath);
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lifelog-'));
+    const plainPath = path.join(tempDir, path.basename(this.getPlainPath(filePath)));
+    try {
+      fs.writeFileSync(plainPath, this.readFile(filePath), { mode: 0o600 });
+      return await fn(plainPath);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  isEncryptedFile(filePath: string): boolean {
+    return filePath.endsWith(ENCRYPTED_FILE_SUFFIX);
+  }
+
+  /**
+   * The path without the `.enc` suffix, for extension checks
+   */
+  getPlainPath(filePath: string): string {
+    return this.isEncryptedFile(filePath) ? filePath.slice(0, -ENCRYPTED_FILE_SUFFIX.length) : filePath;
+  }
+
+  // ===== AES-256-GCM =====
+
+  /** iv | tag | ciphertext */
+  private seal(plaintext: Buffer): Buffer {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.requireKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private open(sealed: Buffer): Buffer {
+    const iv = sealed.subarray(0, IV_LENGTH);
+    const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.requireKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error(`Data is encrypted; set ${DEFAULT_PASSPHRASE_ENV} (or config.encryption.passphraseEnv) to read it`);
+    }
+    return this.key;
+  }
+}
+
+/**
+ * Build the encryptor for a data directory. The salt lives in
+ * `<dataDir>/encryption.json` and is created on first use; a wrong
+ * passphrase is rejected rather than producing unreadable data.
+ */
+export function createEncryptor(config: Config): Encryptor {
+  const enabled = config.encryption?.enabled ?? false;
+  const envName = config.encryption?.passphraseEnv || DEFAULT_PASSPHRASE_ENV;
+  const passphrase = process.env[envName];
+  const keyFilePath = path.join(config.dataDir, KEY_FILE);
+
+  if (!passphrase) {
+    if (enabled) {
+      throw new Error(`Encryption is enabled but ${envName} is not set`);
+    }
+    return new Encryptor(null, false);
+  }
+
+  // Without a key file there is nothing encrypted to read yet
+  if (!fs.existsSync(keyFilePath) && !enabled) {
+    return new Encryptor(null, false);
+  }
+
+  let keyFile: KeyFile;
+  if (fs.existsSync(keyFilePath)) {
+    keyFile = JSON.parse(fs.readFileSync(keyFilePath, 'utf-8'));
+  } else {
+    const salt = crypto.randomBytes(16);
+    const encryptor = new Encryptor(deriveKey(passphrase, salt), true);
+    keyFile = { version: 1, salt: salt.toString('base64'), check: encryptor.encryptString(KEY_CHECK) };
+    fs.mkdirSync(config.dataDir, { recursive: true });
+    fs.writeFileSync(keyFilePath, JSON.stringify(keyFile, null, 2), { mode: 0o600 });
+    return encryptor;
+  }
+
+  const encryptor = new Encryptor(deriveKey(passphrase, Buffer.from(keyFile.salt, 'base64')), enabled);
+  try {
+    if (encryptor.decryptString(keyFile.check) !== KEY_CHECK) {
+      throw new Error('key check mismatch');
+    }
+  } catch {
+    throw new Error(`Wrong passphrase in ${envName} for ${keyFilePath}`);
+  }
+  return encryptor;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, SCRYPT_OPTIONS);
+}
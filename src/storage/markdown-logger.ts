@@ -2,25 +2,33 @@ import fs from 'fs';
 import path from 'path';
 import { format } from 'date-fns';
 import { Activity, CheckIn, MediaRecord, Config } from '../types/index.js';
+import { DayBoundary } from './day-boundary.js';
 
 export class MarkdownLogger {
   private logsDir: string;
+  private redactCheckIns: boolean;
+  private days: DayBoundary;
 
   constructor(config: Config) {
     this.logsDir = config.logsDir;
+    this.days = new DayBoundary(config);
+    // The markdown logs are plaintext, so encrypted check-ins stay out of them
+    this.redactCheckIns = config.encryption?.enabled ?? false;
     if (!fs.existsSync(this.logsDir)) {
       fs.mkdirSync(this.logsDir, { recursive: true });
     }
   }
 
+  // One file per day on the user's clock, the same day the database buckets into
   private getLogPath(date: Date = new Date()): string {
-    const filename = format(date, 'yyyy-MM-dd') + '.md';
+    const filename = this.days.dateOf(date) + '.md';
     return path.join(this.logsDir, filename);
   }
 
   private ensureHeader(logPath: string, date: Date): void {
     if (!fs.existsSync(logPath)) {
-      const header = `# LifeLog - ${format(date, 'EEEE, MMMM d, yyyy')}\n\n`;
+      // A bare YYYY-MM-DDT00:00 is read as local midnight, so format() keeps the day
+      const header = `# LifeLog - ${format(new Date(`${this.days.dateOf(date)}T00:00`), 'EEEE, MMMM d, yyyy')}\n\n`;
       fs.writeFileSync(logPath, header);
     }
   }
@@ -34,7 +42,7 @@ export class MarkdownLogger {
     const logPath = this.getLogPath(date);
     this.ensureHeader(logPath, date);
 
-    const time = format(date, 'HH:mm:ss');
+    const time = this.days.formatTime(date, true);
     const metadata = JSON.parse(activity.metadata_json);
     
     let line = `- **${time}** [${activity.type}]`;
@@ -44,6 +52,9 @@ export class MarkdownLogger {
     if (metadata.sessionName) {
       line += ` - Session: ${metadata.sessionName}`;
     }
+    if (metadata.app) {
+      line += ` - ${metadata.app}${metadata.title ? `: ${metadata.title}` : ''}`;
+    }
     if (metadata.file) {
       line += ` → \`${path.basename(metadata.file)}\``;
     }
@@ -56,8 +67,13 @@ export class MarkdownLogger {
     const logPath = this.getLogPath(date);
     this.ensureHeader(logPath, date);
 
-    const time = format(date, 'HH:mm:ss');
-    const line = `- **${time}** 📝 ${checkIn.message}`;
+    const time = this.days.formatTime(date, true);
+    const feelings = [
+      checkIn.mood != null ? `mood ${checkIn.mood}/5` : null,
+      checkIn.energy != null ? `energy ${checkIn.energy}/5` : null,
+    ].filter(Boolean);
+    const text = feelings.length > 0 ? `${checkIn.message} (${feelings.join(', ')})` : checkIn.message;
+    const line = `- **${time}** 📝 ${this.redactCheckIns ? '_check-in (encrypted)_' : text}`;
 
     this.appendLine(logPath, line);
   }
@@ -67,7 +83,7 @@ export class MarkdownLogger {
     const logPath = this.getLogPath(date);
     this.ensureHeader(logPath, date);
 
-    const time = format(date, 'HH:mm:ss');
+    const time = this.days.formatTime(date, true);
     const emoji = media.type === 'screen' ? '🖥️' : media.type === 'camera' ? '📷' : '🎤';
     const line = `- **${time}** ${emoji} Captured: \`${path.basename(media.file_path)}\``;
 
@@ -79,7 +95,7 @@ export class MarkdownLogger {
     const logPath = this.getLogPath(date);
     this.ensureHeader(logPath, date);
 
-    const time = format(date, 'HH:mm:ss');
+    const time = this.days.formatTime(date, true);
     const line = `\n## 🚀 Session Started: ${sessionName} (${time})\n`;
 
     this.appendLine(logPath, line);
@@ -90,13 +106,41 @@ export class MarkdownLogger {
     const logPath = this.getLogPath(date);
     this.ensureHeader(logPath, date);
 
-    const time = format(date, 'HH:mm:ss');
+    const time = this.days.formatTime(date, true);
     const durationMin = Math.round(duration / 60000);
     const line = `\n## 🛑 Session Ended: ${sessionName} (${time}) - Duration: ${durationMin} min\n`;
 
     this.appendLine(logPath, line);
   }
 
+  logCapturePaused(until: string | null, reason: string | null): void {
+    const date = new Date();
+    const logPath = this.getLogPath(date);
+    this.ensureHeader(logPath, date);
+
+    const time = this.days.formatTime(date, true);
+    let line = `- **${time}** ⏸️ Capture paused`;
+    if (until) {
+      line += ` until ${this.days.formatTime(until)}`;
+    }
+    if (reason) {
+      line += ` (${reason})`;
+    }
+
+    this.appendLine(logPath, line);
+  }
+
+  logCaptureResumed(pausedMs: number): void {
+    const date = new Date();
+    const logPath = this.getLogPath(date);
+    this.ensureHeader(logPath, date);
+
+    const time = this.days.formatTime(date, true);
+    const line = `- **${time}** ▶️ Capture resumed after ${Math.round(pausedMs / 60000)} min`;
+
+    this.appendLine(logPath, line);
+  }
+
   addSummary(summary: string): void {
     const date = new Date();
     const logPath = this.getLogPath(date);
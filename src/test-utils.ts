@@ -0,0 +1,119 @@
+/**
+ * Test Utilities
+ * The harness shared by the standalone *.test.ts files, and complete configs
+ * rooted in temporary directories that are removed with the summary.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Config } from './types/index.js';
+
+let passed = 0;
+let failed = 0;
+const tempDirs: string[] = [];
+
+export async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`❌ ${name}`);
+    console.error(`   ${error instanceof Error ? error.message : error}`);
+    failed++;
+  }
+}
+
+export function assertEqual<T>(actual: T, expected: T, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(`${message || 'Assertion failed'}: expected ${expected}, got ${actual}`);
+  }
+}
+
+export function assertTrue(condition: boolean, message?: string): void {
+  if (!condition) {
+    throw new Error(message || 'Assertion failed: expected true');
+  }
+}
+
+export async function assertThrows(fn: () => unknown, pattern: RegExp): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!pattern.test(message)) {
+      throw new Error(`Expected error matching ${pattern}, got "${message}"`);
+    }
+    return;
+  }
+  throw new Error(`Expected error matching ${pattern}, but nothing was thrown`);
+}
+
+/**
+ * Run without progress lines and warnings (e.g. the pattern detector's or
+ * the analysis queue's) mixing into the results
+ */
+export async function quietly<T>(fn: () => T | Promise<T>): Promise<T> {
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+/**
+ * A fresh temporary directory, removed by summary()
+ */
+export function tempDir(prefix: string = 'lifelog-test-'): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/**
+ * A complete config with all data in a new temporary directory: days in UTC,
+ * local transcription and no classification rules unless a test adds them.
+ * Overrides replace top-level sections.
+ */
+export function createTestConfig(overrides: Partial<Config> = {}): Config {
+  const dir = tempDir();
+  return {
+    dataDir: dir,
+    logsDir: path.join(dir, 'logs'),
+    database: path.join(dir, 'lifelog.db'),
+    summariesDir: path.join(dir, 'summaries'),
+    recordings: {
+      screenDir: path.join(dir, 'screen'),
+      snapshotDir: path.join(dir, 'snapshots'),
+      audioDir: path.join(dir, 'audio'),
+    },
+    intervals: {
+      screenRecordDurationMs: 60000,
+      screenRecordIntervalMs: 300000,
+      cameraSnapshotIntervalMs: 300000,
+    },
+    whisper: { model: 'whisper-1', provider: 'local' },
+    analysis: {},
+    rules: { path: path.join(dir, 'rules.json') },
+    day: { timezone: 'UTC' },
+    ...overrides,
+  };
+}
+
+/**
+ * Print the results, remove temporary directories and fail the process on
+ * any failed test
+ */
+export function summary(): void {
+  tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed\n`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
@@ -9,30 +9,227 @@ export interface Config {
     screenDir: string;
     snapshotDir: string;
     audioDir: string;
+    backend?: CaptureBackendName; // default: openclaw
+    fixtureDir?: string; // source folder for the fixture backend
+    ffmpeg?: {
+      binary?: string;
+      display?: string; // x11grab input, defaults to $DISPLAY
+      videoDevice?: string; // v4l2 device, defaults to /dev/video0
+      frameRate?: number;
+    };
   };
   intervals: {
     screenRecordDurationMs: number;
     screenRecordIntervalMs: number;
     cameraSnapshotIntervalMs: number;
+    windowSampleIntervalMs?: number; // default: 10000
+  };
+  day?: {
+    timezone?: string; // IANA name, e.g. "America/Los_Angeles" (default: the system timezone)
+    startHour?: number; // hour the day starts, e.g. 4 counts 1am as the day before (default: 0)
+  };
+  windowTracking?: {
+    enabled: boolean;
+    probe?: WindowProbeName | 'auto'; // default: auto by platform
+    scriptedSamples?: Array<ActiveWindow | null>; // for the scripted probe
+  };
+  privacy?: {
+    blockedApps?: string[]; // case-insensitive substring of the app name, e.g. "1Password"
+    blockedTitlePatterns?: string[]; // case-insensitive regexes on the window title
+    checkIntervalMs?: number; // how often the focused window is checked during a recording (default: 2000)
+  };
+  idle?: {
+    enabled: boolean;
+    thresholdMs?: number; // no input for this long counts as away (default: 5 min)
+    checkIntervalMs?: number; // default: 30000
+    probe?: IdleProbeName | 'auto'; // default: auto by platform
+    scriptedIdleSeconds?: number[]; // for the scripted probe
+  };
+  audio?: {
+    listen?: boolean; // sessions also record conversations, like "lifelog start --listen" (default: false)
+    chunkDurationMs?: number; // listening cuts chunks at the first pause after this long (default: 30000)
+    maxChunkMs?: number; // ...or here when nobody pauses (default: 2 x chunkDurationMs)
+    silenceThresholdDb?: number; // quieter than this counts as silence (default: -35)
+    minSpeechMs?: number; // chunks with less speech are discarded (default: 2000)
+    conversationGapMs?: number; // silence longer than this ends a conversation (default: 60000)
+  };
+  retention?: {
+    // Days to keep files on disk; 0 keeps them forever. Rows and analyses are always kept.
+    screenDays?: number; // raw screen recordings and screenshots (default: 7)
+    frameDays?: number; // keyframes extracted from recordings (default: 30)
+    cameraDays?: number; // default: 30
+    audioDays?: number; // default: 30
+    compressAfterDays?: number; // re-encode files older than this (default: 2)
+    quotaMb?: number; // oldest files are purged first once media exceeds this
+  };
+  encryption?: {
+    enabled: boolean; // encrypt new media files, check-ins, activities, analyses and summaries; keeps check-in text out of markdown
+    passphraseEnv?: string; // env var holding the passphrase (default: LIFELOG_PASSPHRASE)
+  };
+  frames?: {
+    ffmpegBinary?: string;
+    ffprobeBinary?: string;
+    maxFrames?: number; // frames analyzed per recording (default: 4)
+    secondsPerFrame?: number; // sampling density before the cap (default: 15)
   };
   whisper: {
-    model: string;
+    model: string; // OpenAI model name, e.g. whisper-1
+    provider?: TranscriptionProviderName; // default: openai
+    binary?: string; // local: whisper.cpp CLI (default: whisper-cli)
+    modelPath?: string; // local: ggml model file, e.g. ./models/ggml-base.en.bin
+    language?: string; // e.g. "en"; default: auto-detect
+    threads?: number; // local only
   };
   analysis: {
+    provider?: LLMProviderName; // default: anthropic
+    model?: string; // default depends on the provider
     anthropicApiKey?: string;
-    model: string;
+    openaiApiKey?: string;
+    baseUrl?: string; // local: OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+    recordingsPath?: string; // recorded: JSON file of recorded responses
+    recordFrom?: LLMProviderName; // recorded: call this provider for misses and save its responses
+    tasks?: Partial<Record<LLMTask, { provider?: LLMProviderName; model?: string }>>; // per-task overrides
+    dedupThreshold?: number; // max differing hash bits to reuse the previous capture's analysis (default: 4, 0 disables)
+    queue?: {
+      concurrency?: number; // parallel analysis jobs (default: 3)
+      maxAttempts?: number; // attempts before a job is dead-lettered (default: 5)
+      baseDelayMs?: number; // first retry delay, doubled on each attempt (default: 2000)
+      leaseMs?: number; // a running job whose worker stops renewing for this long is retried (default: 600000)
+    };
+    pricing?: Record<string, ModelPricing>; // by model name prefix; overrides built-in prices
+  };
+  categories?: CategoryDefinition[]; // activity taxonomy; replaces the built-in categories when set
+  rules?: {
+    path?: string; // JSON array of ClassificationRule (default: ./rules.json)
+    minConfidence?: number; // matches below this still go to the model (default: 0.6)
   };
+  fusion?: {
+    windowMs?: number; // captures this close together form one moment (default: intervals.screenRecordIntervalMs)
+  };
+  review?: {
+    threshold?: number; // classifications below this confidence are listed for review (default: 0.6)
+    fewShotExamples?: number; // reviewed examples included in classifier prompts (default: 8, 0 disables)
+  };
+  anomalies?: {
+    method?: AnomalyMethod; // default: mad
+    threshold?: number; // deviations from the baseline that count as anomalous (default: 3.5 for mad, 3 for zscore)
+    baselineDays?: number; // summaries of this many days before a date form its baseline (default: 28)
+    minBaselineDays?: number; // with fewer summaries than this nothing is flagged (default: 7)
+  };
+  correlations?: {
+    days?: number; // days analyzed by default and for weekly insights (default: 30)
+    minEffectSize?: number; // smallest |Cohen's d| reported (default: 0.5)
+    minSamples?: number; // samples needed on each side of a split (default: 5)
+    maxPValue?: number; // largest p-value reported, after adjusting for the number of comparisons (default: 0.05)
+  };
+  focusCurve?: {
+    weeks?: number; // history the hour-of-week focus curve is built from (default: 26)
+    minDays?: number; // days of data an hour needs before it's trusted (default: 3)
+  };
+  forecast?: {
+    historyDays?: number; // summaries of this many days before a date feed its forecast (default: 56)
+    recentDays?: number; // days the recent level and trend are taken from (default: 14)
+    riskThreshold?: number; // goals less likely than this to be completed are at risk (default: 0.5)
+  };
+  calendar?: {
+    path?: string; // iCalendar (.ics) file of scheduled events, e.g. exported from Google Calendar
+  };
+}
+
+// How a day is compared with its baseline: median absolute deviation (robust
+// to the odd extreme day) or mean and standard deviation
+export type AnomalyMethod = 'mad' | 'zscore';
+
+// Model backends behind the LLM provider interface
+export type LLMProviderName = 'anthropic' | 'openai' | 'local' | 'recorded';
+
+// Each task can use its own provider and model
+export type LLMTask = 'screen' | 'camera' | 'transcript' | 'coaching';
+
+// USD per million tokens
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+// Speech-to-text provider used by AudioRecorder.transcribe
+export type TranscriptionProviderName = 'openai' | 'local';
+
+// Capture backend used by ScreenRecorder and CameraSnapshot
+export type CaptureBackendName = 'openclaw' | 'ffmpeg' | 'fixture';
+
+// Focused application/window, sampled by the window tracker
+export type WindowProbeName = 'macos' | 'linux' | 'scripted';
+
+export interface ActiveWindow {
+  app: string;
+  title: string;
+}
+
+// Source of seconds-since-last-input for idle detection
+export type IdleProbeName = 'macos' | 'linux' | 'scripted';
+
+// Activity category id from the taxonomy (config.categories, or the built-in
+// coding/meetings/browsing/social/email/breaks/other). "breaks" and "other"
+// always exist: idle time is a break and unclassifiable activity is other.
+export type ActivityCategory = string;
+
+// One entry of the activity taxonomy
+export interface CategoryDefinition {
+  id: string; // e.g. "code-review"; what analyses and goals store
+  name?: string; // display name (default: the id)
+  description?: string; // what belongs here; shown to the classifier
+  color?: string; // hex, for charts
+  emoji?: string;
+  deepWork?: boolean; // focused blocks count as deep work
+  distracting?: boolean; // long stretches trigger distraction nudges
+  parent?: string; // group for rollups and goals, e.g. "work"
+  keywords?: string[]; // words in check-ins and window titles that mean this category
+  focusScore?: number; // assumed focus when classified from the focused window alone (default: 50)
+  productivityWeight?: number; // weight in peak-hour scoring (default: 1.5 for deep work, 0.5 otherwise)
 }
 
-// Activity categories for classification
-export type ActivityCategory = 
-  | 'coding' 
-  | 'meetings' 
-  | 'browsing' 
-  | 'social' 
-  | 'email' 
-  | 'breaks' 
-  | 'other';
+// Deterministic classification of a window (app name, title, URL in the title).
+// Patterns are case-insensitive regexes; every pattern given must match. URLs
+// are matched without their scheme. Higher priority is tried first, then file order.
+export interface ClassificationRule {
+  id?: string; // default: rule-<index>
+  category: ActivityCategory;
+  priority?: number; // default: 0
+  app?: string;
+  title?: string;
+  url?: string;
+  confidence?: number; // default: 0.9
+  focusScore?: number; // default: the category's focus score
+}
+
+// What produced a MediaAnalysis category
+export type AnalysisSource = 'rule' | 'keywords' | 'model' | 'user';
+
+// A classification the user confirmed or corrected during review
+export interface ClassificationExample {
+  id?: number;
+  media_id: number;
+  description: string;
+  applications?: string[];
+  predicted_category: ActivityCategory;
+  category: ActivityCategory; // the user's label
+  created_at: string;
+}
+
+// Low-confidence classification awaiting review
+export interface ReviewItem {
+  mediaId: number;
+  timestamp: string;
+  category: ActivityCategory;
+  confidence: number;
+  description: string;
+  applications?: string[];
+  source?: AnalysisSource;
+}
+
+// Display fields of a category, stored with summaries for the dashboard
+export type CategoryInfo = Pick<CategoryDefinition, 'id' | 'name' | 'color' | 'emoji' | 'parent'>;
 
 // Analysis result for a single media item
 export interface MediaAnalysis {
@@ -42,11 +239,104 @@ export interface MediaAnalysis {
   applications?: string[];
   focusScore?: number; // 0-100, how focused the activity appears
   context?: string;
+  source?: AnalysisSource; // unset on fallbacks (errors, missing files)
+  ruleId?: string; // set when a classification rule matched
+  reviewed?: boolean; // confirmed or relabeled by the user
+  correctedFrom?: ActivityCategory; // category before the user relabeled it
+  framesAnalyzed?: number; // for video: frames that went through vision
+  clipDurationSec?: number; // for video: length of the recording
+  dedupedFrom?: number; // media id whose analysis this capture inherited
+}
+
+// Model and prompt behind a stored analysis; "model@promptHash" names the version
+export interface AnalysisVersion {
+  model: string;
+  promptHash: string; // short hash of the prompt template (few-shot examples excluded)
+}
+
+// One stored result of analyzing a media item; media.analysis_json holds the current one
+export interface MediaAnalysisVersion {
+  id?: number;
+  media_id: number;
+  model: string;
+  prompt_hash: string;
+  analysis_json: string;
+  created_at: string;
+}
+
+// Analyses of one version over a date range
+export interface AnalysisVersionSummary {
+  version: string; // model@promptHash
+  model: string;
+  promptHash: string;
+  media: number;
+  firstCreatedAt: string;
+  lastCreatedAt: string;
+}
+
+// How one day's numbers change when its screens use another analysis version
+export interface ReanalysisDayReport {
+  date: string;
+  analyzed: number; // screens sent to the model
+  copied: number; // near-duplicates that took the new analysis of their source
+  missing: number; // files purged or gone, left on their old analysis
+  failed: number; // model or file errors, left on their old analysis
+  before: { categoryBreakdown: Record<ActivityCategory, number>; focusScore: number };
+  after: { categoryBreakdown: Record<ActivityCategory, number>; focusScore: number };
+}
+
+// A labeled case in a classification eval dataset (a JSON array of these)
+export interface EvalCase {
+  id?: string;
+  image?: string; // screenshot, relative to the dataset file
+  description?: string; // text of what is on screen, classified without an image
+  category: ActivityCategory; // expected
+  focus?: [number, number]; // acceptable focusScore range, inclusive
+}
+
+export interface EvalCaseResult {
+  id: string;
+  expected: ActivityCategory;
+  predicted: ActivityCategory | null; // null when the analyzer failed
+  confidence?: number;
+  focusScore?: number;
+  focusInRange?: boolean; // unset when the case has no focus range
+  error?: string;
+}
+
+export interface CategoryMetrics {
+  precision: number | null; // null when nothing was predicted as the category
+  recall: number | null; // null when no case expects the category
+  support: number; // cases expecting the category
+  predicted: number; // cases predicted as the category
+}
+
+export interface EvalReport {
+  dataset: string;
+  model: string;
+  promptHash: string;
+  cases: number;
+  failed: number; // cases the analyzer errored on; they count as misses
+  accuracy: number;
+  focus?: { inRange: number; total: number };
+  perCategory: Record<ActivityCategory, CategoryMetrics>;
+  confusion: Record<ActivityCategory, Record<ActivityCategory, number>>; // expected -> predicted -> count
+  results: EvalCaseResult[];
+  usage: TokenUsage;
+}
+
+// Vision calls skipped by perceptual-hash deduplication during one analysis run
+export interface DedupReport {
+  hashed: number; // captures and keyframes newly hashed
+  inherited: number; // captures that reused the previous capture's analysis
+  framesReused: number; // keyframes that reused the previous frame's analysis
+  callsSaved: number;
 }
 
 // Camera/workspace analysis
 export interface WorkspaceAnalysis {
-  postureScore?: number; // 0-100
+  personPresent?: boolean; // someone at the desk
+  postureScore?: number | null; // 0-100, null when nobody is in frame
   workspaceQuality?: number; // 0-100
   lighting?: 'good' | 'moderate' | 'poor';
   distractions?: string[];
@@ -54,8 +344,23 @@ export interface WorkspaceAnalysis {
 }
 
 // Audio/meeting analysis
+// Offsets are seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  text: string;
+  segments: TranscriptSegment[];
+  provider: TranscriptionProviderName;
+  language?: string;
+}
+
 export interface AudioAnalysis {
   transcript?: string;
+  segments?: TranscriptSegment[];
   summary?: string;
   keyDecisions?: string[];
   actionItems?: string[];
@@ -63,6 +368,33 @@ export interface AudioAnalysis {
   duration?: number;
 }
 
+// Screen, camera and audio captured in one fusion window, classified together
+export interface Moment {
+  start: string; // first capture in the window
+  end: string; // end of the window
+  category: ActivityCategory;
+  focusScore: number;
+  confidence: number;
+  description: string;
+  away?: boolean; // nobody at the desk and no conversation
+  fusedBy?: 'conversation' | 'camera'; // the signal that overrode the screen's category
+  screenIds: number[];
+  cameraIds: number[];
+  audioIds: number[];
+}
+
+// Classified point in time, before durations are assigned
+export interface RawTimeBlock {
+  timestamp: string;
+  category: ActivityCategory;
+  focusScore: number;
+  description: string;
+  durationMinutes?: number; // known duration (e.g. window tracker spans)
+  app?: string;
+  title?: string;
+  away?: boolean; // idle span, counted as a break but not as tracked time
+}
+
 // Time block for pattern detection
 export interface TimeBlock {
   startTime: string;
@@ -71,6 +403,17 @@ export interface TimeBlock {
   durationMinutes: number;
   focusScore?: number;
   isDeepWork: boolean;
+  app?: string;
+  title?: string;
+  away?: boolean;
+}
+
+// Span where capture was deliberately paused (a known gap, not missing data)
+export interface CaptureGap {
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  reason?: string;
 }
 
 // Daily patterns
@@ -83,6 +426,27 @@ export interface DailyPatterns {
   deepWorkMinutes: number;
   contextSwitches: number;
   focusScore: number; // average across day
+  captureGaps: CaptureGap[];
+  hourlyActivity: Record<number, HourlyActivity>; // by hour of the day (0-23), blocks split across the hours they overlap
+  anomalies: Anomaly[];
+}
+
+// Tracked (not away) time in one hour of the day
+export interface HourlyActivity {
+  minutes: number;
+  focusScore: number; // duration-weighted
+}
+
+// A day or hour far from the user's baseline of recent days
+export interface Anomaly {
+  date: string;
+  metric: 'focusScore' | 'deepWorkMinutes' | 'contextSwitches' | 'categoryMinutes' | 'hourMinutes' | 'hourFocusScore';
+  category?: ActivityCategory; // categoryMinutes
+  hour?: number; // hourMinutes and hourFocusScore
+  value: number;
+  baseline: number; // median (mad) or mean (zscore) of the baseline days
+  score: number; // deviations from the baseline; negative is below it
+  description: string; // e.g. "Focus score 42, usually 68"
 }
 
 // Weekly/monthly trends
@@ -95,6 +459,136 @@ export interface TrendData {
   productivityByHour: Record<number, number>;
   improvements: string[];
   concerns: string[];
+  anomalies: Anomaly[]; // flagged in the period's summaries
+}
+
+// Focus in one hour of the week, over the days with tracked time in it
+export interface FocusCurveCell {
+  weekday: number; // 0 = Monday
+  hour: number;
+  days: number;
+  focusScore: number | null; // mean of the days' focus in this hour
+  low: number | null; // 95% confidence band of the mean; null with fewer than 2 days
+  high: number | null;
+  avgMinutes: number; // tracked minutes in the hour, on days with any
+}
+
+// Aggregate of hourly_focus for one hour of the week
+export interface HourlyFocusStats {
+  weekday: number;
+  hour: number;
+  days: number;
+  meanFocus: number;
+  meanSquareFocus: number;
+  avgMinutes: number;
+}
+
+export interface FocusCurveModel {
+  from: string;
+  to: string;
+  days: number; // days folded into the curve
+  cells: FocusCurveCell[]; // 168, Monday 00:00 first
+}
+
+// Best consecutive hours of a weekday
+export interface FocusWindow {
+  weekday: number;
+  startHour: number;
+  endHour: number; // exclusive
+  focusScore: number;
+  low: number | null;
+  high: number | null;
+  days: number; // fewest days behind any of its hours
+}
+
+// Mood and energy from one check-in, on a 1-5 scale.
+// Structured: given with the check-in; otherwise estimated from feeling words.
+export interface FeelingReading {
+  timestamp: string;
+  mood?: number;
+  energy?: number;
+  source: 'structured' | 'sentiment';
+}
+
+// How mood or energy differ between samples with a high and a low value of
+// one DailyPatterns metric
+export interface Correlation {
+  feeling: 'mood' | 'energy';
+  metric: 'focusScore' | 'deepWorkMinutes' | 'contextSwitches' | 'categoryMinutes';
+  category?: ActivityCategory; // categoryMinutes
+  // same-day: daily feeling vs that day's metric; next-day: vs the day before's;
+  // after: each check-in vs the metric over the hour before it
+  timing: 'same-day' | 'next-day' | 'after';
+  threshold: number; // the metric's median; samples above it are "high"
+  high: { n: number; mean: number };
+  low: { n: number; mean: number };
+  effectSize: number; // Cohen's d of high minus low
+  pValue: number; // permutation test, Benjamini-Hochberg adjusted over all comparisons in the report
+  r: number | null; // Pearson correlation over all samples; null without variation
+  description: string; // e.g. "Mood is lower the day after more than 120min of meetings"
+}
+
+export interface CorrelationReport {
+  from: string;
+  to: string;
+  days: number; // days with readings and tracked activity
+  readings: number;
+  structured: number; // readings with explicit mood/energy values
+  tested: number; // comparisons with enough samples, which p-values are adjusted for
+  correlations: Correlation[]; // strongest first
+}
+
+// A metric forecast for one day: recent level, adjusted for the weekday, the
+// recent trend and scheduled meetings
+export interface MetricForecast {
+  value: number;
+  low: number; // 80% range
+  high: number;
+  level: number; // mean over the recent days
+  weekdayEffect: number;
+  trend: number;
+  meetingEffect: number; // 0 without a calendar or enough history
+}
+
+export interface GoalForecast {
+  goalId: string;
+  goalName: string;
+  type: 'daily' | 'weekly' | 'streak';
+  target: number;
+  expected: number; // the day's value, or the week's total for weekly goals
+  probability: number; // chance of completing it (weekly: by the end of the week)
+  atRisk: boolean;
+}
+
+export interface DayForecast {
+  date: string;
+  historyDays: number; // days with summaries the forecast was made from
+  scheduledMeetingMinutes: number | null; // null without a calendar
+  focusScore: MetricForecast;
+  deepWorkMinutes: MetricForecast;
+  goals: GoalForecast[];
+}
+
+export interface BacktestMetric {
+  metric: 'focusScore' | 'deepWorkMinutes';
+  days: number;
+  meanAbsoluteError: number;
+  bias: number; // mean of forecast minus actual
+  coverage: number; // share of actuals within the 80% range
+  naiveError: number; // mean absolute error of repeating the previous day
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  days: number; // days with a forecast and an actual summary
+  metrics: BacktestMetric[];
+  goals: {
+    forecasts: number; // daily and streak goals only
+    brierScore: number | null; // mean squared error of the probabilities (0 is perfect, 0.25 is a coin flip)
+    completed: number;
+    predicted: number; // sum of probabilities, to compare with completed
+  };
 }
 
 // Daily summary content
@@ -105,6 +599,9 @@ export interface DailySummaryContent {
   // Time breakdown
   totalTrackedMinutes: number;
   categoryBreakdown: Record<ActivityCategory, number>;
+  groupBreakdown?: Record<string, number>; // minutes per parent group, when the taxonomy has groups
+  categories?: CategoryInfo[]; // taxonomy the summary was generated with
+  analysisVersion?: string; // screen analyses the summary is pinned to (model@promptHash); unset uses current ones
   
   // Productivity metrics
   focusScore: number;
@@ -124,8 +621,15 @@ export interface DailySummaryContent {
     productivityChange: string;
   };
   
+  // Compared with the user's baseline of recent days
+  hourlyActivity?: Record<number, HourlyActivity>;
+  anomalies?: Anomaly[];
+
   // Check-ins
   checkIns: string[];
+
+  // Paused capture (privacy windows)
+  captureGaps?: CaptureGap[];
   
   // Goals (if any)
   goalsProgress?: Record<string, { target: number; actual: number; met: boolean }>;
@@ -134,9 +638,12 @@ export interface DailySummaryContent {
 export interface Activity {
   id?: number;
   timestamp: string;
-  type: 'screen_record' | 'camera_snap' | 'audio_record' | 'session_start' | 'session_stop';
+  type: 'screen_record' | 'camera_snap' | 'audio_record' | 'session_start' | 'session_stop' | 'app_usage'
+    | 'idle_start' | 'idle_end' | 'capture_paused' | 'capture_resumed'
+    | 'capture_suppressed' | 'storage_pruned';
   duration?: number;
   metadata_json: string;
+  local_date?: string; // day it counts toward in the user's timezone (config.day), set on insert
 }
 
 export interface CheckIn {
@@ -144,28 +651,117 @@ export interface CheckIn {
   timestamp: string;
   message: string;
   source: 'cli' | 'api' | 'auto';
+  mood?: number | null; // self-reported, 1-5 (checkin --mood)
+  energy?: number | null; // self-reported, 1-5 (checkin --energy)
+  local_date?: string; // set on insert
 }
 
 export interface MediaRecord {
   id?: number;
   timestamp: string;
-  type: 'screen' | 'camera' | 'audio';
+  type: 'screen' | 'camera' | 'audio' | 'frame';
   file_path: string;
   analysis_json?: string;
+  parent_id?: number | null; // frames point at their recording; audio chunks at the first chunk of their conversation
+  phash?: string | null; // perceptual hash (dHash, 16 hex chars) of the image; recordings: one per keyframe, comma-separated
+  purged_at?: string | null; // file deleted by retention; the row and analysis remain
+  compressed_at?: string | null;
+  local_date?: string; // set on insert
 }
 
 export interface Summary {
   id?: number;
   date: string;
   content_json: string;
+  analysis_version?: string | null; // pinned analysis version, see DailySummaryContent.analysisVersion
 }
 
 export interface SessionState {
   active: boolean;
   sessionName: string | null;
   startTime: string | null;
+  pid?: number; // process that owns the capture loops
+  paused?: boolean;
+  pausedAt?: string | null;
+  pausedUntil?: string | null; // auto-resume time for timed privacy windows
+  pauseReason?: string | null;
+  resumeTimeout?: NodeJS.Timeout;
   screenRecordInterval?: NodeJS.Timeout;
   cameraSnapInterval?: NodeJS.Timeout;
+  windowSampleInterval?: NodeJS.Timeout;
+  idleCheckInterval?: NodeJS.Timeout;
+}
+
+export interface SessionStatus {
+  active: boolean;
+  sessionName: string | null;
+  startTime: string | null;
+  durationMin: number;
+  paused: boolean;
+  pausedUntil: string | null;
+  idle: boolean;
+  pid: number | null;
+}
+
+export type AnalysisJobKind = 'screen' | 'camera' | 'audio';
+
+// pending → running → done; failures go back to pending (with backoff) until maxAttempts, then dead
+export type AnalysisJobStatus = 'pending' | 'running' | 'done' | 'dead';
+
+export interface AnalysisJob {
+  id: number;
+  media_id: number;
+  kind: AnalysisJobKind;
+  status: AnalysisJobStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  lease_until: string | null; // a running job's worker owns it until then
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface QueueSummary {
+  total: number;
+  done: number;
+  pending: number;
+  dead: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface StorageUsage {
+  byType: Record<MediaRecord['type'], { files: number; bytes: number }>;
+  totalBytes: number;
+  purged: number; // rows whose file was removed by retention
+  missing: number; // rows whose file is gone but not marked purged
+  quotaBytes: number | null;
+}
+
+export interface PruneResult {
+  purged: Array<{ id: number; type: MediaRecord['type']; bytes: number; reason: 'age' | 'quota' | 'missing' }>;
+  freedBytes: number;
+  skippedUnanalyzed: number; // past retention but not analyzed yet
+  dryRun: boolean;
+}
+
+export interface CompressResult {
+  compressed: number;
+  skipped: number; // re-encoding didn't make the file smaller
+  failed: number;
+  savedBytes: number;
+  dryRun: boolean;
 }
 
 export interface ExportData {